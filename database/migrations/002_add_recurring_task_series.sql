@@ -0,0 +1,45 @@
+-- Migration: Add recurring task series
+-- File: database/migrations/002_add_recurring_task_series.sql
+
+-- Series template shared by every occurrence of a recurring task
+CREATE TABLE IF NOT EXISTS task_series (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    group_id UUID NOT NULL REFERENCES groups(id) ON DELETE CASCADE,
+    created_by UUID NOT NULL REFERENCES members(id) ON DELETE CASCADE,
+    title TEXT NOT NULL,
+    description TEXT,
+    category TEXT,
+    priority TEXT,
+    urgent BOOLEAN DEFAULT FALSE,
+    estimated_minutes INTEGER,
+    assigned_to UUID REFERENCES members(id) ON DELETE SET NULL,
+    recurring_pattern TEXT NOT NULL, -- RRULE subset, e.g. FREQ=WEEKLY;BYDAY=MO,TH
+    recurring_until TIMESTAMP,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Link each occurrence to its series and record its scheduled date
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS series_id UUID REFERENCES task_series(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS occurrence_date TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS idx_task_series_group_id ON task_series(group_id);
+CREATE INDEX IF NOT EXISTS idx_tasks_series_occurrence ON tasks(series_id, occurrence_date);
+
+-- Create trigger for task_series updated_at
+DROP TRIGGER IF EXISTS update_task_series_updated_at ON task_series;
+CREATE TRIGGER update_task_series_updated_at
+    BEFORE UPDATE ON task_series
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE task_series ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage all task series" ON task_series
+    FOR ALL USING (auth.jwt() ->> 'role' = 'service_role');
+
+-- Add comments for documentation
+COMMENT ON TABLE task_series IS 'Template and recurrence rule shared by the occurrences of a recurring task';
+COMMENT ON COLUMN tasks.series_id IS 'Recurring series this task is an occurrence of';
+COMMENT ON COLUMN tasks.occurrence_date IS 'Originally scheduled date of this occurrence; rescheduling only changes due_date';
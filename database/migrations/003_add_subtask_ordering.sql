@@ -0,0 +1,14 @@
+-- Migration: Add subtask ordering and completion rollup
+-- File: database/migrations/003_add_subtask_ordering.sql
+
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS parent_task_id UUID REFERENCES tasks(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS position INTEGER DEFAULT 0,
+ADD COLUMN IF NOT EXISTS auto_complete_on_subtasks BOOLEAN DEFAULT FALSE;
+
+-- Create index for subtask lookups in display order
+CREATE INDEX IF NOT EXISTS idx_tasks_parent_position ON tasks(parent_task_id, position);
+
+-- Add comments for documentation
+COMMENT ON COLUMN tasks.position IS 'Display order among the subtasks of the same parent';
+COMMENT ON COLUMN tasks.auto_complete_on_subtasks IS 'Complete this task automatically once all of its subtasks are done';
@@ -0,0 +1,16 @@
+-- Migration: Add private Supabase Storage bucket for task attachments
+-- File: database/migrations/004_add_attachment_storage_bucket.sql
+
+-- Files are only reachable through signed URLs issued by the API
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+    'task-attachments',
+    'task-attachments',
+    FALSE,
+    5242880, -- 5MB, matches validationConfig.maxFileSize
+    ARRAY['image/jpeg', 'image/png', 'image/gif', 'image/webp']
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- Create index for attachment lookups by task
+CREATE INDEX IF NOT EXISTS idx_task_attachments_task_id ON task_attachments(task_id);
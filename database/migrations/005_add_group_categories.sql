@@ -0,0 +1,50 @@
+-- Migration: Per-group task categories replace the hardcoded category enum
+-- File: database/migrations/005_add_group_categories.sql
+
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS category_id UUID REFERENCES categories(id) ON DELETE SET NULL;
+
+ALTER TABLE task_series
+ADD COLUMN IF NOT EXISTS category_id UUID REFERENCES categories(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_category_id ON tasks(category_id);
+
+-- Seed the default categories into every existing group
+INSERT INTO categories (name, color, icon, group_id, is_default, sort_order)
+SELECT defaults.name, defaults.color, defaults.icon, g.id, TRUE, defaults.sort_order
+FROM groups g
+CROSS JOIN (VALUES
+    ('Chores', '#3B82F6', 'broom', 0),
+    ('Kids', '#F59E0B', 'child', 1),
+    ('Work', '#6366F1', 'briefcase', 2),
+    ('Projects', '#10B981', 'hammer', 3),
+    ('Personal', '#EC4899', 'user', 4),
+    ('Shopping', '#EF4444', 'cart', 5)
+) AS defaults(name, color, icon, sort_order)
+ON CONFLICT (name, group_id) DO NOTHING;
+
+-- Move tasks and series that still use the old text category onto category IDs
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'tasks' AND column_name = 'category'
+    ) THEN
+        UPDATE tasks t
+        SET category_id = c.id
+        FROM categories c
+        WHERE c.group_id = t.group_id AND c.name = t.category AND t.category_id IS NULL;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'task_series' AND column_name = 'category'
+    ) THEN
+        UPDATE task_series s
+        SET category_id = c.id
+        FROM categories c
+        WHERE c.group_id = s.group_id AND c.name = s.category AND s.category_id IS NULL;
+
+        ALTER TABLE task_series DROP COLUMN category;
+    END IF;
+END $$;
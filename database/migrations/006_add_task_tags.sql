@@ -0,0 +1,11 @@
+-- Migration: Tags on tasks and recurring series
+-- File: database/migrations/006_add_task_tags.sql
+
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS tags TEXT[] DEFAULT '{}';
+
+ALTER TABLE task_series
+ADD COLUMN IF NOT EXISTS tags TEXT[] DEFAULT '{}';
+
+-- Tag filters use the array overlap (&&) and containment (@>) operators
+CREATE INDEX IF NOT EXISTS idx_tasks_tags ON tasks USING GIN (tags);
@@ -0,0 +1,123 @@
+-- Migration: Full-text search over tasks
+-- File: database/migrations/007_add_task_search.sql
+--
+-- tasks.search_vector holds the weighted document for a task:
+--   A = title, B = tags, C = description, D = user comments (not system activity entries)
+-- It is kept current by triggers on tasks and task_comments and backs search_tasks().
+
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS search_vector TSVECTOR;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_search_vector ON tasks USING GIN (search_vector);
+
+CREATE OR REPLACE FUNCTION task_comments_text(p_task_id UUID)
+RETURNS TEXT AS $$
+    SELECT COALESCE(string_agg(content, ' '), '')
+    FROM task_comments
+    WHERE task_id = p_task_id
+    AND type = 'comment';
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION build_task_search_vector(
+    p_title TEXT,
+    p_tags TEXT[],
+    p_description TEXT,
+    p_comments TEXT
+) RETURNS TSVECTOR AS $$
+    SELECT
+        setweight(to_tsvector('english', COALESCE(p_title, '')), 'A') ||
+        setweight(to_tsvector('english', COALESCE(array_to_string(p_tags, ' '), '')), 'B') ||
+        setweight(to_tsvector('english', COALESCE(p_description, '')), 'C') ||
+        setweight(to_tsvector('english', COALESCE(p_comments, '')), 'D');
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION tasks_search_vector_trigger()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.search_vector := build_task_search_vector(
+        NEW.title,
+        NEW.tags,
+        NEW.description,
+        task_comments_text(NEW.id)
+    );
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS tasks_search_vector_update ON tasks;
+CREATE TRIGGER tasks_search_vector_update
+    BEFORE INSERT OR UPDATE OF title, description, tags ON tasks
+    FOR EACH ROW EXECUTE FUNCTION tasks_search_vector_trigger();
+
+-- Comment changes refresh the vector of their task
+CREATE OR REPLACE FUNCTION task_comments_search_vector_trigger()
+RETURNS TRIGGER AS $$
+DECLARE
+    affected_task_id UUID := COALESCE(NEW.task_id, OLD.task_id);
+BEGIN
+    UPDATE tasks
+    SET search_vector = build_task_search_vector(title, tags, description, task_comments_text(id))
+    WHERE id = affected_task_id;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS task_comments_search_vector_update ON task_comments;
+CREATE TRIGGER task_comments_search_vector_update
+    AFTER INSERT OR UPDATE OF content OR DELETE ON task_comments
+    FOR EACH ROW EXECUTE FUNCTION task_comments_search_vector_trigger();
+
+-- Backfill existing tasks
+UPDATE tasks
+SET search_vector = build_task_search_vector(title, tags, description, task_comments_text(id));
+
+-- Ranked search within a set of groups. Filters are optional (NULL = any).
+-- Highlights wrap matches in <mark></mark>; comment_highlight is NULL unless a comment matched.
+CREATE OR REPLACE FUNCTION search_tasks(
+    p_group_ids UUID[],
+    p_query TEXT,
+    p_status TEXT DEFAULT NULL,
+    p_priority TEXT DEFAULT NULL,
+    p_assigned_to UUID DEFAULT NULL,
+    p_limit INTEGER DEFAULT 20,
+    p_offset INTEGER DEFAULT 0
+) RETURNS TABLE (
+    task_id UUID,
+    rank REAL,
+    title_highlight TEXT,
+    description_highlight TEXT,
+    comment_highlight TEXT,
+    total_count BIGINT
+) AS $$
+    WITH query AS (
+        SELECT websearch_to_tsquery('english', p_query) AS tsq
+    ),
+    matches AS (
+        SELECT t.*, ts_rank_cd(t.search_vector, query.tsq) AS rank, query.tsq
+        FROM tasks t, query
+        WHERE t.group_id = ANY(p_group_ids)
+        AND t.search_vector @@ query.tsq
+        AND (p_status IS NULL OR t.status = p_status)
+        AND (p_priority IS NULL OR t.priority = p_priority)
+        AND (p_assigned_to IS NULL OR t.assigned_to = p_assigned_to)
+    )
+    SELECT
+        m.id,
+        m.rank,
+        ts_headline('english', m.title, m.tsq, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=TRUE'),
+        ts_headline('english', COALESCE(m.description, ''), m.tsq, 'StartSel=<mark>, StopSel=</mark>, MaxFragments=2'),
+        (
+            SELECT ts_headline('english', c.content, m.tsq, 'StartSel=<mark>, StopSel=</mark>, MaxFragments=1')
+            FROM task_comments c
+            WHERE c.task_id = m.id
+            AND c.type = 'comment'
+            AND to_tsvector('english', c.content) @@ m.tsq
+            ORDER BY c.created_at DESC
+            LIMIT 1
+        ),
+        COUNT(*) OVER ()
+    FROM matches m
+    ORDER BY m.rank DESC, m.updated_at DESC, m.id
+    LIMIT p_limit
+    OFFSET p_offset;
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,20 @@
+-- Migration: Sorting support for task lists
+-- File: database/migrations/008_add_task_sorting.sql
+
+-- Priority is stored as text; sort by its rank instead of alphabetically
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS priority_rank SMALLINT GENERATED ALWAYS AS (
+    CASE lower(priority)
+        WHEN 'urgent' THEN 4
+        WHEN 'high' THEN 3
+        WHEN 'medium' THEN 2
+        WHEN 'low' THEN 1
+        ELSE 0
+    END
+) STORED;
+
+-- Keyset pagination orders by (sort column, id) within a group
+CREATE INDEX IF NOT EXISTS idx_tasks_group_created ON tasks(group_id, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_tasks_group_updated ON tasks(group_id, updated_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_tasks_group_due_date ON tasks(group_id, due_date, id);
+CREATE INDEX IF NOT EXISTS idx_tasks_group_priority ON tasks(group_id, priority_rank DESC, id DESC);
@@ -0,0 +1,29 @@
+-- Migration: Time tracking with per-member timers
+-- File: database/migrations/009_add_time_tracking.sql
+
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS actual_duration INTEGER; -- in minutes
+
+-- One row per timed session or manual entry; a running timer has no ended_at
+CREATE TABLE IF NOT EXISTS task_time_entries (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+    member_id UUID NOT NULL REFERENCES members(id) ON DELETE CASCADE,
+    source TEXT NOT NULL DEFAULT 'timer' CHECK (source IN ('timer', 'manual')),
+    started_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    ended_at TIMESTAMP,
+    duration_seconds INTEGER CHECK (duration_seconds >= 0),
+    paused BOOLEAN DEFAULT FALSE,
+    note TEXT,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_time_entries_task_id ON task_time_entries(task_id);
+
+-- A member can only have one running timer at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_task_time_entries_one_running
+    ON task_time_entries(member_id)
+    WHERE ended_at IS NULL;
+
+COMMENT ON COLUMN task_time_entries.paused IS 'The session was paused rather than stopped; starting again resumes it';
+COMMENT ON COLUMN tasks.actual_duration IS 'Total tracked minutes, filled in when the task is completed';
@@ -0,0 +1,66 @@
+-- Migration: Task dependencies (blocked-by)
+-- File: database/migrations/010_add_task_dependencies.sql
+
+CREATE TABLE IF NOT EXISTS task_dependencies (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+    blocked_by_task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+    created_by UUID REFERENCES members(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT NOW(),
+
+    UNIQUE(task_id, blocked_by_task_id),
+    CHECK (task_id <> blocked_by_task_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_dependencies_blocked_by ON task_dependencies(blocked_by_task_id);
+
+-- tasks.is_blocked: the task has at least one blocker that is still open.
+-- Kept current by triggers so list queries can filter on it directly.
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS is_blocked BOOLEAN DEFAULT FALSE;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_group_blocked ON tasks(group_id, is_blocked);
+
+CREATE OR REPLACE FUNCTION refresh_task_blocked(p_task_id UUID)
+RETURNS VOID AS $$
+    UPDATE tasks
+    SET is_blocked = EXISTS (
+        SELECT 1
+        FROM task_dependencies d
+        JOIN tasks blocker ON blocker.id = d.blocked_by_task_id
+        WHERE d.task_id = p_task_id
+        AND blocker.status NOT IN ('completed', 'cancelled')
+    )
+    WHERE id = p_task_id;
+$$ LANGUAGE sql;
+
+CREATE OR REPLACE FUNCTION task_dependencies_blocked_trigger()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM refresh_task_blocked(COALESCE(NEW.task_id, OLD.task_id));
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS task_dependencies_blocked_update ON task_dependencies;
+CREATE TRIGGER task_dependencies_blocked_update
+    AFTER INSERT OR DELETE ON task_dependencies
+    FOR EACH ROW EXECUTE FUNCTION task_dependencies_blocked_trigger();
+
+-- A blocker changing status may block or unblock the tasks waiting on it
+CREATE OR REPLACE FUNCTION tasks_blocker_status_trigger()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM refresh_task_blocked(d.task_id)
+    FROM task_dependencies d
+    WHERE d.blocked_by_task_id = NEW.id;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS tasks_blocker_status_update ON tasks;
+CREATE TRIGGER tasks_blocker_status_update
+    AFTER UPDATE OF status ON tasks
+    FOR EACH ROW
+    WHEN (OLD.status IS DISTINCT FROM NEW.status)
+    EXECUTE FUNCTION tasks_blocker_status_trigger();
@@ -0,0 +1,17 @@
+-- Migration: Reusable task templates per group
+-- File: database/migrations/011_add_task_templates.sql
+
+CREATE TABLE IF NOT EXISTS task_templates (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    group_id UUID NOT NULL REFERENCES groups(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    task JSONB NOT NULL,              -- fields of the task to create
+    subtasks JSONB DEFAULT '[]',      -- checklist created under it, in order
+    created_by UUID REFERENCES members(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+
+    UNIQUE(name, group_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_templates_group_id ON task_templates(group_id);
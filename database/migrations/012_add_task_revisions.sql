@@ -0,0 +1,16 @@
+-- Migration: Task revision history
+-- File: database/migrations/012_add_task_revisions.sql
+
+-- One row per change to a task: changes = { field: { "from": old, "to": new } }
+CREATE TABLE IF NOT EXISTS task_revisions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+    changed_by UUID REFERENCES members(id) ON DELETE SET NULL,
+    changes JSONB NOT NULL,
+    batch_id UUID,                    -- shared by every revision of one bulk operation
+    reverts_revision_id UUID REFERENCES task_revisions(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_revisions_task_id ON task_revisions(task_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_task_revisions_batch_id ON task_revisions(batch_id) WHERE batch_id IS NOT NULL;
@@ -0,0 +1,24 @@
+-- Migration: Task versions for optimistic concurrency (ETag / If-Match)
+-- File: database/migrations/013_add_task_versions.sql
+
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+-- Every edit made through the API sets updated_at. Derived columns kept by triggers
+-- (search_vector, is_blocked) do not, so they do not invalidate a client's copy.
+CREATE OR REPLACE FUNCTION tasks_version_trigger()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.updated_at IS DISTINCT FROM OLD.updated_at THEN
+        NEW.version := OLD.version + 1;
+    ELSE
+        NEW.version := OLD.version;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS tasks_version_update ON tasks;
+CREATE TRIGGER tasks_version_update
+    BEFORE UPDATE ON tasks
+    FOR EACH ROW EXECUTE FUNCTION tasks_version_trigger();
@@ -0,0 +1,16 @@
+-- Migration: Calendar (ICS) subscription feeds
+-- File: database/migrations/014_add_calendar_feeds.sql
+
+-- A feed covers the member's own tasks (group_id NULL) or every task of one group.
+-- Only a hash of the secret token is stored; revoking a feed disables its URL for good.
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    member_id UUID NOT NULL REFERENCES members(id) ON DELETE CASCADE,
+    group_id UUID REFERENCES groups(id) ON DELETE CASCADE,
+    token_hash TEXT NOT NULL UNIQUE,
+    created_at TIMESTAMP DEFAULT NOW(),
+    last_accessed_at TIMESTAMP,
+    revoked_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_calendar_feeds_member_id ON calendar_feeds(member_id) WHERE revoked_at IS NULL;
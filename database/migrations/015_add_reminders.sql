@@ -0,0 +1,29 @@
+-- Migration: Due-date reminders and in-app notifications
+-- File: database/migrations/015_add_reminders.sql
+
+-- In-app notification inbox
+CREATE TABLE IF NOT EXISTS notifications (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    member_id UUID NOT NULL REFERENCES members(id) ON DELETE CASCADE,
+    task_id UUID REFERENCES tasks(id) ON DELETE CASCADE,
+    type TEXT NOT NULL,
+    title TEXT NOT NULL,
+    body TEXT,
+    read_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_member_id ON notifications(member_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_unread ON notifications(member_id) WHERE read_at IS NULL;
+
+-- Reminders already sent. The unique key makes the scheduler send each reminder once,
+-- even when several instances run at the same time.
+CREATE TABLE IF NOT EXISTS task_reminders (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+    member_id UUID NOT NULL REFERENCES members(id) ON DELETE CASCADE,
+    reminder_key TEXT NOT NULL,
+    channels TEXT[] DEFAULT '{}',
+    sent_at TIMESTAMP DEFAULT NOW(),
+    UNIQUE (task_id, member_id, reminder_key)
+);
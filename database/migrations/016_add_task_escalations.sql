@@ -0,0 +1,26 @@
+-- Migration: Overdue escalation rules
+-- File: database/migrations/016_add_task_escalations.sql
+
+-- Rules are stored per group in groups.settings.escalation.
+-- Escalations are written to a task's activity thread by the system, without an author.
+ALTER TABLE task_comments ALTER COLUMN author_id DROP NOT NULL;
+
+ALTER TABLE task_comments DROP CONSTRAINT IF EXISTS task_comments_type_check;
+ALTER TABLE task_comments
+ADD CONSTRAINT task_comments_type_check
+CHECK (type IN ('comment', 'status_change', 'assignment', 'escalation'));
+
+-- Each rule fires once per task and due date; moving the due date re-arms it
+CREATE TABLE IF NOT EXISTS task_escalations (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+    group_id UUID NOT NULL REFERENCES groups(id) ON DELETE CASCADE,
+    rule_id UUID NOT NULL,
+    action TEXT NOT NULL,
+    due_date TIMESTAMP NOT NULL,
+    details JSONB DEFAULT '{}',
+    created_at TIMESTAMP DEFAULT NOW(),
+    UNIQUE (task_id, rule_id, due_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_escalations_group_id ON task_escalations(group_id, created_at DESC);
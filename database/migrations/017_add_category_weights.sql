@@ -0,0 +1,11 @@
+-- Migration: Category weights for workload analytics
+-- File: database/migrations/017_add_category_weights.sql
+
+-- A minute of work in a category counts `weight` times in workload and fairness figures,
+-- so groups can give more credit to easily overlooked work such as Kids tasks.
+ALTER TABLE categories
+ADD COLUMN IF NOT EXISTS weight NUMERIC(4,2) NOT NULL DEFAULT 1
+CHECK (weight > 0 AND weight <= 10);
+
+-- Workload analytics look up tasks of a group by completion date
+CREATE INDEX IF NOT EXISTS idx_tasks_group_completed_at ON tasks(group_id, completed_at);
@@ -0,0 +1,29 @@
+-- Migration: Points, streaks and leaderboards
+-- File: database/migrations/018_add_points.sql
+
+-- Fixed points for completing any task of a category, instead of the priority/estimate formula
+ALTER TABLE categories
+ADD COLUMN IF NOT EXISTS points INTEGER CHECK (points >= 0 AND points <= 1000);
+
+-- Every change to a member's points is a ledger entry; balances, leaderboards and streaks
+-- are computed from it. Reopening a completed task adds an entry that reverses the award.
+CREATE TABLE IF NOT EXISTS points_ledger (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    group_id UUID NOT NULL REFERENCES groups(id) ON DELETE CASCADE,
+    member_id UUID NOT NULL REFERENCES members(id) ON DELETE CASCADE,
+    task_id UUID REFERENCES tasks(id) ON DELETE SET NULL,
+    points INTEGER NOT NULL,
+    reason TEXT NOT NULL CHECK (reason IN ('task_completed', 'task_reopened', 'adjustment')),
+    note TEXT,
+    created_by UUID REFERENCES members(id) ON DELETE SET NULL,
+    reverses_entry_id UUID REFERENCES points_ledger(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_points_ledger_group_id ON points_ledger(group_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_points_ledger_member_id ON points_ledger(member_id, group_id);
+CREATE INDEX IF NOT EXISTS idx_points_ledger_task_id ON points_ledger(task_id) WHERE task_id IS NOT NULL;
+
+-- An entry can be reversed only once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_points_ledger_reverses_entry_id
+ON points_ledger(reverses_entry_id) WHERE reverses_entry_id IS NOT NULL;
@@ -0,0 +1,47 @@
+-- Migration: Rewards store
+-- File: database/migrations/019_add_rewards.sql
+
+-- Rewards a group offers for points (screen time, allowance, ...)
+CREATE TABLE IF NOT EXISTS rewards (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    group_id UUID NOT NULL REFERENCES groups(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    description TEXT,
+    icon TEXT,
+    cost INTEGER NOT NULL CHECK (cost > 0),
+    -- Removed rewards are archived so past redemptions keep their reward
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_by UUID REFERENCES members(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rewards_group_id ON rewards(group_id) WHERE active;
+
+-- A member's request to redeem a reward. Points are only taken when an admin approves it;
+-- the ledger entry records the spend.
+CREATE TABLE IF NOT EXISTS reward_redemptions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    group_id UUID NOT NULL REFERENCES groups(id) ON DELETE CASCADE,
+    reward_id UUID NOT NULL REFERENCES rewards(id) ON DELETE CASCADE,
+    member_id UUID NOT NULL REFERENCES members(id) ON DELETE CASCADE,
+    -- Cost when requested; later price changes do not apply
+    cost INTEGER NOT NULL CHECK (cost > 0),
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+    note TEXT,
+    decision_note TEXT,
+    decided_by UUID REFERENCES members(id) ON DELETE SET NULL,
+    decided_at TIMESTAMP,
+    ledger_entry_id UUID REFERENCES points_ledger(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_reward_redemptions_group_id ON reward_redemptions(group_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_reward_redemptions_member_id ON reward_redemptions(member_id, status);
+
+-- Approved redemptions spend points through the ledger
+ALTER TABLE points_ledger DROP CONSTRAINT IF EXISTS points_ledger_reason_check;
+ALTER TABLE points_ledger
+ADD CONSTRAINT points_ledger_reason_check
+CHECK (reason IN ('task_completed', 'task_reopened', 'adjustment', 'redemption'));
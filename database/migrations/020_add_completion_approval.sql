@@ -0,0 +1,16 @@
+-- Migration: Completion approval for supervised members and categories
+-- File: database/migrations/020_add_completion_approval.sql
+
+-- Completions that need approval wait in 'awaiting_approval' until the task's creator or a
+-- group admin approves them (completed) or sends them back (in_progress).
+ALTER TABLE tasks DROP CONSTRAINT IF EXISTS tasks_status_check;
+ALTER TABLE tasks
+ADD CONSTRAINT tasks_status_check
+CHECK (status IN ('pending', 'in_progress', 'awaiting_approval', 'completed', 'cancelled'));
+
+CREATE INDEX IF NOT EXISTS idx_tasks_awaiting_approval ON tasks(group_id) WHERE status = 'awaiting_approval';
+
+-- Every completion in the category needs approval.
+-- Per member, approval is switched on in group_memberships.metadata.approval.
+ALTER TABLE categories
+ADD COLUMN IF NOT EXISTS requires_approval BOOLEAN NOT NULL DEFAULT FALSE;
@@ -0,0 +1,13 @@
+-- Migration: Photo proof of completion
+-- File: database/migrations/021_add_completion_proof.sql
+
+-- A task needs a photo to be completed when it or its category asks for one
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS requires_proof BOOLEAN NOT NULL DEFAULT FALSE;
+
+ALTER TABLE categories
+ADD COLUMN IF NOT EXISTS requires_proof BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- The photo uploaded with the latest completion; cleared when the task is reopened or sent back
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS proof_attachment_id UUID REFERENCES task_attachments(id) ON DELETE SET NULL;
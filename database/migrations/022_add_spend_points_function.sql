@@ -0,0 +1,37 @@
+-- Migration: Atomic point spending for reward redemptions
+-- File: database/migrations/022_add_spend_points_function.sql
+
+-- Check a member's balance and record the spend in one transaction. The advisory lock
+-- serializes spends per member, so concurrent approvals cannot both pass the check and
+-- drive the balance negative.
+CREATE OR REPLACE FUNCTION spend_points(
+    p_group_id UUID,
+    p_member_id UUID,
+    p_points INTEGER,
+    p_note TEXT,
+    p_created_by UUID
+)
+RETURNS points_ledger AS $$
+DECLARE
+    v_balance INTEGER;
+    v_entry points_ledger;
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext(p_group_id::TEXT || ':' || p_member_id::TEXT));
+
+    SELECT COALESCE(SUM(points), 0) INTO v_balance
+    FROM points_ledger
+    WHERE group_id = p_group_id
+    AND member_id = p_member_id;
+
+    IF v_balance < p_points THEN
+        RAISE EXCEPTION 'Not enough points: the redemption costs %, the member has %', p_points, v_balance
+        USING ERRCODE = 'P0001';
+    END IF;
+
+    INSERT INTO points_ledger (group_id, member_id, points, reason, note, created_by, created_at)
+    VALUES (p_group_id, p_member_id, -p_points, 'redemption', p_note, p_created_by, NOW())
+    RETURNING * INTO v_entry;
+
+    RETURN v_entry;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,68 @@
+-- Migration: Escape search highlights
+-- File: database/migrations/023_escape_search_highlights.sql
+--
+-- search_tasks() returned highlights as HTML built from raw task and comment text, so markup
+-- in a title or comment reached clients as live HTML. The text is now escaped before
+-- ts_headline adds its <mark> tags, so the <mark> tags are the only markup in a highlight.
+
+CREATE OR REPLACE FUNCTION html_escape(p_text TEXT)
+RETURNS TEXT AS $$
+    SELECT replace(replace(replace(replace(replace(p_text,
+        '&', '&amp;'),
+        '<', '&lt;'),
+        '>', '&gt;'),
+        '"', '&quot;'),
+        '''', '&#39;');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Ranked search within a set of groups. Filters are optional (NULL = any).
+-- Highlights are HTML: the text is escaped, then matches are wrapped in <mark></mark>.
+-- comment_highlight is NULL unless a comment matched.
+CREATE OR REPLACE FUNCTION search_tasks(
+    p_group_ids UUID[],
+    p_query TEXT,
+    p_status TEXT DEFAULT NULL,
+    p_priority TEXT DEFAULT NULL,
+    p_assigned_to UUID DEFAULT NULL,
+    p_limit INTEGER DEFAULT 20,
+    p_offset INTEGER DEFAULT 0
+) RETURNS TABLE (
+    task_id UUID,
+    rank REAL,
+    title_highlight TEXT,
+    description_highlight TEXT,
+    comment_highlight TEXT,
+    total_count BIGINT
+) AS $$
+    WITH query AS (
+        SELECT websearch_to_tsquery('english', p_query) AS tsq
+    ),
+    matches AS (
+        SELECT t.*, ts_rank_cd(t.search_vector, query.tsq) AS rank, query.tsq
+        FROM tasks t, query
+        WHERE t.group_id = ANY(p_group_ids)
+        AND t.search_vector @@ query.tsq
+        AND (p_status IS NULL OR t.status = p_status)
+        AND (p_priority IS NULL OR t.priority = p_priority)
+        AND (p_assigned_to IS NULL OR t.assigned_to = p_assigned_to)
+    )
+    SELECT
+        m.id,
+        m.rank,
+        ts_headline('english', html_escape(m.title), m.tsq, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=TRUE'),
+        ts_headline('english', html_escape(COALESCE(m.description, '')), m.tsq, 'StartSel=<mark>, StopSel=</mark>, MaxFragments=2'),
+        (
+            SELECT ts_headline('english', html_escape(c.content), m.tsq, 'StartSel=<mark>, StopSel=</mark>, MaxFragments=1')
+            FROM task_comments c
+            WHERE c.task_id = m.id
+            AND c.type = 'comment'
+            AND to_tsvector('english', c.content) @@ m.tsq
+            ORDER BY c.created_at DESC
+            LIMIT 1
+        ),
+        COUNT(*) OVER ()
+    FROM matches m
+    ORDER BY m.rank DESC, m.updated_at DESC, m.id
+    LIMIT p_limit
+    OFFSET p_offset;
+$$ LANGUAGE sql STABLE;
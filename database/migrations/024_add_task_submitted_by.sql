@@ -0,0 +1,7 @@
+-- Migration: Remember who submitted a completion for approval
+-- File: database/migrations/024_add_task_submitted_by.sql
+
+-- The member whose completion is awaiting approval. Approving it credits them rather than the
+-- reviewer; cleared when the task is reopened or sent back.
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS submitted_by UUID REFERENCES members(id) ON DELETE SET NULL;
@@ -0,0 +1,21 @@
+-- Migration: At most one points award per task completion
+-- File: database/migrations/025_add_points_award_sequence.sql
+
+-- A task's awards are numbered in order: 0 for its first completion, 1 once it was reopened
+-- and completed again, and so on. Two paths awarding the same completion at once (an approval
+-- racing a bulk update, say) compute the same number, and the unique index lets one through.
+ALTER TABLE points_ledger
+ADD COLUMN IF NOT EXISTS award_seq INTEGER;
+
+UPDATE points_ledger AS entry
+SET award_seq = numbered.seq
+FROM (
+    SELECT id, ROW_NUMBER() OVER (PARTITION BY task_id ORDER BY created_at, id) - 1 AS seq
+    FROM points_ledger
+    WHERE reason = 'task_completed'
+    AND task_id IS NOT NULL
+) AS numbered
+WHERE entry.id = numbered.id;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_points_ledger_task_award
+ON points_ledger(task_id, award_seq) WHERE reason = 'task_completed';
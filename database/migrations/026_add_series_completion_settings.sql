@@ -0,0 +1,19 @@
+-- Migration: Completion settings on recurring series
+-- File: database/migrations/026_add_series_completion_settings.sql
+
+-- Every occurrence of a series needs the same photo proof and subtask auto-completion
+ALTER TABLE task_series
+ADD COLUMN IF NOT EXISTS requires_proof BOOLEAN NOT NULL DEFAULT FALSE,
+ADD COLUMN IF NOT EXISTS auto_complete_on_subtasks BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Series created before this migration take the settings of their latest occurrence
+UPDATE task_series s
+SET requires_proof = COALESCE(t.requires_proof, FALSE),
+    auto_complete_on_subtasks = COALESCE(t.auto_complete_on_subtasks, FALSE)
+FROM (
+    SELECT DISTINCT ON (series_id) series_id, requires_proof, auto_complete_on_subtasks
+    FROM tasks
+    WHERE series_id IS NOT NULL
+    ORDER BY series_id, occurrence_date DESC NULLS LAST, created_at DESC
+) t
+WHERE t.series_id = s.id;
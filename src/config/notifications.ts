@@ -0,0 +1,21 @@
+// Notification Configuration
+// Reminder scheduling and the delivery channels enabled from the environment
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+export const notificationConfig = {
+  // How often the reminder and escalation schedulers (REMINDERS_ENABLED / ESCALATIONS_ENABLED)
+  // look for work
+  reminderIntervalMs: Number(process.env.REMINDER_INTERVAL_MS) || 5 * 60 * 1000,
+
+  // Email and push are handed to a delivery service over HTTP; unset disables the channel
+  emailWebhookUrl: process.env.EMAIL_WEBHOOK_URL || '',
+  pushWebhookUrl: process.env.PUSH_WEBHOOK_URL || '',
+  webhookSecret: process.env.NOTIFICATION_WEBHOOK_SECRET || '',
+
+  // Outside production, email and push go to the local test channel unless a webhook is set
+  useTestChannel: process.env.NOTIFICATION_TEST_CHANNEL
+    ? process.env.NOTIFICATION_TEST_CHANNEL === 'true'
+    : process.env.NODE_ENV !== 'production',
+};
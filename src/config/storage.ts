@@ -0,0 +1,28 @@
+// Attachment Storage Configuration
+// Selects the blob storage driver and its settings from the environment
+
+export type StorageDriverName = 'local' | 'supabase';
+
+export const storageConfig = {
+  // 'local' for development and tests, 'supabase' (Supabase Storage) for production
+  driver: (process.env.STORAGE_DRIVER ||
+    (process.env.NODE_ENV === 'production' ? 'supabase' : 'local')) as StorageDriverName,
+
+  // Local filesystem driver
+  localDirectory: process.env.LOCAL_STORAGE_DIR || './uploads',
+  publicBaseUrl: process.env.API_BASE_URL || '',
+
+  // Supabase Storage driver
+  supabaseBucket: process.env.SUPABASE_STORAGE_BUCKET || 'task-attachments',
+
+  // Download links expire after this many seconds
+  signedUrlTtlSeconds: Number(process.env.SIGNED_URL_TTL_SECONDS) || 15 * 60,
+
+  getSigningSecret: (): string => {
+    const secret = process.env.STORAGE_SIGNING_SECRET || process.env.JWT_SECRET;
+    if (!secret) {
+      throw new Error('STORAGE_SIGNING_SECRET or JWT_SECRET environment variable is required');
+    }
+    return secret;
+  }
+};
@@ -0,0 +1,17 @@
+import { Request, Response } from 'express';
+import * as analyticsService from '../services/analyticsService';
+import { workloadQuerySchema } from '../validators/analyticsValidator';
+
+// Get a group's workload split and fairness over a period (?from=&to= or ?weeks=)
+export const getGroupWorkload = async (req: Request, res: Response) => {
+  try {
+    const { groupId } = req.params;
+    const period = workloadQuerySchema.parse(req.query);
+
+    const report = await analyticsService.getGroupWorkload(groupId, period);
+    res.json(report);
+  } catch (error: any) {
+    console.error('Get group workload error:', error);
+    res.status(400).json({ error: error.message || 'Failed to fetch workload analytics' });
+  }
+};
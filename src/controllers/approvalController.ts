@@ -0,0 +1,30 @@
+import { Request, Response } from 'express';
+import * as approvalService from '../services/approvalService';
+import { memberApprovalSchema } from '../validators/approvalValidator';
+
+// Whether a member's completions in a group need approval
+export const getMemberApproval = async (req: Request, res: Response) => {
+  try {
+    const { groupId, memberId } = req.params;
+
+    const approval = await approvalService.getMemberApproval(groupId, memberId);
+    res.json(approval);
+  } catch (error: any) {
+    console.error('Get member approval error:', error);
+    res.status(400).json({ error: error.message || 'Failed to fetch approval setting' });
+  }
+};
+
+// Turn approval of a member's completions on or off (admins only)
+export const updateMemberApproval = async (req: Request, res: Response) => {
+  try {
+    const { groupId, memberId } = req.params;
+    const updates = memberApprovalSchema.parse(req.body);
+
+    const approval = await approvalService.updateMemberApproval(groupId, memberId, updates);
+    res.json(approval);
+  } catch (error: any) {
+    console.error('Update member approval error:', error);
+    res.status(400).json({ error: error.message || 'Failed to update approval setting' });
+  }
+};
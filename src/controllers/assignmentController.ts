@@ -0,0 +1,37 @@
+import { Request, Response } from 'express';
+import * as assignmentService from '../services/assignmentService';
+import { assignmentPreferencesSchema } from '../validators/assignmentValidator';
+
+// Get a member's auto-assignment preferences in a group
+export const getPreferences = async (req: Request, res: Response) => {
+  try {
+    const { groupId, memberId } = req.params;
+    
+    const preferences = await assignmentService.getAssignmentPreferences(groupId, memberId);
+    res.json(preferences);
+  } catch (error: any) {
+    console.error('Get assignment preferences error:', error);
+    res.status(400).json({ error: error.message || 'Failed to fetch assignment preferences' });
+  }
+};
+
+// Update a member's auto-assignment preferences (the member themselves or an admin)
+export const updatePreferences = async (req: Request, res: Response) => {
+  try {
+    const { groupId, memberId } = req.params;
+    const user = (req as any).user;
+
+    if (user.id !== memberId && !user.is_admin) {
+      res.status(403).json({ error: 'Only the member or an admin can change these preferences' });
+      return;
+    }
+
+    const updates = assignmentPreferencesSchema.parse(req.body);
+    
+    const preferences = await assignmentService.updateAssignmentPreferences(groupId, memberId, updates);
+    res.json(preferences);
+  } catch (error: any) {
+    console.error('Update assignment preferences error:', error);
+    res.status(400).json({ error: error.message || 'Failed to update assignment preferences' });
+  }
+};
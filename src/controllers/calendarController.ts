@@ -0,0 +1,60 @@
+import { Request, Response } from 'express';
+import * as calendarService from '../services/calendarService';
+import { createCalendarFeedSchema, calendarFeedQuerySchema } from '../validators/calendarValidator';
+
+// Create an ICS subscription URL for the current member's tasks or a group's tasks
+export const createFeed = async (req: Request, res: Response) => {
+  try {
+    const feedData = createCalendarFeedSchema.parse(req.body ?? {});
+    const userId = (req as any).user.id;
+    
+    const feed = await calendarService.createFeed(userId, feedData);
+    res.status(201).json(feed);
+  } catch (error: any) {
+    console.error('Create calendar feed error:', error);
+    res.status(400).json({ error: error.message || 'Failed to create calendar feed' });
+  }
+};
+
+// List the current member's calendar feeds
+export const getFeeds = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    
+    const feeds = await calendarService.getFeeds(userId);
+    res.json(feeds);
+  } catch (error: any) {
+    console.error('Get calendar feeds error:', error);
+    res.status(400).json({ error: error.message || 'Failed to fetch calendar feeds' });
+  }
+};
+
+// Revoke a calendar feed; its URL stops working immediately
+export const revokeFeed = async (req: Request, res: Response) => {
+  try {
+    const { feedId } = req.params;
+    const userId = (req as any).user.id;
+    
+    await calendarService.revokeFeed(userId, feedId);
+    res.status(204).send();
+  } catch (error: any) {
+    console.error('Revoke calendar feed error:', error);
+    res.status(400).json({ error: error.message || 'Failed to revoke calendar feed' });
+  }
+};
+
+// Serve a feed to a calendar app (no auth header; the token in the URL grants access)
+export const getFeed = async (req: Request, res: Response) => {
+  try {
+    const token = req.params.token.replace(/\.ics$/, '');
+    const { type } = calendarFeedQuerySchema.parse(req.query);
+    
+    const calendar = await calendarService.renderFeed(token, type);
+    res.set('Content-Type', 'text/calendar; charset=utf-8');
+    res.set('Cache-Control', 'private, max-age=300');
+    res.send(calendar);
+  } catch (error: any) {
+    console.error('Get calendar feed error:', error);
+    res.status(404).json({ error: 'Calendar feed not found' });
+  }
+};
@@ -0,0 +1,78 @@
+import { Request, Response } from 'express';
+import * as categoryService from '../services/categoryService';
+import * as approvalService from '../services/approvalService';
+import { createCategorySchema, updateCategorySchema } from '../validators/categoryValidator';
+
+// Group policy set on a category, which only admins change: members could otherwise lift
+// the approval or proof their own completions are held to, weigh their own workload or
+// price their own chores
+const ADMIN_ONLY_FIELDS = ['requires_approval', 'requires_proof', 'weight', 'points'] as const;
+
+const assertCanSetGroupPolicy = async (
+  groupId: string,
+  userId: string,
+  data: Partial<Record<typeof ADMIN_ONLY_FIELDS[number], unknown>>
+) => {
+  const fields = ADMIN_ONLY_FIELDS.filter(field => data[field] !== undefined);
+  if (fields.length > 0 && !(await approvalService.isGroupAdmin(groupId, userId))) {
+    throw new Error(`Only group admins can set ${fields.join(', ')} on a category`);
+  }
+};
+
+// Get the categories of a group
+export const getCategories = async (req: Request, res: Response) => {
+  try {
+    const { groupId } = req.params;
+    
+    const categories = await categoryService.getCategoriesByGroup(groupId);
+    res.json(categories);
+  } catch (error: any) {
+    console.error('Get categories error:', error);
+    res.status(400).json({ error: error.message || 'Failed to fetch categories' });
+  }
+};
+
+// Create a category in a group
+export const createCategory = async (req: Request, res: Response) => {
+  try {
+    const { groupId } = req.params;
+    const data = createCategorySchema.parse(req.body);
+    const userId = (req as any).user.id;
+    await assertCanSetGroupPolicy(groupId, userId, data);
+    
+    const category = await categoryService.createCategory(groupId, data, userId);
+    res.status(201).json(category);
+  } catch (error: any) {
+    console.error('Create category error:', error);
+    res.status(400).json({ error: error.message || 'Failed to create category' });
+  }
+};
+
+// Update a category
+export const updateCategory = async (req: Request, res: Response) => {
+  try {
+    const { groupId, categoryId } = req.params;
+    const updates = updateCategorySchema.parse(req.body);
+    const userId = (req as any).user.id;
+    await assertCanSetGroupPolicy(groupId, userId, updates);
+    
+    const category = await categoryService.updateCategory(groupId, categoryId, updates);
+    res.json(category);
+  } catch (error: any) {
+    console.error('Update category error:', error);
+    res.status(400).json({ error: error.message || 'Failed to update category' });
+  }
+};
+
+// Delete a category (admin only)
+export const deleteCategory = async (req: Request, res: Response) => {
+  try {
+    const { groupId, categoryId } = req.params;
+    
+    await categoryService.deleteCategory(groupId, categoryId);
+    res.status(204).send();
+  } catch (error: any) {
+    console.error('Delete category error:', error);
+    res.status(400).json({ error: error.message || 'Failed to delete category' });
+  }
+};
@@ -0,0 +1,30 @@
+import { Request, Response } from 'express';
+import * as escalationService from '../services/escalationService';
+import { escalationSettingsSchema } from '../validators/escalationValidator';
+
+// Get a group's escalation rules
+export const getSettings = async (req: Request, res: Response) => {
+  try {
+    const { groupId } = req.params;
+
+    const settings = await escalationService.getEscalationSettings(groupId);
+    res.json(settings);
+  } catch (error: any) {
+    console.error('Get escalation settings error:', error);
+    res.status(400).json({ error: error.message || 'Failed to fetch escalation settings' });
+  }
+};
+
+// Update a group's escalation rules (admins only); a rules list replaces the current one
+export const updateSettings = async (req: Request, res: Response) => {
+  try {
+    const { groupId } = req.params;
+    const updates = escalationSettingsSchema.parse(req.body);
+
+    const settings = await escalationService.updateEscalationSettings(groupId, updates);
+    res.json(settings);
+  } catch (error: any) {
+    console.error('Update escalation settings error:', error);
+    res.status(400).json({ error: error.message || 'Failed to update escalation settings' });
+  }
+};
@@ -0,0 +1,51 @@
+import { Request, Response } from 'express';
+import * as pointsService from '../services/pointsService';
+import {
+  leaderboardQuerySchema,
+  pointsAdjustmentSchema,
+  pointsLedgerQuerySchema,
+} from '../validators/pointsValidator';
+
+// Get a group's leaderboard (?window=week|all) with members' streaks
+export const getLeaderboard = async (req: Request, res: Response) => {
+  try {
+    const { groupId } = req.params;
+    const query = leaderboardQuerySchema.parse(req.query);
+
+    const leaderboard = await pointsService.getLeaderboard(groupId, query);
+    res.json(leaderboard);
+  } catch (error: any) {
+    console.error('Get leaderboard error:', error);
+    res.status(400).json({ error: error.message || 'Failed to fetch leaderboard' });
+  }
+};
+
+// Get a group's points ledger, newest first (?member_id= for one member)
+export const getLedger = async (req: Request, res: Response) => {
+  try {
+    const { groupId } = req.params;
+    const query = pointsLedgerQuerySchema.parse(req.query);
+
+    const { entries, total } = await pointsService.getLedger(groupId, query);
+    res.set('X-Total-Count', String(total));
+    res.json(entries);
+  } catch (error: any) {
+    console.error('Get points ledger error:', error);
+    res.status(400).json({ error: error.message || 'Failed to fetch points ledger' });
+  }
+};
+
+// Add or remove points by hand (admins only)
+export const adjustPoints = async (req: Request, res: Response) => {
+  try {
+    const { groupId } = req.params;
+    const adjustment = pointsAdjustmentSchema.parse(req.body);
+    const userId = (req as any).user.id;
+
+    const entry = await pointsService.adjustPoints(groupId, adjustment, userId);
+    res.status(201).json(entry);
+  } catch (error: any) {
+    console.error('Adjust points error:', error);
+    res.status(400).json({ error: error.message || 'Failed to adjust points' });
+  }
+};
@@ -0,0 +1,71 @@
+import { Request, Response } from 'express';
+import * as reminderService from '../services/reminderService';
+import { notificationFiltersSchema, reminderPreferencesSchema } from '../validators/reminderValidator';
+
+// Get the current member's reminder preferences
+export const getPreferences = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+
+    const preferences = await reminderService.getReminderPreferences(userId);
+    res.json(preferences);
+  } catch (error: any) {
+    console.error('Get reminder preferences error:', error);
+    res.status(400).json({ error: error.message || 'Failed to fetch reminder preferences' });
+  }
+};
+
+// Update the current member's reminder preferences
+export const updatePreferences = async (req: Request, res: Response) => {
+  try {
+    const updates = reminderPreferencesSchema.parse(req.body);
+    const userId = (req as any).user.id;
+
+    const preferences = await reminderService.updateReminderPreferences(userId, updates);
+    res.json(preferences);
+  } catch (error: any) {
+    console.error('Update reminder preferences error:', error);
+    res.status(400).json({ error: error.message || 'Failed to update reminder preferences' });
+  }
+};
+
+// List the current member's in-app notifications, newest first
+export const getNotifications = async (req: Request, res: Response) => {
+  try {
+    const filters = notificationFiltersSchema.parse(req.query);
+    const userId = (req as any).user.id;
+
+    const result = await reminderService.getNotifications(userId, filters);
+    res.json(result);
+  } catch (error: any) {
+    console.error('Get notifications error:', error);
+    res.status(400).json({ error: error.message || 'Failed to fetch notifications' });
+  }
+};
+
+// Mark one notification as read
+export const markNotificationRead = async (req: Request, res: Response) => {
+  try {
+    const { notificationId } = req.params;
+    const userId = (req as any).user.id;
+
+    const updated = await reminderService.markNotificationsRead(userId, notificationId);
+    res.json({ updated });
+  } catch (error: any) {
+    console.error('Mark notification read error:', error);
+    res.status(400).json({ error: error.message || 'Failed to update notification' });
+  }
+};
+
+// Mark all of the current member's notifications as read
+export const markAllNotificationsRead = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+
+    const updated = await reminderService.markNotificationsRead(userId);
+    res.json({ updated });
+  } catch (error: any) {
+    console.error('Mark notifications read error:', error);
+    res.status(400).json({ error: error.message || 'Failed to update notifications' });
+  }
+};
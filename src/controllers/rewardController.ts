@@ -0,0 +1,163 @@
+import { Request, Response } from 'express';
+import * as rewardService from '../services/rewardService';
+import {
+  createRewardSchema,
+  updateRewardSchema,
+  rewardFiltersSchema,
+  redemptionNoteSchema,
+  redemptionFiltersSchema,
+} from '../validators/rewardValidator';
+
+// Get a group's reward catalog
+export const getRewards = async (req: Request, res: Response) => {
+  try {
+    const { groupId } = req.params;
+    const filters = rewardFiltersSchema.parse(req.query);
+
+    const rewards = await rewardService.getRewards(groupId, filters);
+    res.json(rewards);
+  } catch (error: any) {
+    console.error('Get rewards error:', error);
+    res.status(400).json({ error: error.message || 'Failed to fetch rewards' });
+  }
+};
+
+// Add a reward to the catalog (admins only)
+export const createReward = async (req: Request, res: Response) => {
+  try {
+    const { groupId } = req.params;
+    const rewardData = createRewardSchema.parse(req.body);
+    const userId = (req as any).user.id;
+
+    const reward = await rewardService.createReward(groupId, rewardData, userId);
+    res.status(201).json(reward);
+  } catch (error: any) {
+    console.error('Create reward error:', error);
+    res.status(400).json({ error: error.message || 'Failed to create reward' });
+  }
+};
+
+// Update a reward (admins only)
+export const updateReward = async (req: Request, res: Response) => {
+  try {
+    const { groupId, rewardId } = req.params;
+    const updates = updateRewardSchema.parse(req.body);
+
+    const reward = await rewardService.updateReward(groupId, rewardId, updates);
+    res.json(reward);
+  } catch (error: any) {
+    console.error('Update reward error:', error);
+    res.status(400).json({ error: error.message || 'Failed to update reward' });
+  }
+};
+
+// Remove a reward from the catalog (admins only); it is archived, not deleted
+export const deleteReward = async (req: Request, res: Response) => {
+  try {
+    const { groupId, rewardId } = req.params;
+
+    await rewardService.archiveReward(groupId, rewardId);
+    res.status(204).send();
+  } catch (error: any) {
+    console.error('Delete reward error:', error);
+    res.status(400).json({ error: error.message || 'Failed to delete reward' });
+  }
+};
+
+// Get a member's points balance (?member_id= for admins; defaults to the current member)
+export const getBalance = async (req: Request, res: Response) => {
+  try {
+    const { groupId } = req.params;
+    const user = (req as any).user;
+    const memberId = typeof req.query.member_id === 'string' ? req.query.member_id : user.id;
+
+    if (memberId !== user.id && !user.is_admin) {
+      throw new Error("Only admins can view other members' balances");
+    }
+
+    const balance = await rewardService.getBalance(groupId, memberId);
+    res.json(balance);
+  } catch (error: any) {
+    console.error('Get points balance error:', error);
+    res.status(400).json({ error: error.message || 'Failed to fetch points balance' });
+  }
+};
+
+// Request a reward for the current member's points
+export const redeemReward = async (req: Request, res: Response) => {
+  try {
+    const { groupId, rewardId } = req.params;
+    const { note } = redemptionNoteSchema.parse(req.body ?? {});
+    const userId = (req as any).user.id;
+
+    const redemption = await rewardService.requestRedemption(groupId, rewardId, userId, note);
+    res.status(201).json(redemption);
+  } catch (error: any) {
+    console.error('Redeem reward error:', error);
+    res.status(400).json({ error: error.message || 'Failed to request reward' });
+  }
+};
+
+// List redemptions; members only see their own
+export const getRedemptions = async (req: Request, res: Response) => {
+  try {
+    const { groupId } = req.params;
+    const filters = redemptionFiltersSchema.parse(req.query);
+    const user = (req as any).user;
+
+    if (!user.is_admin) {
+      filters.member_id = user.id;
+    }
+
+    const { redemptions, total } = await rewardService.getRedemptions(groupId, filters);
+    res.set('X-Total-Count', String(total));
+    res.json(redemptions);
+  } catch (error: any) {
+    console.error('Get redemptions error:', error);
+    res.status(400).json({ error: error.message || 'Failed to fetch redemptions' });
+  }
+};
+
+// Approve a redemption and spend the points (admins only)
+export const approveRedemption = async (req: Request, res: Response) => {
+  try {
+    const { groupId, redemptionId } = req.params;
+    const { note } = redemptionNoteSchema.parse(req.body ?? {});
+    const userId = (req as any).user.id;
+
+    const redemption = await rewardService.approveRedemption(groupId, redemptionId, userId, note);
+    res.json(redemption);
+  } catch (error: any) {
+    console.error('Approve redemption error:', error);
+    res.status(400).json({ error: error.message || 'Failed to approve redemption' });
+  }
+};
+
+// Reject a redemption (admins only)
+export const rejectRedemption = async (req: Request, res: Response) => {
+  try {
+    const { groupId, redemptionId } = req.params;
+    const { note } = redemptionNoteSchema.parse(req.body ?? {});
+    const userId = (req as any).user.id;
+
+    const redemption = await rewardService.rejectRedemption(groupId, redemptionId, userId, note);
+    res.json(redemption);
+  } catch (error: any) {
+    console.error('Reject redemption error:', error);
+    res.status(400).json({ error: error.message || 'Failed to reject redemption' });
+  }
+};
+
+// Withdraw the current member's pending request
+export const cancelRedemption = async (req: Request, res: Response) => {
+  try {
+    const { groupId, redemptionId } = req.params;
+    const userId = (req as any).user.id;
+
+    const redemption = await rewardService.cancelRedemption(groupId, redemptionId, userId);
+    res.json(redemption);
+  } catch (error: any) {
+    console.error('Cancel redemption error:', error);
+    res.status(400).json({ error: error.message || 'Failed to cancel redemption' });
+  }
+};
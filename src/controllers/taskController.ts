@@ -5,8 +5,55 @@ import {
   updateTaskSchema, 
   taskFiltersSchema,
   assignTaskSchema,
-  bulkTaskUpdateSchema
+  bulkTaskUpdateSchema,
+  bulkCreateTasksSchema,
+  bulkDeleteTasksSchema,
+  importTasksSchema,
+  externalImportSchema,
+  ImportSource,
+  MAX_IMPORT_ROWS,
+  recurrenceScopeSchema,
+  createSubtaskSchema,
+  reorderSubtasksSchema,
+  deleteTaskOptionsSchema,
+  tagSuggestionsSchema,
+  searchTasksSchema,
+  ignoreBlockersSchema,
+  addDependencySchema,
+  revisionHistorySchema
 } from '../validators/taskValidator';
+import * as recurrenceService from '../services/recurrenceService';
+import * as subtaskService from '../services/subtaskService';
+import * as commentService from '../services/commentService';
+import * as attachmentService from '../services/attachmentService';
+import * as tagService from '../services/tagService';
+import * as searchService from '../services/searchService';
+import * as assignmentService from '../services/assignmentService';
+import { distributeTasksSchema } from '../validators/assignmentValidator';
+import * as timeTrackingService from '../services/timeTrackingService';
+import * as dependencyService from '../services/dependencyService';
+import * as revisionService from '../services/revisionService';
+import * as importService from '../services/importService';
+import { readImportRows } from '../utils/taskImport';
+import { manualTimeEntrySchema } from '../validators/timeTrackingValidator';
+import {
+  approveCompletionSchema,
+  rejectCompletionSchema,
+  pendingApprovalsSchema
+} from '../validators/approvalValidator';
+import { getStorageDriver, LocalStorageDriver } from '../services/storage';
+import { toETag, parseIfMatch } from '../utils/etag';
+import {
+  createCommentSchema,
+  updateCommentSchema,
+  activityFiltersSchema
+} from '../validators/commentValidator';
+
+// A write sent with a stale If-Match: 412 with the current copy and its ETag
+const sendConflict = (res: Response, error: taskService.TaskConflictError) => {
+  res.set('ETag', toETag(error.current.version));
+  res.status(412).json({ error: error.message, current: error.current });
+};
 
 // Create a new task
 export const createTask = async (req: Request, res: Response) => {
@@ -28,14 +75,28 @@ export const getGroupTasks = async (req: Request, res: Response) => {
     const { groupId } = req.params;
     const filters = taskFiltersSchema.parse(req.query);
     
-    const tasks = await taskService.getTasksByGroup(groupId, filters);
-    res.json(tasks);
+    const page = await taskService.getTasksByGroup(groupId, filters);
+    res.json(page);
   } catch (error: any) {
     console.error('Get group tasks error:', error);
     res.status(400).json({ error: error.message || 'Failed to fetch tasks' });
   }
 };
 
+// Full-text search across the caller's groups
+export const searchTasks = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const params = searchTasksSchema.parse(req.query);
+    
+    const page = await searchService.searchTasks(userId, params);
+    res.json(page);
+  } catch (error: any) {
+    console.error('Search tasks error:', error);
+    res.status(400).json({ error: error.message || 'Failed to search tasks' });
+  }
+};
+
 // Get tasks assigned to the current user
 export const getMyTasks = async (req: Request, res: Response) => {
   try {
@@ -43,12 +104,12 @@ export const getMyTasks = async (req: Request, res: Response) => {
     const { groupId } = req.query;
     const filters = taskFiltersSchema.parse(req.query);
     
-    const tasks = await taskService.getTasksByAssignee(
+    const page = await taskService.getTasksByAssignee(
       userId, 
       groupId as string, 
       filters
     );
-    res.json(tasks);
+    res.json(page);
   } catch (error: any) {
     console.error('Get my tasks error:', error);
     res.status(400).json({ error: error.message || 'Failed to fetch user tasks' });
@@ -62,12 +123,12 @@ export const getUserTasks = async (req: Request, res: Response) => {
     const { groupId } = req.query;
     const filters = taskFiltersSchema.parse(req.query);
     
-    const tasks = await taskService.getTasksByAssignee(
+    const page = await taskService.getTasksByAssignee(
       userId, 
       groupId as string, 
       filters
     );
-    res.json(tasks);
+    res.json(page);
   } catch (error: any) {
     console.error('Get user tasks error:', error);
     res.status(400).json({ error: error.message || 'Failed to fetch user tasks' });
@@ -84,6 +145,7 @@ export const getTask = async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'Task not found' });
     }
     
+    res.set('ETag', toETag(task.version));
     res.json(task);
   } catch (error: any) {
     console.error('Get task error:', error);
@@ -96,11 +158,19 @@ export const updateTask = async (req: Request, res: Response) => {
   try {
     const { taskId } = req.params;
     const updates = updateTaskSchema.parse(req.body);
+    const scope = recurrenceScopeSchema.parse(req.query.scope);
+    const ignoreBlockers = ignoreBlockersSchema.parse(req.query.ignore_blockers);
     const userId = (req as any).user.id;
     
-    const task = await taskService.updateTask(taskId, updates, userId);
+    const ifMatch = parseIfMatch(req.get('If-Match'));
+    
+    const task = await taskService.updateTask(taskId, updates, userId, scope, ignoreBlockers, ifMatch);
+    res.set('ETag', toETag(task.version));
     res.json(task);
   } catch (error: any) {
+    if (error instanceof taskService.TaskConflictError) {
+      return sendConflict(res, error);
+    }
     console.error('Update task error:', error);
     res.status(400).json({ error: error.message || 'Failed to update task' });
   }
@@ -113,9 +183,15 @@ export const assignTask = async (req: Request, res: Response) => {
     const assignData = assignTaskSchema.parse(req.body);
     const userId = (req as any).user.id;
     
-    const task = await taskService.assignTask(taskId, assignData, userId);
+    const ifMatch = parseIfMatch(req.get('If-Match'));
+    
+    const task = await taskService.assignTask(taskId, assignData, userId, ifMatch);
+    res.set('ETag', toETag(task.version));
     res.json(task);
   } catch (error: any) {
+    if (error instanceof taskService.TaskConflictError) {
+      return sendConflict(res, error);
+    }
     console.error('Assign task error:', error);
     res.status(400).json({ error: error.message || 'Failed to assign task' });
   }
@@ -125,11 +201,17 @@ export const assignTask = async (req: Request, res: Response) => {
 export const deleteTask = async (req: Request, res: Response) => {
   try {
     const { taskId } = req.params;
+    const { subtasks } = deleteTaskOptionsSchema.parse(req.query);
     const userId = (req as any).user.id;
     
-    await taskService.deleteTask(taskId, userId);
+    const ifMatch = parseIfMatch(req.get('If-Match'));
+    
+    await taskService.deleteTask(taskId, userId, subtasks, ifMatch);
     res.status(204).send();
   } catch (error: any) {
+    if (error instanceof taskService.TaskConflictError) {
+      return sendConflict(res, error);
+    }
     console.error('Delete task error:', error);
     res.status(400).json({ error: error.message || 'Failed to delete task' });
   }
@@ -141,7 +223,8 @@ export const bulkUpdateTasks = async (req: Request, res: Response) => {
     const updateData = bulkTaskUpdateSchema.parse(req.body);
     const userId = (req as any).user.id;
     
-    const tasks = await taskService.bulkUpdateTasks(updateData, userId);
+    const { tasks, batch_id } = await taskService.bulkUpdateTasks(updateData, userId);
+    res.set('X-Batch-Id', batch_id);
     res.json(tasks);
   } catch (error: any) {
     console.error('Bulk update tasks error:', error);
@@ -149,6 +232,105 @@ export const bulkUpdateTasks = async (req: Request, res: Response) => {
   }
 };
 
+// Create several tasks at once; nothing is created unless every task is valid
+export const bulkCreateTasks = async (req: Request, res: Response) => {
+  try {
+    const data = bulkCreateTasksSchema.parse(req.body);
+    const userId = (req as any).user.id;
+    
+    const tasks = await taskService.bulkCreateTasks(data, userId);
+    res.status(201).json(tasks);
+  } catch (error: any) {
+    console.error('Bulk create tasks error:', error);
+    res.status(400).json({ error: error.message || 'Failed to bulk create tasks' });
+  }
+};
+
+// Delete several tasks at once (subtasks: cascade|promote)
+export const bulkDeleteTasks = async (req: Request, res: Response) => {
+  try {
+    const data = bulkDeleteTasksSchema.parse(req.body);
+    const userId = (req as any).user.id;
+    
+    const deleted = await taskService.bulkDeleteTasks(data, userId);
+    res.json({ deleted });
+  } catch (error: any) {
+    console.error('Bulk delete tasks error:', error);
+    res.status(400).json({ error: error.message || 'Failed to bulk delete tasks' });
+  }
+};
+
+// Import tasks from an uploaded .csv/.json file or from `data` in the body (?dry_run=true validates only)
+export const importTasks = async (req: Request, res: Response) => {
+  try {
+    const options = importTasksSchema.parse({ ...req.body, ...req.query });
+    const user = (req as any).user;
+    const userId = user.id;
+    
+    // The group comes from the body, out of groupGuard's reach; assignee emails resolve against it
+    if (user.group_id !== options.group_id) {
+      res.status(403).json({ error: 'Access denied: not part of group' });
+      return;
+    }
+    
+    const content = req.file ? req.file.buffer.toString('utf8') : options.data;
+    if (content === undefined) {
+      throw new Error('Upload a CSV or JSON file, or send the rows as data');
+    }
+    
+    const isJsonFile = req.file && (req.file.mimetype === 'application/json' || /\.json$/i.test(req.file.originalname));
+    const format = options.format ?? (isJsonFile || Array.isArray(content) ? 'json' : 'csv');
+    const rows = readImportRows(content, format, MAX_IMPORT_ROWS);
+    
+    const report = await importService.importTasks(options.group_id, rows, options.dry_run, userId);
+    res.status(options.dry_run ? 200 : 201).json(report);
+  } catch (error: any) {
+    console.error('Import tasks error:', error);
+    res.status(400).json({ error: error.message || 'Failed to import tasks' });
+  }
+};
+
+// Import a Todoist, Trello or Microsoft To Do export (?dry_run=true previews without creating)
+export const importExternalTasks = async (req: Request, res: Response) => {
+  try {
+    const source = ImportSource.parse(req.params.source);
+    const options = externalImportSchema.parse({ ...req.body, ...req.query });
+    const user = (req as any).user;
+    const userId = user.id;
+    
+    // Only for members of the group: a preview would tell which emails belong to it
+    if (user.group_id !== options.group_id) {
+      res.status(403).json({ error: 'Access denied: not part of group' });
+      return;
+    }
+    
+    const content = req.file ? req.file.buffer.toString('utf8') : options.data;
+    if (content === undefined) {
+      throw new Error('Upload the export file, or send its content as data');
+    }
+    
+    const report = await importService.importExternalTasks(options.group_id, source, content, options.dry_run, userId);
+    res.status(options.dry_run ? 200 : 201).json(report);
+  } catch (error: any) {
+    console.error('Import external tasks error:', error);
+    res.status(400).json({ error: error.message || 'Failed to import tasks' });
+  }
+};
+
+// Spread tasks across the group's members with the fair-share engine
+export const distributeTasks = async (req: Request, res: Response) => {
+  try {
+    const data = distributeTasksSchema.parse(req.body);
+    const userId = (req as any).user.id;
+    
+    const result = await assignmentService.distributeTasks(data, userId);
+    res.json(result);
+  } catch (error: any) {
+    console.error('Distribute tasks error:', error);
+    res.status(400).json({ error: error.message || 'Failed to distribute tasks' });
+  }
+};
+
 // Get task statistics for a group
 export const getTaskStats = async (req: Request, res: Response) => {
   try {
@@ -162,23 +344,449 @@ export const getTaskStats = async (req: Request, res: Response) => {
   }
 };
 
-// Complete a task (shortcut for updating status to completed)
+// Get the tags used in a group with usage counts (?q= filters by prefix)
+export const getGroupTags = async (req: Request, res: Response) => {
+  try {
+    const { groupId } = req.params;
+    const options = tagSuggestionsSchema.parse(req.query);
+    
+    const tags = await tagService.getTagUsage(groupId, options);
+    res.json(tags);
+  } catch (error: any) {
+    console.error('Get group tags error:', error);
+    res.status(400).json({ error: error.message || 'Failed to fetch tags' });
+  }
+};
+
+// Complete a task (shortcut for updating status to completed); a photo proof goes in `proof`
 export const completeTask = async (req: Request, res: Response) => {
   try {
     const { taskId } = req.params;
+    const ignoreBlockers = ignoreBlockersSchema.parse(req.query.ignore_blockers);
     const userId = (req as any).user.id;
+    const ifMatch = parseIfMatch(req.get('If-Match'));
     
-    const task = await taskService.updateTask(
-      taskId, 
-      { 
-        status: 'completed',
-        completed_at: new Date().toISOString()
-      }, 
-      userId
-    );
+    const task = await taskService.completeTask(taskId, userId, req.file, ignoreBlockers, ifMatch);
+    res.set('ETag', toETag(task.version));
     res.json(task);
   } catch (error: any) {
+    if (error instanceof taskService.TaskConflictError) {
+      return sendConflict(res, error);
+    }
     console.error('Complete task error:', error);
     res.status(400).json({ error: error.message || 'Failed to complete task' });
   }
-};
\ No newline at end of file
+};
+
+// Approve a completion that is awaiting approval
+export const approveCompletion = async (req: Request, res: Response) => {
+  try {
+    const { taskId } = req.params;
+    const data = approveCompletionSchema.parse(req.body ?? {});
+    const userId = (req as any).user.id;
+    
+    const task = await taskService.approveCompletion(taskId, userId, data);
+    res.set('ETag', toETag(task.version));
+    res.json(task);
+  } catch (error: any) {
+    console.error('Approve completion error:', error);
+    res.status(400).json({ error: error.message || 'Failed to approve completion' });
+  }
+};
+
+// Send a completion back to the member with a comment
+export const rejectCompletion = async (req: Request, res: Response) => {
+  try {
+    const { taskId } = req.params;
+    const data = rejectCompletionSchema.parse(req.body);
+    const userId = (req as any).user.id;
+    
+    const task = await taskService.rejectCompletion(taskId, userId, data);
+    res.set('ETag', toETag(task.version));
+    res.json(task);
+  } catch (error: any) {
+    console.error('Reject completion error:', error);
+    res.status(400).json({ error: error.message || 'Failed to reject completion' });
+  }
+};
+
+// Completions waiting for the current user's approval
+export const getPendingApprovals = async (req: Request, res: Response) => {
+  try {
+    const filters = pendingApprovalsSchema.parse(req.query);
+    const userId = (req as any).user.id;
+    
+    const { tasks, total } = await taskService.getPendingApprovals(userId, filters);
+    res.set('X-Total-Count', String(total));
+    res.json(tasks);
+  } catch (error: any) {
+    console.error('Get pending approvals error:', error);
+    res.status(400).json({ error: error.message || 'Failed to fetch pending approvals' });
+  }
+};
+
+// Skip one occurrence of a recurring task and schedule the next
+export const skipOccurrence = async (req: Request, res: Response) => {
+  try {
+    const { taskId } = req.params;
+    const userId = (req as any).user.id;
+    
+    const result = await recurrenceService.skipOccurrence(taskId, userId);
+    res.json(result);
+  } catch (error: any) {
+    console.error('Skip occurrence error:', error);
+    res.status(400).json({ error: error.message || 'Failed to skip occurrence' });
+  }
+};
+
+// Create a subtask under a task
+export const createSubtask = async (req: Request, res: Response) => {
+  try {
+    const { taskId } = req.params;
+    const data = createSubtaskSchema.parse(req.body);
+    const userId = (req as any).user.id;
+    
+    const subtask = await taskService.createSubtask(taskId, data, userId);
+    res.status(201).json(subtask);
+  } catch (error: any) {
+    console.error('Create subtask error:', error);
+    res.status(400).json({ error: error.message || 'Failed to create subtask' });
+  }
+};
+
+// List the direct subtasks of a task with completion progress
+export const getSubtasks = async (req: Request, res: Response) => {
+  try {
+    const { taskId } = req.params;
+    
+    const subtasks = await subtaskService.getSubtasks(taskId);
+    res.json({ subtasks, progress: subtaskService.computeProgress(subtasks) });
+  } catch (error: any) {
+    console.error('Get subtasks error:', error);
+    res.status(400).json({ error: error.message || 'Failed to fetch subtasks' });
+  }
+};
+
+// Reorder the subtasks of a task
+export const reorderSubtasks = async (req: Request, res: Response) => {
+  try {
+    const { taskId } = req.params;
+    const { subtaskIds } = reorderSubtasksSchema.parse(req.body);
+    
+    const subtasks = await subtaskService.reorderSubtasks(taskId, subtaskIds);
+    res.json({ subtasks, progress: subtaskService.computeProgress(subtasks) });
+  } catch (error: any) {
+    console.error('Reorder subtasks error:', error);
+    res.status(400).json({ error: error.message || 'Failed to reorder subtasks' });
+  }
+};
+
+// Get the activity thread of a task (comments and system entries, oldest first)
+export const getTaskActivity = async (req: Request, res: Response) => {
+  try {
+    const { taskId } = req.params;
+    const filters = activityFiltersSchema.parse(req.query);
+    
+    const { entries, total } = await commentService.getTaskActivity(taskId, filters);
+    res.set('X-Total-Count', String(total));
+    res.json(entries);
+  } catch (error: any) {
+    console.error('Get task activity error:', error);
+    res.status(400).json({ error: error.message || 'Failed to fetch task activity' });
+  }
+};
+
+// Add a comment to a task
+export const createComment = async (req: Request, res: Response) => {
+  try {
+    const { taskId } = req.params;
+    const data = createCommentSchema.parse(req.body);
+    const userId = (req as any).user.id;
+    
+    const comment = await commentService.createComment(taskId, data, userId);
+    res.status(201).json(comment);
+  } catch (error: any) {
+    console.error('Create comment error:', error);
+    res.status(400).json({ error: error.message || 'Failed to create comment' });
+  }
+};
+
+// Edit a comment (author only)
+export const updateComment = async (req: Request, res: Response) => {
+  try {
+    const { taskId, commentId } = req.params;
+    const updates = updateCommentSchema.parse(req.body);
+    const userId = (req as any).user.id;
+    
+    const comment = await commentService.updateComment(taskId, commentId, updates, userId);
+    res.json(comment);
+  } catch (error: any) {
+    console.error('Update comment error:', error);
+    res.status(400).json({ error: error.message || 'Failed to update comment' });
+  }
+};
+
+// Delete a comment (author only)
+export const deleteComment = async (req: Request, res: Response) => {
+  try {
+    const { taskId, commentId } = req.params;
+    const userId = (req as any).user.id;
+    
+    await commentService.deleteComment(taskId, commentId, userId);
+    res.status(204).send();
+  } catch (error: any) {
+    console.error('Delete comment error:', error);
+    res.status(400).json({ error: error.message || 'Failed to delete comment' });
+  }
+};
+
+// Upload an attachment to a task (multipart field "file")
+export const uploadAttachment = async (req: Request, res: Response) => {
+  try {
+    const { taskId } = req.params;
+    const userId = (req as any).user.id;
+    
+    const attachment = await attachmentService.uploadAttachment(taskId, req.file, userId);
+    res.status(201).json(attachment);
+  } catch (error: any) {
+    console.error('Upload attachment error:', error);
+    res.status(400).json({ error: error.message || 'Failed to upload attachment' });
+  }
+};
+
+// List the attachments of a task
+export const getAttachments = async (req: Request, res: Response) => {
+  try {
+    const { taskId } = req.params;
+    
+    const attachments = await attachmentService.getAttachments(taskId);
+    res.json(attachments);
+  } catch (error: any) {
+    console.error('Get attachments error:', error);
+    res.status(400).json({ error: error.message || 'Failed to fetch attachments' });
+  }
+};
+
+// Get a single attachment with a fresh download URL
+export const getAttachment = async (req: Request, res: Response) => {
+  try {
+    const { taskId, attachmentId } = req.params;
+    
+    const attachment = await attachmentService.getAttachment(taskId, attachmentId);
+    if (!attachment) {
+      res.status(404).json({ error: 'Attachment not found' });
+      return;
+    }
+    
+    res.json(attachment);
+  } catch (error: any) {
+    console.error('Get attachment error:', error);
+    res.status(400).json({ error: error.message || 'Failed to fetch attachment' });
+  }
+};
+
+// Delete an attachment (uploader only)
+export const deleteAttachment = async (req: Request, res: Response) => {
+  try {
+    const { taskId, attachmentId } = req.params;
+    const userId = (req as any).user.id;
+    
+    await attachmentService.deleteAttachment(taskId, attachmentId, userId);
+    res.status(204).send();
+  } catch (error: any) {
+    console.error('Delete attachment error:', error);
+    res.status(400).json({ error: error.message || 'Failed to delete attachment' });
+  }
+};
+
+// Serve a file from the local storage driver through a signed download URL
+export const downloadAttachment = async (req: Request, res: Response) => {
+  try {
+    const driver = getStorageDriver();
+    if (!(driver instanceof LocalStorageDriver)) {
+      res.status(404).json({ error: 'Not found' });
+      return;
+    }
+
+    const { key, expires, signature } = req.query;
+    const filePath = driver.verifySignedUrl(String(key || ''), Number(expires), String(signature || ''));
+    
+    res.sendFile(filePath);
+  } catch (error: any) {
+    console.error('Download attachment error:', error);
+    res.status(403).json({ error: error.message || 'Invalid download link' });
+  }
+};
+
+// Start or resume the current member's timer on a task
+export const startTimer = async (req: Request, res: Response) => {
+  try {
+    const { taskId } = req.params;
+    const userId = (req as any).user.id;
+    
+    const entry = await timeTrackingService.startTimer(taskId, userId);
+    res.status(201).json(entry);
+  } catch (error: any) {
+    console.error('Start timer error:', error);
+    res.status(400).json({ error: error.message || 'Failed to start timer' });
+  }
+};
+
+// Pause the current member's running timer on a task
+export const pauseTimer = async (req: Request, res: Response) => {
+  try {
+    const { taskId } = req.params;
+    const userId = (req as any).user.id;
+    
+    const entry = await timeTrackingService.pauseTimer(taskId, userId);
+    res.json(entry);
+  } catch (error: any) {
+    console.error('Pause timer error:', error);
+    res.status(400).json({ error: error.message || 'Failed to pause timer' });
+  }
+};
+
+// Stop the current member's timer on a task
+export const stopTimer = async (req: Request, res: Response) => {
+  try {
+    const { taskId } = req.params;
+    const userId = (req as any).user.id;
+    
+    const entry = await timeTrackingService.stopTimer(taskId, userId);
+    res.json(entry);
+  } catch (error: any) {
+    console.error('Stop timer error:', error);
+    res.status(400).json({ error: error.message || 'Failed to stop timer' });
+  }
+};
+
+// Get the time entries of a task with the tracked total
+export const getTimeEntries = async (req: Request, res: Response) => {
+  try {
+    const { taskId } = req.params;
+    
+    const summary = await timeTrackingService.getTimeEntries(taskId);
+    res.json(summary);
+  } catch (error: any) {
+    console.error('Get time entries error:', error);
+    res.status(400).json({ error: error.message || 'Failed to fetch time entries' });
+  }
+};
+
+// Log time worked on a task without a timer
+export const addTimeEntry = async (req: Request, res: Response) => {
+  try {
+    const { taskId } = req.params;
+    const data = manualTimeEntrySchema.parse(req.body);
+    const userId = (req as any).user.id;
+    
+    const entry = await timeTrackingService.addManualEntry(taskId, userId, data);
+    res.status(201).json(entry);
+  } catch (error: any) {
+    console.error('Add time entry error:', error);
+    res.status(400).json({ error: error.message || 'Failed to add time entry' });
+  }
+};
+
+// Delete one of the current member's time entries
+export const deleteTimeEntry = async (req: Request, res: Response) => {
+  try {
+    const { taskId, entryId } = req.params;
+    const userId = (req as any).user.id;
+    
+    await timeTrackingService.deleteTimeEntry(entryId, taskId, userId);
+    res.status(204).send();
+  } catch (error: any) {
+    console.error('Delete time entry error:', error);
+    res.status(400).json({ error: error.message || 'Failed to delete time entry' });
+  }
+};
+
+// Get the tasks a task is blocked by and the tasks it is blocking
+export const getDependencies = async (req: Request, res: Response) => {
+  try {
+    const { taskId } = req.params;
+    
+    const dependencies = await dependencyService.getDependencies(taskId);
+    res.json(dependencies);
+  } catch (error: any) {
+    console.error('Get dependencies error:', error);
+    res.status(400).json({ error: error.message || 'Failed to fetch dependencies' });
+  }
+};
+
+// Mark a task as blocked by another task of the same group
+export const addDependency = async (req: Request, res: Response) => {
+  try {
+    const { taskId } = req.params;
+    const data = addDependencySchema.parse(req.body);
+    const userId = (req as any).user.id;
+    
+    const dependencies = await dependencyService.addDependency(taskId, data.blocked_by_task_id, userId);
+    res.status(201).json(dependencies);
+  } catch (error: any) {
+    console.error('Add dependency error:', error);
+    res.status(400).json({ error: error.message || 'Failed to add dependency' });
+  }
+};
+
+// Remove a blocked-by dependency
+export const removeDependency = async (req: Request, res: Response) => {
+  try {
+    const { taskId, blockedById } = req.params;
+    
+    const dependencies = await dependencyService.removeDependency(taskId, blockedById);
+    res.json(dependencies);
+  } catch (error: any) {
+    console.error('Remove dependency error:', error);
+    res.status(400).json({ error: error.message || 'Failed to remove dependency' });
+  }
+};
+
+// Get the change history of a task, newest first
+export const getRevisions = async (req: Request, res: Response) => {
+  try {
+    const { taskId } = req.params;
+    const options = revisionHistorySchema.parse(req.query);
+    
+    const history = await revisionService.getRevisions(taskId, options);
+    res.json(history);
+  } catch (error: any) {
+    console.error('Get revisions error:', error);
+    res.status(400).json({ error: error.message || 'Failed to fetch task history' });
+  }
+};
+
+// Undo one change to a task
+export const revertRevision = async (req: Request, res: Response) => {
+  try {
+    const { taskId, revisionId } = req.params;
+    const userId = (req as any).user.id;
+    
+    const task = await revisionService.revertRevision(taskId, revisionId, userId);
+    res.json(task);
+  } catch (error: any) {
+    if (error instanceof taskService.TaskConflictError) {
+      return sendConflict(res, error);
+    }
+    console.error('Revert revision error:', error);
+    res.status(400).json({ error: error.message || 'Failed to undo change' });
+  }
+};
+
+// Undo every change of a bulk update
+export const revertBatch = async (req: Request, res: Response) => {
+  try {
+    const { batchId } = req.params;
+    const userId = (req as any).user.id;
+    
+    const result = await revisionService.revertBatch(batchId, userId);
+    res.json(result);
+  } catch (error: any) {
+    if (error instanceof taskService.TaskConflictError) {
+      return sendConflict(res, error);
+    }
+    console.error('Revert batch error:', error);
+    res.status(400).json({ error: error.message || 'Failed to undo bulk update' });
+  }
+};
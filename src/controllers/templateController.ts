@@ -0,0 +1,90 @@
+import { Request, Response } from 'express';
+import * as templateService from '../services/templateService';
+import {
+  createTemplateSchema,
+  updateTemplateSchema,
+  instantiateTemplateSchema
+} from '../validators/templateValidator';
+
+// Get the task templates of a group
+export const getTemplates = async (req: Request, res: Response) => {
+  try {
+    const { groupId } = req.params;
+    
+    const templates = await templateService.getTemplatesByGroup(groupId);
+    res.json(templates);
+  } catch (error: any) {
+    console.error('Get templates error:', error);
+    res.status(400).json({ error: error.message || 'Failed to fetch templates' });
+  }
+};
+
+// Get a single template
+export const getTemplate = async (req: Request, res: Response) => {
+  try {
+    const { groupId, templateId } = req.params;
+    
+    const template = await templateService.getTemplate(groupId, templateId);
+    res.json(template);
+  } catch (error: any) {
+    console.error('Get template error:', error);
+    res.status(404).json({ error: error.message || 'Template not found' });
+  }
+};
+
+// Create a template in a group
+export const createTemplate = async (req: Request, res: Response) => {
+  try {
+    const { groupId } = req.params;
+    const data = createTemplateSchema.parse(req.body);
+    const userId = (req as any).user.id;
+    
+    const template = await templateService.createTemplate(groupId, data, userId);
+    res.status(201).json(template);
+  } catch (error: any) {
+    console.error('Create template error:', error);
+    res.status(400).json({ error: error.message || 'Failed to create template' });
+  }
+};
+
+// Update a template
+export const updateTemplate = async (req: Request, res: Response) => {
+  try {
+    const { groupId, templateId } = req.params;
+    const updates = updateTemplateSchema.parse(req.body);
+    
+    const template = await templateService.updateTemplate(groupId, templateId, updates);
+    res.json(template);
+  } catch (error: any) {
+    console.error('Update template error:', error);
+    res.status(400).json({ error: error.message || 'Failed to update template' });
+  }
+};
+
+// Delete a template
+export const deleteTemplate = async (req: Request, res: Response) => {
+  try {
+    const { groupId, templateId } = req.params;
+    
+    await templateService.deleteTemplate(groupId, templateId);
+    res.status(204).send();
+  } catch (error: any) {
+    console.error('Delete template error:', error);
+    res.status(400).json({ error: error.message || 'Failed to delete template' });
+  }
+};
+
+// Create the template's task and subtasks
+export const instantiateTemplate = async (req: Request, res: Response) => {
+  try {
+    const { groupId, templateId } = req.params;
+    const options = instantiateTemplateSchema.parse(req.body);
+    const userId = (req as any).user.id;
+    
+    const result = await templateService.instantiateTemplate(groupId, templateId, options, userId);
+    res.status(201).json(result);
+  } catch (error: any) {
+    console.error('Instantiate template error:', error);
+    res.status(400).json({ error: error.message || 'Failed to instantiate template' });
+  }
+};
@@ -2,6 +2,8 @@
 import express from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
+import { startReminderScheduler } from './services/reminderService';
+import { startEscalationScheduler } from './services/escalationService';
 
 dotenv.config();
 
@@ -12,7 +14,8 @@ app.use(cors({
   origin: process.env.CORS_ORIGIN || ['http://localhost:3000', 'http://localhost:8081'],
   credentials: true,
   methods: ['GET', 'POST', 'PATCH', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With']
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'If-Match'],
+  exposedHeaders: ['ETag', 'X-Batch-Id']
 }));
 
 app.use(express.json());
@@ -169,9 +172,11 @@ app.get('/api/auth/verify', (req, res) => {
 // try {
 //   const memberRoutes = require('./routes/memberRoutes').default;
 //   const taskRoutes = require('./routes/taskRoutes').default;
+//   const groupRoutes = require('./routes/groupRoutes').default;
 //   
 //   app.use('/api/members', memberRoutes);
 //   app.use('/api/tasks', taskRoutes);
+//   app.use('/api/groups', groupRoutes);
 // } catch (error) {
 //   console.error('Error loading routes:', error);
 // }
@@ -182,6 +187,14 @@ app.get('/', (_req, res) => {
   res.send('EquiTaskly Api is running 🚀');
 });
 
+// Due-date reminders and overdue escalations (opt-in, so only one instance runs them)
+if (process.env.REMINDERS_ENABLED === 'true') {
+  startReminderScheduler();
+}
+if (process.env.ESCALATIONS_ENABLED === 'true') {
+  startEscalationScheduler();
+}
+
 const PORT = Number(process.env.PORT) || 4000;
 app.listen(PORT, '0.0.0.0', () => {
   console.log(`🚀 Server running on http://0.0.0.0:${PORT}`);
@@ -6,7 +6,8 @@ export const groupGuard = async (req: Request, res: Response, next: NextFunction
   const groupId = req.params.groupId || req.body.groupId;
 
   if (!groupId || user.group_id !== groupId) {
-    return res.status(403).json({ error: 'Access denied: not part of group' });
+    res.status(403).json({ error: 'Access denied: not part of group' });
+    return;
   }
 
   next();
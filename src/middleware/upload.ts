@@ -0,0 +1,31 @@
+// File upload middleware (multipart/form-data)
+import { RequestHandler } from 'express';
+import multer from 'multer';
+import { validationConfig } from '../config/security';
+
+// Files are kept in memory so their content can be checked before anything is stored
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: validationConfig.maxFileSize,
+    files: 1,
+  },
+});
+
+/**
+ * Accept a single file in `fieldName` and report upload errors as 400s
+ */
+export const singleFileUpload = (fieldName: string): RequestHandler => (req, res, next) => {
+  upload.single(fieldName)(req, res, (error: any) => {
+    if (!error) {
+      next();
+      return;
+    }
+
+    const message = error instanceof multer.MulterError && error.code === 'LIMIT_FILE_SIZE'
+      ? `File must be smaller than ${Math.round(validationConfig.maxFileSize / (1024 * 1024))}MB`
+      : error.message || 'File upload failed';
+
+    res.status(400).json({ error: message });
+  });
+};
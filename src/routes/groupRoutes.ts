@@ -0,0 +1,60 @@
+import express from 'express';
+import * as categoryController from '../controllers/categoryController';
+import * as assignmentController from '../controllers/assignmentController';
+import * as templateController from '../controllers/templateController';
+import * as escalationController from '../controllers/escalationController';
+import * as pointsController from '../controllers/pointsController';
+import * as rewardController from '../controllers/rewardController';
+import * as approvalController from '../controllers/approvalController';
+import { requireAuth, requireAdmin } from '../middleware/auth';
+import { groupGuard } from '../middleware/groupGuard';
+
+const router = express.Router();
+
+// All group routes require authentication and membership of the group
+router.use(requireAuth);
+
+// Task categories
+router.get('/:groupId/categories', groupGuard, categoryController.getCategories);
+router.post('/:groupId/categories', groupGuard, categoryController.createCategory);
+router.patch('/:groupId/categories/:categoryId', groupGuard, categoryController.updateCategory);
+router.delete('/:groupId/categories/:categoryId', groupGuard, requireAdmin, categoryController.deleteCategory);
+
+// Task templates
+router.get('/:groupId/templates', groupGuard, templateController.getTemplates);
+router.post('/:groupId/templates', groupGuard, templateController.createTemplate);
+router.get('/:groupId/templates/:templateId', groupGuard, templateController.getTemplate);
+router.patch('/:groupId/templates/:templateId', groupGuard, templateController.updateTemplate);
+router.delete('/:groupId/templates/:templateId', groupGuard, templateController.deleteTemplate);
+router.post('/:groupId/templates/:templateId/instantiate', groupGuard, templateController.instantiateTemplate);
+
+// Member auto-assignment preferences (availability, excluded categories)
+router.get('/:groupId/members/:memberId/assignment-preferences', groupGuard, assignmentController.getPreferences);
+router.put('/:groupId/members/:memberId/assignment-preferences', groupGuard, assignmentController.updatePreferences);
+
+// Whether a member's task completions need approval
+router.get('/:groupId/members/:memberId/approval', groupGuard, approvalController.getMemberApproval);
+router.put('/:groupId/members/:memberId/approval', groupGuard, requireAdmin, approvalController.updateMemberApproval);
+
+// Overdue escalation rules
+router.get('/:groupId/escalation-rules', groupGuard, escalationController.getSettings);
+router.put('/:groupId/escalation-rules', groupGuard, requireAdmin, escalationController.updateSettings);
+
+// Points, streaks and leaderboard
+router.get('/:groupId/leaderboard', groupGuard, pointsController.getLeaderboard);
+router.get('/:groupId/points/ledger', groupGuard, pointsController.getLedger);
+router.get('/:groupId/points/balance', groupGuard, rewardController.getBalance);
+router.post('/:groupId/points/adjustments', groupGuard, requireAdmin, pointsController.adjustPoints);
+
+// Rewards store
+router.get('/:groupId/rewards', groupGuard, rewardController.getRewards);
+router.post('/:groupId/rewards', groupGuard, requireAdmin, rewardController.createReward);
+router.patch('/:groupId/rewards/:rewardId', groupGuard, requireAdmin, rewardController.updateReward);
+router.delete('/:groupId/rewards/:rewardId', groupGuard, requireAdmin, rewardController.deleteReward);
+router.post('/:groupId/rewards/:rewardId/redeem', groupGuard, rewardController.redeemReward);
+router.get('/:groupId/redemptions', groupGuard, rewardController.getRedemptions);
+router.post('/:groupId/redemptions/:redemptionId/approve', groupGuard, requireAdmin, rewardController.approveRedemption);
+router.post('/:groupId/redemptions/:redemptionId/reject', groupGuard, requireAdmin, rewardController.rejectRedemption);
+router.post('/:groupId/redemptions/:redemptionId/cancel', groupGuard, rewardController.cancelRedemption);
+
+export default router;
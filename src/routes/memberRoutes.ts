@@ -1,5 +1,6 @@
 import express from 'express';
 import * as memberController from '../controllers/memberController';
+import * as reminderController from '../controllers/reminderController';
 import { requireAuth, requireAdmin } from '../middleware/auth';
 
 const router = express.Router();
@@ -13,6 +14,13 @@ router.post('/auth/logout', requireAuth, memberController.logout);
 // Member profile and management routes
 router.get('/me', requireAuth, memberController.getMe);
 
+// Due-date reminder settings and the in-app notification inbox
+router.get('/me/reminder-preferences', requireAuth, reminderController.getPreferences);
+router.put('/me/reminder-preferences', requireAuth, reminderController.updatePreferences);
+router.get('/me/notifications', requireAuth, reminderController.getNotifications);
+router.post('/me/notifications/read', requireAuth, reminderController.markAllNotificationsRead);
+router.post('/me/notifications/:notificationId/read', requireAuth, reminderController.markNotificationRead);
+
 // Group member management routes
 router.get('/group/:groupId', requireAuth, memberController.getGroupMembers);
 router.post('/group/:groupId', requireAuth, memberController.inviteMember);
@@ -1,11 +1,20 @@
 import express from 'express';
 import * as taskController from '../controllers/taskController';
+import * as calendarController from '../controllers/calendarController';
+import * as analyticsController from '../controllers/analyticsController';
 import { requireAuth } from '../middleware/auth';
 import { groupGuard } from '../middleware/groupGuard';
+import { singleFileUpload } from '../middleware/upload';
 
 const router = express.Router();
 
-// All task routes require authentication
+// Signed attachment downloads (local storage driver) are authorized by their signature
+router.get('/attachments/download', taskController.downloadAttachment);
+
+// ICS calendar feed, authorized by the secret token in its URL (?type=event|todo)
+router.get('/calendar/:token', calendarController.getFeed);
+
+// All other task routes require authentication
 router.use(requireAuth);
 
 // Create a new task
@@ -14,31 +23,99 @@ router.post('/', taskController.createTask);
 // Get current user's tasks across all groups
 router.get('/my-tasks', taskController.getMyTasks);
 
+// Full-text search across the caller's groups (?q=)
+router.get('/search', taskController.searchTasks);
+
+// Completions waiting for the current user's approval
+router.get('/approvals', taskController.getPendingApprovals);
+
+// Calendar feed subscriptions of the current member
+router.get('/calendar-feeds', calendarController.getFeeds);
+router.post('/calendar-feeds', calendarController.createFeed);
+router.delete('/calendar-feeds/:feedId', calendarController.revokeFeed);
+
 // Get tasks for a specific group
 router.get('/group/:groupId', taskController.getGroupTasks);
 
 // Get task statistics for a group
 router.get('/group/:groupId/stats', taskController.getTaskStats);
 
+// Per-member workload, fairness index and weekly series for a group
+router.get('/group/:groupId/workload', groupGuard, analyticsController.getGroupWorkload);
+
+// Get the tags used in a group with usage counts (?q= for suggestions)
+router.get('/group/:groupId/tags', taskController.getGroupTags);
+
 // Get tasks assigned to a specific user (requires group membership)
 router.get('/user/:userId', taskController.getUserTasks);
 
 // Get a single task by ID
 router.get('/:taskId', taskController.getTask);
 
-// Update a task
+// Update a task (?ignore_blockers=true to start or complete a blocked task)
 router.patch('/:taskId', taskController.updateTask);
 
 // Assign a task to a user
 router.patch('/:taskId/assign', taskController.assignTask);
 
-// Complete a task (shortcut)
-router.patch('/:taskId/complete', taskController.completeTask);
+// Complete a task (shortcut); tasks that need proof take a photo upload in `proof`
+router.patch('/:taskId/complete', singleFileUpload('proof'), taskController.completeTask);
+
+// Review a completion that is awaiting approval
+router.post('/:taskId/approve', taskController.approveCompletion);
+router.post('/:taskId/reject', taskController.rejectCompletion);
+
+// Skip one occurrence of a recurring task
+router.patch('/:taskId/skip', taskController.skipOccurrence);
 
-// Delete a task
+// Subtasks
+router.get('/:taskId/subtasks', taskController.getSubtasks);
+router.post('/:taskId/subtasks', taskController.createSubtask);
+router.patch('/:taskId/subtasks/order', taskController.reorderSubtasks);
+
+// Comments and activity thread
+router.get('/:taskId/comments', taskController.getTaskActivity);
+router.post('/:taskId/comments', taskController.createComment);
+router.patch('/:taskId/comments/:commentId', taskController.updateComment);
+router.delete('/:taskId/comments/:commentId', taskController.deleteComment);
+
+// Attachments
+router.get('/:taskId/attachments', taskController.getAttachments);
+router.post('/:taskId/attachments', singleFileUpload('file'), taskController.uploadAttachment);
+router.get('/:taskId/attachments/:attachmentId', taskController.getAttachment);
+router.delete('/:taskId/attachments/:attachmentId', taskController.deleteAttachment);
+
+// Dependencies (blocked-by)
+router.get('/:taskId/dependencies', taskController.getDependencies);
+router.post('/:taskId/dependencies', taskController.addDependency);
+router.delete('/:taskId/dependencies/:blockedById', taskController.removeDependency);
+
+// Time tracking
+router.post('/:taskId/timer/start', taskController.startTimer);
+router.post('/:taskId/timer/pause', taskController.pauseTimer);
+router.post('/:taskId/timer/stop', taskController.stopTimer);
+router.get('/:taskId/time-entries', taskController.getTimeEntries);
+router.post('/:taskId/time-entries', taskController.addTimeEntry);
+router.delete('/:taskId/time-entries/:entryId', taskController.deleteTimeEntry);
+
+// Change history and undo
+router.get('/:taskId/revisions', taskController.getRevisions);
+router.post('/:taskId/revisions/:revisionId/revert', taskController.revertRevision);
+
+// Delete a task (?subtasks=cascade|promote)
 router.delete('/:taskId', taskController.deleteTask);
 
 // Bulk operations
 router.patch('/bulk/update', taskController.bulkUpdateTasks);
+router.post('/bulk/create', taskController.bulkCreateTasks);
+router.post('/bulk/delete', taskController.bulkDeleteTasks);
+router.post('/bulk/distribute', taskController.distributeTasks);
+router.post('/bulk/:batchId/revert', taskController.revertBatch);
+
+// Import tasks from CSV or JSON (?dry_run=true to validate only)
+router.post('/import', singleFileUpload('file'), taskController.importTasks);
+
+// Import from another app: todoist, trello or microsoft_todo
+router.post('/import/:source', singleFileUpload('file'), taskController.importExternalTasks);
 
 export default router;
\ No newline at end of file
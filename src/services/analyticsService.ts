@@ -0,0 +1,71 @@
+// Analytics Service
+// Workload and fairness figures of a group (see ../utils/workload for how work is counted)
+import { supabase } from '../config/supabase';
+import * as memberService from './memberService';
+import * as categoryService from './categoryService';
+import { computeWorkload } from '../utils/workload';
+import type { WorkloadReport, WorkloadTask } from '../utils/workload';
+import type { WorkloadQuery } from '../validators/analyticsValidator';
+
+// Tasks are read in pages of this size
+const PAGE_SIZE = 1000;
+
+export interface GroupWorkloadReport extends WorkloadReport {
+  category_weights: { category_id: string; name: string; weight: number }[];
+}
+
+// Assigned tasks of the group that can fall in the period: completed, due or created since its start
+const getPeriodTasks = async (groupId: string, from: Date): Promise<WorkloadTask[]> => {
+  const since = from.toISOString();
+  const tasks: WorkloadTask[] = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('tasks')
+      .select('assigned_to, category_id, status, estimated_minutes, actual_duration, due_date, created_at, completed_at')
+      .eq('group_id', groupId)
+      .not('assigned_to', 'is', null)
+      .neq('status', 'cancelled')
+      .or(`completed_at.gte.${since},due_date.gte.${since},created_at.gte.${since}`)
+      .order('id', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('Get workload tasks error:', error);
+      throw new Error(`Failed to fetch tasks: ${error.message}`);
+    }
+
+    tasks.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return tasks;
+};
+
+/**
+ * Per-member workload of a group over a period, its fairness index and the weekly series
+ */
+export const getGroupWorkload = async (groupId: string, period: WorkloadQuery): Promise<GroupWorkloadReport> => {
+  const [tasks, members, categories] = await Promise.all([
+    getPeriodTasks(groupId, period.from),
+    memberService.getMembersByGroupId(groupId),
+    categoryService.getCategoriesByGroup(groupId),
+  ]);
+
+  const weights = new Map(categories.map(category => [category.id, Number(category.weight ?? 1)]));
+  const report = computeWorkload(
+    tasks,
+    members.map(member => ({ id: member.id, name: member.name })),
+    weights,
+    period
+  );
+
+  return {
+    ...report,
+    category_weights: categories.map(category => ({
+      category_id: category.id,
+      name: category.name,
+      weight: Number(category.weight ?? 1),
+    })),
+  };
+};
@@ -0,0 +1,143 @@
+// Approval Service
+// Who has to have their task completions approved, and who may approve them. A completion
+// needs approval when the task's category or the completing member is supervised, unless
+// the member is a group admin. Supervised members cannot review completions, even of their
+// own tasks.
+import { supabase } from '../config/supabase';
+import type { Task } from './taskService';
+import type { MemberApprovalData } from '../validators/approvalValidator';
+
+export interface MemberApproval {
+  requires_approval: boolean;
+}
+
+// Per-member setting, in group_memberships.metadata.approval
+const readApproval = (metadata: any): MemberApproval => ({
+  requires_approval: Boolean(metadata?.approval?.requires_approval),
+});
+
+type Membership = { id: string; metadata: any; roles: { name: string } | null };
+
+const isAdmin = (membership: Membership | null): boolean => membership?.roles?.name === 'admin';
+
+const isSupervised = (membership: Membership | null): boolean =>
+  Boolean(membership && readApproval(membership.metadata).requires_approval);
+
+const getMembership = async (groupId: string, memberId: string): Promise<Membership | null> => {
+  const { data } = await supabase
+    .from('group_memberships')
+    .select(`
+      id,
+      metadata,
+      roles (
+        name
+      )
+    `)
+    .eq('group_id', groupId)
+    .eq('member_id', memberId)
+    .eq('status', 'active')
+    .maybeSingle();
+
+  return data as Membership | null;
+};
+
+// Groups in which the member is an admin, and groups in which they are supervised
+export const getReviewerGroups = async (memberId: string): Promise<{ admin: string[]; supervised: string[] }> => {
+  const { data, error } = await supabase
+    .from('group_memberships')
+    .select(`
+      id,
+      group_id,
+      metadata,
+      roles (
+        name
+      )
+    `)
+    .eq('member_id', memberId)
+    .eq('status', 'active');
+
+  if (error) {
+    console.error('Get admin groups error:', error);
+    throw new Error(`Failed to fetch group memberships: ${error.message}`);
+  }
+
+  const memberships: (Membership & { group_id: string })[] = (data || []) as any[];
+
+  return {
+    admin: memberships.filter(isAdmin).map(membership => membership.group_id),
+    supervised: memberships.filter(isSupervised).map(membership => membership.group_id),
+  };
+};
+
+// Whether the member has the admin role in the group
+export const isGroupAdmin = async (groupId: string, memberId: string): Promise<boolean> =>
+  isAdmin(await getMembership(groupId, memberId));
+
+// The group's admins and the task's creator, unless the creator is supervised, review completions
+export const canReview = async (task: Pick<Task, 'group_id' | 'created_by'>, memberId: string): Promise<boolean> => {
+  const membership = await getMembership(task.group_id, memberId);
+  if (isAdmin(membership)) return true;
+
+  return task.created_by === memberId && !isSupervised(membership);
+};
+
+/**
+ * Whether `memberId` completing the task has to wait for approval
+ */
+export const requiresApproval = async (
+  task: Pick<Task, 'group_id' | 'created_by' | 'category_id'>,
+  memberId: string
+): Promise<boolean> => {
+  const membership = await getMembership(task.group_id, memberId);
+  if (isAdmin(membership)) return false;
+  if (isSupervised(membership)) return true;
+
+  if (!task.category_id) return false;
+
+  const { data: category } = await supabase
+    .from('categories')
+    .select('requires_approval')
+    .eq('id', task.category_id)
+    .maybeSingle();
+
+  return Boolean(category?.requires_approval);
+};
+
+export const getMemberApproval = async (groupId: string, memberId: string): Promise<MemberApproval> => {
+  const membership = await getMembership(groupId, memberId);
+
+  if (!membership) {
+    throw new Error('Member not found in this group');
+  }
+
+  return readApproval(membership.metadata);
+};
+
+export const updateMemberApproval = async (
+  groupId: string,
+  memberId: string,
+  updates: MemberApprovalData
+): Promise<MemberApproval> => {
+  const membership = await getMembership(groupId, memberId);
+
+  if (!membership) {
+    throw new Error('Member not found in this group');
+  }
+
+  const approval = { ...readApproval(membership.metadata), ...updates };
+
+  const { error } = await supabase
+    .from('group_memberships')
+    .update({
+      metadata: { ...(membership.metadata || {}), approval },
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', membership.id);
+
+  if (error) {
+    console.error('Update member approval error:', error);
+    throw new Error(`Failed to update approval setting: ${error.message}`);
+  }
+
+  return approval;
+};
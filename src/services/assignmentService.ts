@@ -0,0 +1,360 @@
+// Assignment Service
+// Fair-share auto-assignment: a task goes to the available member with the lowest weighted load.
+// Load is the weighted size of a member's open tasks plus, at a discount, what they finished recently.
+import { randomUUID } from 'crypto';
+import { supabase } from '../config/supabase';
+import * as commentService from './commentService';
+import * as revisionService from './revisionService';
+import type { Task } from './taskService';
+import type { AssignmentPreferencesData, DistributeTasksData } from '../validators/assignmentValidator';
+
+// Completions within this window count towards a member's load
+export const RECENT_COMPLETION_DAYS = 14;
+
+// Recently finished work counts for half, so whoever did the most lately gets a breather
+const RECENT_COMPLETION_WEIGHT = 0.5;
+
+// Size assumed for tasks without an estimate
+const DEFAULT_TASK_MINUTES = 30;
+
+const PRIORITY_WEIGHTS: Record<string, number> = {
+  Low: 1,
+  Medium: 1.5,
+  High: 2,
+};
+
+const URGENT_WEIGHT = 1.5;
+
+export type AssignableTask = Pick<Task, 'estimated_minutes' | 'priority' | 'urgent'> & {
+  category_id?: string | null;
+};
+
+export interface AssignmentPreferences {
+  available: boolean;
+  unavailable_until: string | null;
+  excluded_category_ids: string[];
+}
+
+export interface AssignmentCandidate {
+  member_id: string;
+  name: string | null;
+  open_tasks: number;
+  open_load: number;
+  recent_load: number;
+  score: number;
+  // Why the member was not considered; null for eligible members
+  excluded_reason: string | null;
+}
+
+export interface AssignmentDecision {
+  assigned_to: string;
+  strategy: 'fair_share';
+  reason: string;
+  candidates: AssignmentCandidate[];
+}
+
+export interface DistributionResult {
+  assignments: { task_id: string; assigned_to: string; explanation: AssignmentDecision }[];
+  // Revision batch of the reassignments, for undoing them
+  batch_id: string;
+}
+
+export interface GroupMember {
+  member_id: string;
+  name: string | null;
+  preferences: AssignmentPreferences;
+}
+
+const DEFAULT_PREFERENCES: AssignmentPreferences = {
+  available: true,
+  unavailable_until: null,
+  excluded_category_ids: [],
+};
+
+/**
+ * Weighted size of a task: its estimate scaled by priority and urgency
+ */
+export const taskWeight = (task: AssignableTask): number =>
+  (task.estimated_minutes ?? DEFAULT_TASK_MINUTES) *
+  (PRIORITY_WEIGHTS[task.priority] ?? 1) *
+  (task.urgent ? URGENT_WEIGHT : 1);
+
+const round = (value: number): number => Math.round(value * 10) / 10;
+
+// Preferences live in group_memberships.metadata.assignment
+const readPreferences = (metadata: any): AssignmentPreferences => ({
+  ...DEFAULT_PREFERENCES,
+  ...(metadata?.assignment || {}),
+});
+
+const getGroupMembers = async (groupId: string): Promise<GroupMember[]> => {
+  const { data, error } = await supabase
+    .from('group_memberships')
+    .select(`
+      member_id,
+      metadata,
+      members (
+        id,
+        name
+      )
+    `)
+    .eq('group_id', groupId)
+    .eq('status', 'active');
+
+  if (error) {
+    console.error('Get group members error:', error);
+    throw new Error(`Failed to fetch group members: ${error.message}`);
+  }
+
+  return (data || []).map((membership: any) => ({
+    member_id: membership.member_id,
+    name: membership.members?.name ?? null,
+    preferences: readPreferences(membership.metadata),
+  }));
+};
+
+/**
+ * Current load of every active member of a group
+ */
+export const getCandidates = async (groupId: string): Promise<{ members: GroupMember[]; candidates: AssignmentCandidate[] }> => {
+  const members = await getGroupMembers(groupId);
+  const since = new Date(Date.now() - RECENT_COMPLETION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  const { data: tasks, error } = await supabase
+    .from('tasks')
+    .select('assigned_to, status, estimated_minutes, priority, urgent, completed_at')
+    .eq('group_id', groupId)
+    .not('assigned_to', 'is', null)
+    .or(`status.in.(pending,in_progress),completed_at.gte.${since}`);
+
+  if (error) {
+    console.error('Get member workload error:', error);
+    throw new Error(`Failed to fetch member workload: ${error.message}`);
+  }
+
+  const candidates = members.map(member => {
+    const assigned = (tasks || []).filter(task => task.assigned_to === member.member_id);
+    const open = assigned.filter(task => task.status === 'pending' || task.status === 'in_progress');
+    const recent = assigned.filter(task => task.status === 'completed');
+
+    const openLoad = open.reduce((sum, task) => sum + taskWeight(task), 0);
+    const recentLoad = recent.reduce((sum, task) => sum + taskWeight(task), 0);
+
+    return {
+      member_id: member.member_id,
+      name: member.name,
+      open_tasks: open.length,
+      open_load: round(openLoad),
+      recent_load: round(recentLoad),
+      score: round(openLoad + recentLoad * RECENT_COMPLETION_WEIGHT),
+      excluded_reason: null,
+    };
+  });
+
+  return { members, candidates };
+};
+
+/**
+ * Pick the eligible candidate with the lowest score. Ties go to the member with fewer
+ * open tasks, then by member ID so the choice is deterministic.
+ */
+export const rankCandidates = (
+  members: GroupMember[],
+  candidates: AssignmentCandidate[],
+  task: AssignableTask,
+  exclude: string[] = [],
+  now: Date = new Date()
+): AssignmentDecision => {
+  const preferencesById = new Map(members.map(member => [member.member_id, member.preferences]));
+
+  const evaluated = candidates.map(candidate => {
+    const preferences = preferencesById.get(candidate.member_id) ?? DEFAULT_PREFERENCES;
+    let excludedReason: string | null = null;
+
+    if (exclude.includes(candidate.member_id)) {
+      excludedReason = 'Excluded by request';
+    } else if (!preferences.available) {
+      excludedReason = 'Unavailable';
+    } else if (preferences.unavailable_until && new Date(preferences.unavailable_until) > now) {
+      excludedReason = `Unavailable until ${preferences.unavailable_until}`;
+    } else if (task.category_id && preferences.excluded_category_ids.includes(task.category_id)) {
+      excludedReason = 'Excluded from this category';
+    }
+
+    return { ...candidate, excluded_reason: excludedReason };
+  });
+
+  const eligible = evaluated
+    .filter(candidate => candidate.excluded_reason === null)
+    .sort((a, b) =>
+      a.score - b.score ||
+      a.open_tasks - b.open_tasks ||
+      a.member_id.localeCompare(b.member_id)
+    );
+
+  if (eligible.length === 0) {
+    throw new Error('No available member to assign this task to');
+  }
+
+  const chosen = eligible[0];
+  const runnerUp = eligible[1];
+  const label = chosen.name || chosen.member_id;
+
+  const reason = runnerUp
+    ? `${label} has the lowest weighted load (${chosen.score} vs. ${runnerUp.score} for the next member): ` +
+      `${chosen.open_tasks} open task(s) weighing ${chosen.open_load}, ${chosen.recent_load} completed recently`
+    : `${label} is the only available member`;
+
+  return {
+    assigned_to: chosen.member_id,
+    strategy: 'fair_share',
+    reason,
+    candidates: evaluated,
+  };
+};
+
+/**
+ * Choose who should take a new task in a group
+ */
+export const pickAssignee = async (
+  groupId: string,
+  task: AssignableTask,
+  exclude: string[] = []
+): Promise<AssignmentDecision> => {
+  const { members, candidates } = await getCandidates(groupId);
+  return rankCandidates(members, candidates, task, exclude);
+};
+
+/**
+ * Spread tasks of one group across its members. Heaviest tasks are placed first and each
+ * placement counts towards the next decision, so the batch ends up balanced.
+ */
+export const distributeTasks = async (
+  data: DistributeTasksData,
+  userId: string
+): Promise<DistributionResult> => {
+  const { data: tasks, error } = await supabase
+    .from('tasks')
+    .select('*')
+    .in('id', data.taskIds);
+
+  if (error) {
+    console.error('Distribute tasks error:', error);
+    throw new Error(`Failed to fetch tasks: ${error.message}`);
+  }
+
+  if (!tasks || tasks.length !== new Set(data.taskIds).size) {
+    throw new Error('One or more tasks not found');
+  }
+
+  const groupIds = new Set(tasks.map(task => task.group_id));
+  if (groupIds.size > 1) {
+    throw new Error('All tasks must belong to the same group');
+  }
+
+  const toDistribute = tasks
+    .filter(task => task.status === 'pending' || task.status === 'in_progress')
+    .filter(task => data.reassign || !task.assigned_to)
+    .sort((a, b) => taskWeight(b) - taskWeight(a));
+
+  const batchId = randomUUID();
+  if (toDistribute.length === 0) {
+    return { assignments: [], batch_id: batchId };
+  }
+
+  const { members, candidates } = await getCandidates(tasks[0].group_id);
+  const candidatesById = new Map(candidates.map(candidate => [candidate.member_id, candidate]));
+
+  // Reassigned tasks no longer count towards their current assignee
+  for (const task of toDistribute) {
+    const current = task.assigned_to ? candidatesById.get(task.assigned_to) : undefined;
+    if (current) {
+      current.open_tasks -= 1;
+      current.open_load = round(current.open_load - taskWeight(task));
+      current.score = round(current.score - taskWeight(task));
+    }
+  }
+
+  const results: DistributionResult['assignments'] = [];
+  for (const task of toDistribute) {
+    const decision = rankCandidates(members, candidates, task, data.exclude);
+
+    const chosen = candidatesById.get(decision.assigned_to)!;
+    chosen.open_tasks += 1;
+    chosen.open_load = round(chosen.open_load + taskWeight(task));
+    chosen.score = round(chosen.score + taskWeight(task));
+
+    if (task.assigned_to !== decision.assigned_to) {
+      const { data: updated, error: updateError } = await supabase
+        .from('tasks')
+        .update({
+          assigned_to: decision.assigned_to,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', task.id)
+        .select()
+        .single();
+
+      if (updateError) {
+        console.error('Distribute tasks error:', updateError);
+        throw new Error(`Failed to assign task: ${updateError.message}`);
+      }
+
+      await commentService.logTaskChanges(task, updated, userId);
+      await revisionService.recordRevision(task, updated, userId, { batchId });
+    }
+
+    results.push({ task_id: task.id, assigned_to: decision.assigned_to, explanation: decision });
+  }
+
+  return { assignments: results, batch_id: batchId };
+};
+
+export const getAssignmentPreferences = async (groupId: string, memberId: string): Promise<AssignmentPreferences> => {
+  const { data, error } = await supabase
+    .from('group_memberships')
+    .select('metadata')
+    .eq('group_id', groupId)
+    .eq('member_id', memberId)
+    .single();
+
+  if (error || !data) {
+    throw new Error('Member not found in this group');
+  }
+
+  return readPreferences(data.metadata);
+};
+
+export const updateAssignmentPreferences = async (
+  groupId: string,
+  memberId: string,
+  updates: AssignmentPreferencesData
+): Promise<AssignmentPreferences> => {
+  const { data: membership, error: fetchError } = await supabase
+    .from('group_memberships')
+    .select('id, metadata')
+    .eq('group_id', groupId)
+    .eq('member_id', memberId)
+    .single();
+
+  if (fetchError || !membership) {
+    throw new Error('Member not found in this group');
+  }
+
+  const preferences = { ...readPreferences(membership.metadata), ...updates };
+
+  const { error } = await supabase
+    .from('group_memberships')
+    .update({
+      metadata: { ...(membership.metadata || {}), assignment: preferences },
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', membership.id);
+
+  if (error) {
+    console.error('Update assignment preferences error:', error);
+    throw new Error(`Failed to update assignment preferences: ${error.message}`);
+  }
+
+  return preferences;
+};
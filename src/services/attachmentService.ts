@@ -0,0 +1,224 @@
+// Task Attachment Service
+// Metadata lives in task_attachments; blobs live in the configured storage driver
+import { v4 as uuidv4 } from 'uuid';
+import { supabase } from '../config/supabase';
+import { validationConfig } from '../config/security';
+import { storageConfig } from '../config/storage';
+import { detectFileType } from '../utils/fileType';
+import { getStorageDriver } from './storage';
+
+export interface TaskAttachment {
+  id: string;
+  task_id: string;
+  uploaded_by: string;
+  filename: string;
+  file_url: string; // storage key, resolved to a signed URL on read
+  file_size: number | null;
+  mime_type: string | null;
+  metadata: Record<string, any>;
+  created_at: string;
+}
+
+export interface TaskAttachmentWithUrl extends TaskAttachment {
+  download_url: string;
+  download_url_expires_at: string;
+}
+
+export interface UploadedFile {
+  originalname: string;
+  buffer: Buffer;
+  size: number;
+}
+
+/**
+ * Check an uploaded file against validationConfig and return its sniffed type
+ */
+export const validateUploadedFile = (file: UploadedFile | undefined): { mimeType: string; extension: string } => {
+  if (!file) {
+    throw new Error('A file is required');
+  }
+
+  if (file.size > validationConfig.maxFileSize) {
+    throw new Error(`File must be smaller than ${Math.round(validationConfig.maxFileSize / (1024 * 1024))}MB`);
+  }
+
+  const fileType = detectFileType(file.buffer);
+  if (!fileType || !validationConfig.allowedFileTypes.includes(fileType.mimeType)) {
+    throw new Error(`File type not allowed. Allowed types: ${validationConfig.allowedFileTypes.join(', ')}`);
+  }
+
+  return fileType;
+};
+
+// Attach a signed, time-limited download URL
+const withDownloadUrl = async (attachment: TaskAttachment): Promise<TaskAttachmentWithUrl> => {
+  const ttl = storageConfig.signedUrlTtlSeconds;
+
+  return {
+    ...attachment,
+    download_url: await getStorageDriver().getSignedUrl(attachment.file_url, ttl),
+    download_url_expires_at: new Date(Date.now() + ttl * 1000).toISOString(),
+  };
+};
+
+// Sanitize a client-supplied filename for display and Content-Disposition
+const cleanFilename = (filename: string): string =>
+  filename.replace(/[^\w.\- ]+/g, '_').slice(0, 255) || 'file';
+
+// Upload a file and attach it to a task
+export const uploadAttachment = async (
+  taskId: string,
+  file: UploadedFile | undefined,
+  uploadedBy: string,
+  metadata: Record<string, any> = {}
+): Promise<TaskAttachmentWithUrl> => {
+  const fileType = validateUploadedFile(file);
+
+  const { data: task, error: taskError } = await supabase
+    .from('tasks')
+    .select('id, group_id')
+    .eq('id', taskId)
+    .single();
+
+  if (taskError || !task) {
+    throw new Error('Task not found');
+  }
+
+  const driver = getStorageDriver();
+  const key = `${task.group_id}/${task.id}/${uuidv4()}.${fileType.extension}`;
+  await driver.put(key, file!.buffer, fileType.mimeType);
+
+  const { data, error } = await supabase
+    .from('task_attachments')
+    .insert({
+      task_id: taskId,
+      uploaded_by: uploadedBy,
+      filename: cleanFilename(file!.originalname),
+      file_url: key,
+      file_size: file!.size,
+      mime_type: fileType.mimeType,
+      metadata: { ...metadata, storage: driver.name },
+      created_at: new Date().toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    // Don't leave an orphaned blob behind
+    await driver.remove([key]).catch(removeError => console.error('Remove orphaned upload error:', removeError));
+    console.error('Create attachment error:', error);
+    throw new Error(`Failed to save attachment: ${error.message}`);
+  }
+
+  return withDownloadUrl(data);
+};
+
+// List the attachments of a task with fresh download URLs
+export const getAttachments = async (taskId: string): Promise<TaskAttachmentWithUrl[]> => {
+  const { data, error } = await supabase
+    .from('task_attachments')
+    .select('*')
+    .eq('task_id', taskId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Get attachments error:', error);
+    throw new Error(`Failed to fetch attachments: ${error.message}`);
+  }
+
+  return Promise.all((data || []).map(withDownloadUrl));
+};
+
+// Get a single attachment with a fresh download URL
+export const getAttachment = async (taskId: string, attachmentId: string): Promise<TaskAttachmentWithUrl | null> => {
+  const { data, error } = await supabase
+    .from('task_attachments')
+    .select('*')
+    .eq('id', attachmentId)
+    .eq('task_id', taskId)
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') {
+      return null;
+    }
+    console.error('Get attachment error:', error);
+    throw new Error(`Failed to fetch attachment: ${error.message}`);
+  }
+
+  return withDownloadUrl(data);
+};
+
+// Delete an attachment (uploader only, and not while it proves the task's completion)
+export const deleteAttachment = async (taskId: string, attachmentId: string, userId: string): Promise<void> => {
+  const { data: attachment, error: fetchError } = await supabase
+    .from('task_attachments')
+    .select('*')
+    .eq('id', attachmentId)
+    .eq('task_id', taskId)
+    .single();
+
+  if (fetchError || !attachment) {
+    throw new Error('Attachment not found');
+  }
+
+  if (attachment.uploaded_by !== userId) {
+    throw new Error('Forbidden: Only the uploader can delete this attachment');
+  }
+
+  // A completion's photo stays while it is under review or stands; reopening the task frees it
+  const { data: task } = await supabase
+    .from('tasks')
+    .select('status, proof_attachment_id')
+    .eq('id', taskId)
+    .maybeSingle();
+
+  const isProof = task?.proof_attachment_id === attachmentId &&
+    (task.status === 'awaiting_approval' || task.status === 'completed');
+  if (isProof) {
+    throw new Error('This photo is the proof of the task\'s completion and cannot be deleted');
+  }
+
+  const { error } = await supabase
+    .from('task_attachments')
+    .delete()
+    .eq('id', attachmentId);
+
+  if (error) {
+    console.error('Delete attachment error:', error);
+    throw new Error(`Failed to delete attachment: ${error.message}`);
+  }
+
+  await getStorageDriver().remove([attachment.file_url]);
+};
+
+// Storage keys of every attachment on the given tasks
+export const getAttachmentKeys = async (taskIds: string[]): Promise<string[]> => {
+  if (taskIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('task_attachments')
+    .select('file_url')
+    .in('task_id', taskIds);
+
+  if (error) {
+    console.error('Get attachment keys error:', error);
+    throw new Error(`Failed to fetch attachments: ${error.message}`);
+  }
+
+  return (data || []).map(attachment => attachment.file_url);
+};
+
+/**
+ * Remove stored blobs after their tasks were deleted. Failures are logged, never thrown,
+ * because the task rows (and their attachment rows) are already gone.
+ */
+export const removeAttachmentBlobs = async (keys: string[]): Promise<void> => {
+  if (keys.length === 0) return;
+
+  try {
+    await getStorageDriver().remove(keys);
+  } catch (error) {
+    console.error('Remove attachment blobs error:', error);
+  }
+};
@@ -1,6 +1,7 @@
 // Enhanced Authentication Service - Extracted from working enhanced_server.js
 import { supabase } from '../config/supabase';
 import { v4 as uuidv4 } from 'uuid';
+import { seedDefaultCategories } from './categoryService';
 
 // Authentication providers
 export enum AuthProvider {
@@ -156,6 +157,14 @@ export class AuthService {
       }
       console.log('✅ Group membership created');
 
+      // Seed the group's task categories; signup still succeeds if this fails
+      try {
+        await seedDefaultCategories(groupId, authData.user.id);
+        console.log('✅ Default categories created');
+      } catch (categoryError) {
+        console.error('❌ Default category creation failed:', categoryError);
+      }
+
       // Step 6: Create session token
       const { data: sessionData, error: sessionError } = await supabase.auth.admin.generateLink({
         type: 'magiclink',
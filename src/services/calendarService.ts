@@ -0,0 +1,191 @@
+// Calendar Feed Service
+// ICS subscription feeds of tasks with a due date, per member or per group. A feed is reached
+// through a secret token in its URL (calendar apps cannot send auth headers); only the token's
+// hash is stored and a feed can be revoked at any time.
+import { createHash, randomBytes } from 'crypto';
+import { supabase } from '../config/supabase';
+import { buildCalendar, isValidTimeZone } from '../utils/ical';
+import type { CalendarComponent, CalendarTask } from '../utils/ical';
+import type { CreateCalendarFeedData } from '../validators/calendarValidator';
+
+export const CALENDAR_FEED_PATH = '/api/tasks/calendar';
+
+// Completed tasks stay in the feed this long, so the calendar keeps recent history
+const COMPLETED_RETENTION_DAYS = 30;
+
+export interface CalendarFeed {
+  id: string;
+  member_id: string;
+  group_id: string | null;
+  created_at: string;
+  last_accessed_at: string | null;
+  revoked_at: string | null;
+}
+
+const feedSelect = 'id, member_id, group_id, created_at, last_accessed_at, revoked_at';
+
+const calendarTaskSelect = `
+  id, title, description, status, priority, due_date, completed_at, estimated_minutes,
+  recurring_pattern, recurring_until, tags, updated_at, version
+`;
+
+const hashToken = (token: string): string => createHash('sha256').update(token).digest('hex');
+
+export const getFeedUrl = (token: string): string =>
+  `${process.env.API_BASE_URL || ''}${CALENDAR_FEED_PATH}/${token}.ics`;
+
+const assertActiveMember = async (memberId: string, groupId: string): Promise<void> => {
+  const { data, error } = await supabase
+    .from('group_memberships')
+    .select('group_id')
+    .eq('member_id', memberId)
+    .eq('group_id', groupId)
+    .eq('status', 'active')
+    .maybeSingle();
+
+  if (error) {
+    console.error('Check group membership error:', error);
+    throw new Error(`Failed to check group membership: ${error.message}`);
+  }
+
+  if (!data) {
+    throw new Error('Access denied: not part of group');
+  }
+};
+
+/**
+ * Create a feed for the member. The token is only returned here; it cannot be read back later.
+ */
+export const createFeed = async (
+  memberId: string,
+  feedData: CreateCalendarFeedData
+): Promise<{ feed: CalendarFeed; url: string }> => {
+  if (feedData.group_id) {
+    await assertActiveMember(memberId, feedData.group_id);
+  }
+
+  const token = randomBytes(32).toString('base64url');
+
+  const { data, error } = await supabase
+    .from('calendar_feeds')
+    .insert({
+      member_id: memberId,
+      group_id: feedData.group_id ?? null,
+      token_hash: hashToken(token),
+      created_at: new Date().toISOString(),
+    })
+    .select(feedSelect)
+    .single();
+
+  if (error) {
+    console.error('Create calendar feed error:', error);
+    throw new Error(`Failed to create calendar feed: ${error.message}`);
+  }
+
+  return { feed: data, url: getFeedUrl(token) };
+};
+
+// The member's active feeds
+export const getFeeds = async (memberId: string): Promise<CalendarFeed[]> => {
+  const { data, error } = await supabase
+    .from('calendar_feeds')
+    .select(feedSelect)
+    .eq('member_id', memberId)
+    .is('revoked_at', null)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Get calendar feeds error:', error);
+    throw new Error(`Failed to fetch calendar feeds: ${error.message}`);
+  }
+
+  return data || [];
+};
+
+export const revokeFeed = async (memberId: string, feedId: string): Promise<void> => {
+  const { data, error } = await supabase
+    .from('calendar_feeds')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', feedId)
+    .eq('member_id', memberId)
+    .is('revoked_at', null)
+    .select('id');
+
+  if (error) {
+    console.error('Revoke calendar feed error:', error);
+    throw new Error(`Failed to revoke calendar feed: ${error.message}`);
+  }
+
+  if (!data || data.length === 0) {
+    throw new Error('Calendar feed not found');
+  }
+};
+
+/**
+ * Render the feed behind a token as an ICS document. Feeds are generated on every request,
+ * so task changes show up at the calendar's next refresh.
+ */
+export const renderFeed = async (token: string, component: CalendarComponent): Promise<string> => {
+  const { data: feed } = await supabase
+    .from('calendar_feeds')
+    .select(feedSelect)
+    .eq('token_hash', hashToken(token))
+    .is('revoked_at', null)
+    .maybeSingle();
+
+  if (!feed) {
+    throw new Error('Calendar feed not found');
+  }
+
+  const { data: member } = await supabase
+    .from('members')
+    .select('id, name, timezone')
+    .eq('id', feed.member_id)
+    .single();
+
+  if (!member) {
+    throw new Error('Calendar feed not found');
+  }
+
+  let name = `${member.name || 'My'} tasks`;
+  let query = supabase
+    .from('tasks')
+    .select(calendarTaskSelect)
+    .not('due_date', 'is', null)
+    .neq('status', 'cancelled');
+
+  if (feed.group_id) {
+    // Leaving the group ends access through its feeds
+    await assertActiveMember(feed.member_id, feed.group_id);
+
+    const { data: group } = await supabase
+      .from('groups')
+      .select('name')
+      .eq('id', feed.group_id)
+      .single();
+
+    name = group?.name ? `${group.name} tasks` : 'Group tasks';
+    query = query.eq('group_id', feed.group_id);
+  } else {
+    query = query.eq('assigned_to', feed.member_id);
+  }
+
+  const since = new Date(Date.now() - COMPLETED_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const { data: tasks, error } = await query
+    .or(`status.neq.completed,completed_at.gte.${since}`)
+    .order('due_date', { ascending: true });
+
+  if (error) {
+    console.error('Render calendar feed error:', error);
+    throw new Error(`Failed to fetch tasks: ${error.message}`);
+  }
+
+  await supabase
+    .from('calendar_feeds')
+    .update({ last_accessed_at: new Date().toISOString() })
+    .eq('id', feed.id);
+
+  const timeZone = member.timezone && isValidTimeZone(member.timezone) ? member.timezone : 'UTC';
+
+  return buildCalendar((tasks || []) as CalendarTask[], { name, timeZone, component });
+};
@@ -0,0 +1,183 @@
+// Category Service
+// Each group defines its own task categories; new groups start with a default set
+import { supabase } from '../config/supabase';
+import type { CreateCategoryData, UpdateCategoryData } from '../validators/categoryValidator';
+
+export interface Category {
+  id: string;
+  name: string;
+  description: string | null;
+  color: string;
+  icon: string | null;
+  group_id: string;
+  created_by: string | null;
+  is_default: boolean;
+  sort_order: number;
+  // Multiplier for the category's minutes in workload analytics
+  weight: number;
+  // Points for completing a task of the category, overriding the default formula
+  points: number | null;
+  // Completing a task of the category needs approval by its creator or an admin
+  requires_approval: boolean;
+  // Completing a task of the category needs a photo as proof
+  requires_proof: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// Seeded into every new group; these replace the old hardcoded TaskCategory enum
+export const DEFAULT_CATEGORIES: Pick<Category, 'name' | 'color' | 'icon'>[] = [
+  { name: 'Chores', color: '#3B82F6', icon: 'broom' },
+  { name: 'Kids', color: '#F59E0B', icon: 'child' },
+  { name: 'Work', color: '#6366F1', icon: 'briefcase' },
+  { name: 'Projects', color: '#10B981', icon: 'hammer' },
+  { name: 'Personal', color: '#EC4899', icon: 'user' },
+  { name: 'Shopping', color: '#EF4444', icon: 'cart' },
+];
+
+/**
+ * Create the default categories for a group. Safe to call more than once.
+ */
+export const seedDefaultCategories = async (groupId: string, createdBy?: string): Promise<void> => {
+  const { error } = await supabase
+    .from('categories')
+    .upsert(
+      DEFAULT_CATEGORIES.map((category, index) => ({
+        ...category,
+        group_id: groupId,
+        created_by: createdBy ?? null,
+        is_default: true,
+        sort_order: index,
+      })),
+      { onConflict: 'name,group_id', ignoreDuplicates: true }
+    );
+
+  if (error) {
+    console.error('Seed default categories error:', error);
+    throw new Error(`Failed to create default categories: ${error.message}`);
+  }
+};
+
+// Get the categories of a group in display order
+export const getCategoriesByGroup = async (groupId: string): Promise<Category[]> => {
+  const { data, error } = await supabase
+    .from('categories')
+    .select('*')
+    .eq('group_id', groupId)
+    .order('sort_order', { ascending: true })
+    .order('name', { ascending: true });
+
+  if (error) {
+    console.error('Get categories error:', error);
+    throw new Error(`Failed to fetch categories: ${error.message}`);
+  }
+
+  return data || [];
+};
+
+/**
+ * Throw unless the category exists and belongs to the group
+ */
+export const assertCategoryInGroup = async (categoryId: string, groupId: string): Promise<Category> => {
+  const { data, error } = await supabase
+    .from('categories')
+    .select('*')
+    .eq('id', categoryId)
+    .eq('group_id', groupId)
+    .single();
+
+  if (error || !data) {
+    throw new Error('Category not found in this group');
+  }
+
+  return data;
+};
+
+// Create a category in a group
+export const createCategory = async (
+  groupId: string,
+  categoryData: CreateCategoryData,
+  createdBy: string
+): Promise<Category> => {
+  let sortOrder = categoryData.sort_order;
+
+  // New categories go to the end unless a position is given
+  if (sortOrder === undefined) {
+    const { data: last } = await supabase
+      .from('categories')
+      .select('sort_order')
+      .eq('group_id', groupId)
+      .order('sort_order', { ascending: false })
+      .limit(1);
+
+    sortOrder = last && last.length > 0 ? (last[0].sort_order ?? 0) + 1 : 0;
+  }
+
+  const { data, error } = await supabase
+    .from('categories')
+    .insert({
+      ...categoryData,
+      group_id: groupId,
+      created_by: createdBy,
+      is_default: false,
+      sort_order: sortOrder,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new Error('A category with this name already exists');
+    }
+    console.error('Create category error:', error);
+    throw new Error(`Failed to create category: ${error.message}`);
+  }
+
+  return data;
+};
+
+// Update a category of a group
+export const updateCategory = async (
+  groupId: string,
+  categoryId: string,
+  updates: UpdateCategoryData
+): Promise<Category> => {
+  await assertCategoryInGroup(categoryId, groupId);
+
+  const { data, error } = await supabase
+    .from('categories')
+    .update({
+      ...updates,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', categoryId)
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new Error('A category with this name already exists');
+    }
+    console.error('Update category error:', error);
+    throw new Error(`Failed to update category: ${error.message}`);
+  }
+
+  return data;
+};
+
+// Delete a category; its tasks become uncategorized
+export const deleteCategory = async (groupId: string, categoryId: string): Promise<void> => {
+  await assertCategoryInGroup(categoryId, groupId);
+
+  const { error } = await supabase
+    .from('categories')
+    .delete()
+    .eq('id', categoryId);
+
+  if (error) {
+    console.error('Delete category error:', error);
+    throw new Error(`Failed to delete category: ${error.message}`);
+  }
+};
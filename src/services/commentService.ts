@@ -0,0 +1,223 @@
+// Task Comment Service
+// Member comments and system activity entries share task_comments and form one thread
+import { supabase } from '../config/supabase';
+import type {
+  TaskCommentTypeData,
+  CreateCommentData,
+  UpdateCommentData,
+  ActivityFiltersData,
+} from '../validators/commentValidator';
+
+export interface TaskComment {
+  id: string;
+  task_id: string;
+  // Null for entries written by the system (escalations)
+  author_id: string | null;
+  content: string;
+  type: TaskCommentTypeData;
+  metadata: Record<string, any>;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TaskCommentWithAuthor extends TaskComment {
+  author?: {
+    id: string;
+    name: string;
+    email: string;
+  };
+}
+
+// Add a comment to a task
+export const createComment = async (
+  taskId: string,
+  commentData: CreateCommentData,
+  authorId: string
+): Promise<TaskComment> => {
+  const { data: task, error: taskError } = await supabase
+    .from('tasks')
+    .select('id')
+    .eq('id', taskId)
+    .single();
+
+  if (taskError || !task) {
+    throw new Error('Task not found');
+  }
+
+  const { data, error } = await supabase
+    .from('task_comments')
+    .insert({
+      task_id: taskId,
+      author_id: authorId,
+      content: commentData.content,
+      type: 'comment',
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Create comment error:', error);
+    throw new Error(`Failed to create comment: ${error.message}`);
+  }
+
+  return data;
+};
+
+// Fetch a comment and check that the user wrote it
+const getOwnComment = async (taskId: string, commentId: string, userId: string): Promise<TaskComment> => {
+  const { data: comment, error } = await supabase
+    .from('task_comments')
+    .select('*')
+    .eq('id', commentId)
+    .eq('task_id', taskId)
+    .single();
+
+  if (error || !comment) {
+    throw new Error('Comment not found');
+  }
+
+  if (comment.type !== 'comment') {
+    throw new Error('Activity entries cannot be changed');
+  }
+
+  if (comment.author_id !== userId) {
+    throw new Error('Forbidden: Only the author can change this comment');
+  }
+
+  return comment;
+};
+
+// Edit a comment (author only)
+export const updateComment = async (
+  taskId: string,
+  commentId: string,
+  updates: UpdateCommentData,
+  userId: string
+): Promise<TaskComment> => {
+  await getOwnComment(taskId, commentId, userId);
+
+  const { data, error } = await supabase
+    .from('task_comments')
+    .update({
+      content: updates.content,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', commentId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Update comment error:', error);
+    throw new Error(`Failed to update comment: ${error.message}`);
+  }
+
+  return data;
+};
+
+// Delete a comment (author only)
+export const deleteComment = async (taskId: string, commentId: string, userId: string): Promise<void> => {
+  await getOwnComment(taskId, commentId, userId);
+
+  const { error } = await supabase
+    .from('task_comments')
+    .delete()
+    .eq('id', commentId);
+
+  if (error) {
+    console.error('Delete comment error:', error);
+    throw new Error(`Failed to delete comment: ${error.message}`);
+  }
+};
+
+// Get the activity thread of a task, oldest first
+export const getTaskActivity = async (
+  taskId: string,
+  filters: ActivityFiltersData = { limit: 50, offset: 0 }
+): Promise<{ entries: TaskCommentWithAuthor[]; total: number }> => {
+  let query = supabase
+    .from('task_comments')
+    .select(`
+      *,
+      author:author_id (
+        id,
+        name,
+        email
+      )
+    `, { count: 'exact' })
+    .eq('task_id', taskId)
+    .order('created_at', { ascending: true })
+    .order('id', { ascending: true });
+
+  if (filters.type) {
+    query = query.eq('type', filters.type);
+  }
+
+  query = query.range(filters.offset || 0, (filters.offset || 0) + (filters.limit || 50) - 1);
+
+  const { data, error, count } = await query;
+
+  if (error) {
+    console.error('Get task activity error:', error);
+    throw new Error(`Failed to fetch task activity: ${error.message}`);
+  }
+
+  return { entries: data || [], total: count || 0 };
+};
+
+/**
+ * Record a system activity entry. Failures are logged, never thrown,
+ * so the change that triggered the entry still succeeds.
+ */
+export const logTaskActivity = async (
+  taskId: string,
+  actorId: string | null,
+  type: Exclude<TaskCommentTypeData, 'comment'>,
+  content: string,
+  metadata: Record<string, any> = {}
+): Promise<void> => {
+  const { error } = await supabase
+    .from('task_comments')
+    .insert({
+      task_id: taskId,
+      author_id: actorId,
+      content,
+      type,
+      metadata,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    });
+
+  if (error) {
+    console.error('Log task activity error:', error);
+  }
+};
+
+// Record status and assignee changes between two versions of a task
+export const logTaskChanges = async (
+  before: { id: string; status: string; assigned_to: string | null },
+  after: { status: string; assigned_to: string | null },
+  actorId: string | null
+): Promise<void> => {
+  if (before.status !== after.status) {
+    await logTaskActivity(
+      before.id,
+      actorId,
+      'status_change',
+      `Status changed from ${before.status} to ${after.status}`,
+      { from: before.status, to: after.status }
+    );
+  }
+
+  if (before.assigned_to !== after.assigned_to) {
+    const content = !after.assigned_to
+      ? 'Task unassigned'
+      : before.assigned_to ? 'Task reassigned' : 'Task assigned';
+
+    await logTaskActivity(before.id, actorId, 'assignment', content, {
+      from: before.assigned_to,
+      to: after.assigned_to,
+    });
+  }
+};
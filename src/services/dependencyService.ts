@@ -0,0 +1,178 @@
+// Task Dependency Service
+// "Blocked by" relations between tasks of the same group. The graph is kept acyclic, and a task
+// cannot be started or completed while one of its blockers is still open (unless overridden).
+import { supabase } from '../config/supabase';
+import type { Task } from './taskService';
+
+export type DependencyTaskSummary = Pick<Task, 'id' | 'title' | 'status' | 'assigned_to' | 'due_date'>;
+
+export interface TaskDependencies {
+  blocked_by: DependencyTaskSummary[];
+  blocking: DependencyTaskSummary[];
+}
+
+const summarySelect = 'id, title, status, assigned_to, due_date';
+
+const isOpen = (task: Pick<Task, 'status'>): boolean =>
+  task.status !== 'completed' && task.status !== 'cancelled';
+
+/**
+ * Whether `to` can be reached from `from` by following blocked-by edges.
+ * `getBlockers` returns the direct blockers of a set of tasks.
+ */
+export const hasBlockingPath = async (
+  from: string,
+  to: string,
+  getBlockers: (taskIds: string[]) => Promise<string[]>
+): Promise<boolean> => {
+  const visited = new Set<string>([from]);
+  let level = [from];
+
+  while (level.length > 0) {
+    const next: string[] = [];
+    for (const blockerId of await getBlockers(level)) {
+      if (blockerId === to) return true;
+      if (!visited.has(blockerId)) {
+        visited.add(blockerId);
+        next.push(blockerId);
+      }
+    }
+    level = next;
+  }
+
+  return false;
+};
+
+const getDirectBlockerIds = async (taskIds: string[]): Promise<string[]> => {
+  const { data, error } = await supabase
+    .from('task_dependencies')
+    .select('blocked_by_task_id')
+    .in('task_id', taskIds);
+
+  if (error) {
+    console.error('Get task blockers error:', error);
+    throw new Error(`Failed to fetch task dependencies: ${error.message}`);
+  }
+
+  return (data || []).map(dependency => dependency.blocked_by_task_id);
+};
+
+/**
+ * Record that `taskId` is blocked by `blockedById`
+ */
+export const addDependency = async (
+  taskId: string,
+  blockedById: string,
+  createdBy: string
+): Promise<TaskDependencies> => {
+  if (taskId === blockedById) {
+    throw new Error('A task cannot block itself');
+  }
+
+  const { data: tasks, error: fetchError } = await supabase
+    .from('tasks')
+    .select('id, group_id')
+    .in('id', [taskId, blockedById]);
+
+  if (fetchError) {
+    console.error('Add dependency error:', fetchError);
+    throw new Error(`Failed to add dependency: ${fetchError.message}`);
+  }
+
+  const task = tasks?.find(row => row.id === taskId);
+  const blocker = tasks?.find(row => row.id === blockedById);
+
+  if (!task) {
+    throw new Error('Task not found');
+  }
+
+  if (!blocker) {
+    throw new Error('Blocking task not found');
+  }
+
+  if (task.group_id !== blocker.group_id) {
+    throw new Error('Dependencies can only link tasks of the same group');
+  }
+
+  // The new edge closes a cycle if the blocker is already (indirectly) waiting on this task
+  if (await hasBlockingPath(blockedById, taskId, getDirectBlockerIds)) {
+    throw new Error('This dependency would create a cycle');
+  }
+
+  const { error } = await supabase
+    .from('task_dependencies')
+    .insert({
+      task_id: taskId,
+      blocked_by_task_id: blockedById,
+      created_by: createdBy,
+      created_at: new Date().toISOString(),
+    });
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new Error('This dependency already exists');
+    }
+    console.error('Add dependency error:', error);
+    throw new Error(`Failed to add dependency: ${error.message}`);
+  }
+
+  return getDependencies(taskId);
+};
+
+export const removeDependency = async (taskId: string, blockedById: string): Promise<TaskDependencies> => {
+  const { data, error } = await supabase
+    .from('task_dependencies')
+    .delete()
+    .eq('task_id', taskId)
+    .eq('blocked_by_task_id', blockedById)
+    .select('id');
+
+  if (error) {
+    console.error('Remove dependency error:', error);
+    throw new Error(`Failed to remove dependency: ${error.message}`);
+  }
+
+  if (!data || data.length === 0) {
+    throw new Error('Dependency not found');
+  }
+
+  return getDependencies(taskId);
+};
+
+// The tasks a task is blocked by and the tasks it is blocking
+export const getDependencies = async (taskId: string): Promise<TaskDependencies> => {
+  const [blockedBy, blocking] = await Promise.all([
+    supabase
+      .from('task_dependencies')
+      .select(`blocker:blocked_by_task_id (${summarySelect})`)
+      .eq('task_id', taskId),
+    supabase
+      .from('task_dependencies')
+      .select(`blocked:task_id (${summarySelect})`)
+      .eq('blocked_by_task_id', taskId),
+  ]);
+
+  const error = blockedBy.error || blocking.error;
+  if (error) {
+    console.error('Get task dependencies error:', error);
+    throw new Error(`Failed to fetch task dependencies: ${error.message}`);
+  }
+
+  return {
+    blocked_by: (blockedBy.data || []).map((row: any) => row.blocker).filter(Boolean),
+    blocking: (blocking.data || []).map((row: any) => row.blocked).filter(Boolean),
+  };
+};
+
+/**
+ * Throw if any blocker of the task is still open
+ */
+export const assertNotBlocked = async (taskId: string): Promise<void> => {
+  const { blocked_by } = await getDependencies(taskId);
+  const openBlockers = blocked_by.filter(isOpen);
+
+  if (openBlockers.length > 0) {
+    const titles = openBlockers.map(blocker => `"${blocker.title}"`).join(', ');
+    throw new Error(`Task is blocked by ${openBlockers.length} open task(s): ${titles}`);
+  }
+};
@@ -1,6 +1,7 @@
 // Enhanced Auth Service Compatible with New Schema
 import { supabase } from '../config/supabase';
 import { v4 as uuidv4 } from 'uuid';
+import { seedDefaultCategories } from './categoryService';
 import bcrypt from 'bcryptjs';
 
 // Supported authentication providers
@@ -169,6 +170,14 @@ export class EnhancedAuthServiceCompatible {
       }
       console.log('✅ Group membership created:', membershipData.id);
 
+      // Seed the group's task categories; signup still succeeds if this fails
+      try {
+        await seedDefaultCategories(groupId, authData.user.id);
+        console.log('✅ Default categories created');
+      } catch (categoryError) {
+        console.error('❌ Default category creation failed:', categoryError);
+      }
+
       // Step 6: Sign in to get session token
       const { data: signInData, error: signInError } = await supabase.auth.signInWithPassword({
         email: data.email,
@@ -0,0 +1,367 @@
+// Escalation Service
+// Acts on a group's escalation rules as tasks approach and pass their due date: raises
+// priority, marks tasks urgent, notifies the creator/admins or hands the task to another
+// member. Every escalation is written to the task's activity thread.
+import { randomUUID } from 'crypto';
+import { supabase } from '../config/supabase';
+import { notificationConfig } from '../config/notifications';
+import * as commentService from './commentService';
+import * as revisionService from './revisionService';
+import * as assignmentService from './assignmentService';
+import * as memberService from './memberService';
+import { readReminderPreferences } from './reminderService';
+import { sendNotification } from './notifications';
+import type { Task } from './taskService';
+import {
+  DEFAULT_ESCALATION_SETTINGS,
+  describeTrigger,
+  getEscalationUpdates,
+  isRuleTriggered,
+} from '../utils/escalation';
+import type { EscalationRecipient, EscalationRule, EscalationSettings } from '../utils/escalation';
+import { startIntervalJob } from '../utils/scheduler';
+import type { EscalationSettingsData } from '../validators/escalationValidator';
+
+// Tasks are scanned in pages of this size
+const TICK_PAGE_SIZE = 500;
+
+export interface EscalationTickResult {
+  groups: number;
+  escalated: number;
+  failed: number;
+}
+
+// Settings live in groups.settings.escalation
+const readSettings = (settings: any): EscalationSettings => ({
+  ...DEFAULT_ESCALATION_SETTINGS,
+  ...(settings?.escalation || {}),
+});
+
+export const getEscalationSettings = async (groupId: string): Promise<EscalationSettings> => {
+  const { data, error } = await supabase
+    .from('groups')
+    .select('settings')
+    .eq('id', groupId)
+    .single();
+
+  if (error || !data) {
+    throw new Error('Group not found');
+  }
+
+  return readSettings(data.settings);
+};
+
+export const updateEscalationSettings = async (
+  groupId: string,
+  updates: EscalationSettingsData
+): Promise<EscalationSettings> => {
+  const { data: group, error: fetchError } = await supabase
+    .from('groups')
+    .select('settings')
+    .eq('id', groupId)
+    .single();
+
+  if (fetchError || !group) {
+    throw new Error('Group not found');
+  }
+
+  const current = readSettings(group.settings);
+  const settings: EscalationSettings = {
+    enabled: updates.enabled ?? current.enabled,
+    rules: updates.rules
+      ? updates.rules.map(rule => ({ ...rule, id: rule.id ?? randomUUID() }))
+      : current.rules,
+  };
+
+  const { error } = await supabase
+    .from('groups')
+    .update({
+      settings: { ...(group.settings || {}), escalation: settings },
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', groupId);
+
+  if (error) {
+    console.error('Update escalation settings error:', error);
+    throw new Error(`Failed to update escalation settings: ${error.message}`);
+  }
+
+  return settings;
+};
+
+/**
+ * Claim a rule for a task and due date before acting on it; null when it already fired.
+ * The unique key keeps overlapping ticks from escalating a task twice.
+ */
+const claimEscalation = async (task: Task, rule: EscalationRule): Promise<string | null> => {
+  const { data, error } = await supabase
+    .from('task_escalations')
+    .insert({
+      task_id: task.id,
+      group_id: task.group_id,
+      rule_id: rule.id,
+      action: rule.action,
+      due_date: task.due_date,
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    if (error.code !== '23505') {
+      console.error('Claim escalation error:', error);
+    }
+    return null;
+  }
+
+  return data.id;
+};
+
+/**
+ * Write escalation changes, provided nobody edited the task since it was read. On such a
+ * conflict the escalation fails and the next tick tries again with the new version.
+ */
+const updateTask = async (task: Task, updates: Partial<Task>): Promise<Task> => {
+  const { data, error } = await supabase
+    .from('tasks')
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq('id', task.id)
+    .eq('version', task.version)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update task: ${error.message}`);
+  }
+
+  if (!data) {
+    throw new Error('Task was modified during escalation');
+  }
+
+  return data;
+};
+
+const getGroupAdminIds = async (groupId: string): Promise<string[]> => {
+  const members = await memberService.getMembersByGroupId(groupId);
+
+  return members
+    .filter((member: any) => member.memberships.some((m: any) => m.role.name === 'admin'))
+    .map(member => member.id);
+};
+
+const notifyRecipients = async (
+  task: Task,
+  rule: EscalationRule,
+  adminIds: () => Promise<string[]>
+): Promise<string[]> => {
+  const ids = new Set<string>();
+  const add = async (recipient: EscalationRecipient) => {
+    if (recipient === 'creator' && task.created_by) ids.add(task.created_by);
+    if (recipient === 'assignee' && task.assigned_to) ids.add(task.assigned_to);
+    if (recipient === 'admins') (await adminIds()).forEach(id => ids.add(id));
+  };
+
+  for (const recipient of rule.recipients) {
+    await add(recipient);
+  }
+
+  if (ids.size === 0) return [];
+
+  const { data: members, error } = await supabase
+    .from('members')
+    .select('id, name, email, preferences')
+    .in('id', [...ids]);
+
+  if (error) {
+    throw new Error(`Failed to fetch members: ${error.message}`);
+  }
+
+  const notification = {
+    type: 'escalation',
+    title: `Task ${describeTrigger(rule)}: ${task.title}`,
+    body: rule.trigger === 'due_soon'
+      ? `"${task.title}" is due ${task.due_date} and is still ${task.status.replace('_', ' ')}.`
+      : `"${task.title}" was due ${task.due_date} and is still ${task.status.replace('_', ' ')}.`,
+    task_id: task.id,
+  };
+
+  const notified: string[] = [];
+  for (const member of members || []) {
+    const delivered = await sendNotification(
+      { id: member.id, name: member.name, email: member.email },
+      readReminderPreferences(member.preferences).channels,
+      notification
+    );
+    if (delivered.length > 0) {
+      notified.push(member.id);
+    }
+  }
+
+  if (notified.length === 0) {
+    throw new Error('No notification could be delivered');
+  }
+
+  return notified;
+};
+
+/**
+ * Carry out one rule on a task. Returns the updated task and what was done, or null when the
+ * rule has nothing to change.
+ */
+const applyRule = async (
+  task: Task,
+  rule: EscalationRule,
+  adminIds: () => Promise<string[]>
+): Promise<{ task: Task; details: Record<string, any>; summary: string } | null> => {
+  const trigger = describeTrigger(rule);
+
+  if (rule.action === 'notify') {
+    const notified = await notifyRecipients(task, rule, adminIds);
+    if (notified.length === 0) return null;
+
+    return {
+      task,
+      details: { notified },
+      summary: `Escalated (${trigger}): notified ${notified.length} member(s)`,
+    };
+  }
+
+  if (rule.action === 'reassign') {
+    if (!task.assigned_to) return null;
+
+    let decision;
+    try {
+      decision = await assignmentService.pickAssignee(task.group_id, task, [task.assigned_to]);
+    } catch {
+      // Nobody else is available; the task stays where it is
+      return null;
+    }
+
+    const updated = await updateTask(task, { assigned_to: decision.assigned_to });
+
+    await commentService.logTaskChanges(task, updated, null);
+    return {
+      task: updated,
+      details: { from: task.assigned_to, to: decision.assigned_to, reason: decision.reason },
+      summary: `Escalated (${trigger}): reassigned. ${decision.reason}`,
+    };
+  }
+
+  const updates = getEscalationUpdates(task, rule);
+  if (!updates) return null;
+
+  const updated = await updateTask(task, updates);
+
+  return {
+    task: updated,
+    details: updates.priority ? { from: task.priority, to: updates.priority } : { urgent: true },
+    summary: updates.priority
+      ? `Escalated (${trigger}): priority raised from ${task.priority} to ${updates.priority}`
+      : `Escalated (${trigger}): marked urgent`,
+  };
+};
+
+const escalateGroup = async (
+  groupId: string,
+  rules: EscalationRule[],
+  now: Date,
+  result: EscalationTickResult
+): Promise<void> => {
+  const lookahead = Math.max(0, ...rules.filter(rule => rule.trigger === 'due_soon').map(rule => rule.hours));
+  const horizon = new Date(now.getTime() + lookahead * 60 * 60 * 1000).toISOString();
+
+  let admins: Promise<string[]> | null = null;
+  const adminIds = () => (admins ??= getGroupAdminIds(groupId));
+
+  for (let offset = 0; ; offset += TICK_PAGE_SIZE) {
+    const { data: tasks, error } = await supabase
+      .from('tasks')
+      .select('*')
+      .eq('group_id', groupId)
+      .in('status', ['pending', 'in_progress'])
+      .not('due_date', 'is', null)
+      .lte('due_date', horizon)
+      .order('due_date', { ascending: true })
+      .order('id', { ascending: true })
+      .range(offset, offset + TICK_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch tasks: ${error.message}`);
+    }
+
+    for (let task of (tasks || []) as Task[]) {
+      for (const rule of rules.filter(rule => isRuleTriggered(task, rule, now))) {
+        const claimId = await claimEscalation(task, rule);
+        if (!claimId) continue;
+
+        try {
+          const applied = await applyRule(task, rule, adminIds);
+
+          if (!applied) {
+            // Nothing to do (already high priority, nobody to notify or reassign to): the
+            // claim stays so the rule is not evaluated again for this due date
+            continue;
+          }
+
+          await supabase.from('task_escalations').update({ details: applied.details }).eq('id', claimId);
+          await revisionService.recordRevision(task, applied.task, null);
+          await commentService.logTaskActivity(task.id, null, 'escalation', applied.summary, {
+            rule_id: rule.id,
+            trigger: rule.trigger,
+            hours: rule.hours,
+            action: rule.action,
+            ...applied.details,
+          });
+
+          task = applied.task;
+          result.escalated++;
+        } catch (error) {
+          console.error('Escalation error:', error);
+          await supabase.from('task_escalations').delete().eq('id', claimId);
+          result.failed++;
+        }
+      }
+    }
+
+    if (!tasks || tasks.length < TICK_PAGE_SIZE) break;
+  }
+};
+
+/**
+ * Apply every group's escalation rules that are due at `now`
+ */
+export const runEscalationTick = async (now: Date = new Date()): Promise<EscalationTickResult> => {
+  const { data: groups, error } = await supabase
+    .from('groups')
+    .select('id, settings')
+    .eq('status', 'active')
+    .eq('settings->escalation->>enabled', 'true');
+
+  if (error) {
+    console.error('Escalation tick error:', error);
+    throw new Error(`Failed to fetch groups: ${error.message}`);
+  }
+
+  const result: EscalationTickResult = { groups: 0, escalated: 0, failed: 0 };
+
+  for (const group of groups || []) {
+    const { rules } = readSettings(group.settings);
+    if (rules.length === 0) continue;
+    result.groups++;
+
+    try {
+      await escalateGroup(group.id, rules, now, result);
+    } catch (groupError) {
+      console.error(`Escalation error in group ${group.id}:`, groupError);
+      result.failed++;
+    }
+  }
+
+  return result;
+};
+
+// Run escalation ticks on an interval; returns a function that stops the scheduler
+export const startEscalationScheduler = (intervalMs: number = notificationConfig.reminderIntervalMs): (() => void) =>
+  startIntervalJob('Escalations', async () => {
+    const result = await runEscalationTick();
+    return result.escalated > 0 || result.failed > 0 ? `${result.escalated} escalated, ${result.failed} failed` : null;
+  }, intervalMs);
@@ -0,0 +1,231 @@
+// Task Import Service
+// Bulk import of tasks into a group from CSV or JSON, or from another app's export (see
+// ./importers), with a per-row report. In a dry run every row is validated but nothing is created.
+import { randomUUID } from 'crypto';
+import * as taskService from './taskService';
+import * as memberService from './memberService';
+import * as categoryService from './categoryService';
+import { parseExternalExport } from './importers';
+import type { ImportSource } from './importers';
+import { createTaskSchema, createSubtaskSchema, MAX_IMPORT_ROWS } from '../validators/taskValidator';
+import type { CreateTaskData, CreateSubtaskData } from '../validators/taskValidator';
+import { normalizeImportRow } from '../utils/taskImport';
+import type { ImportLookups, ImportRow } from '../utils/taskImport';
+
+export interface ImportRowResult {
+  // 1-based, not counting a CSV header
+  row: number;
+  status: 'valid' | 'created' | 'failed';
+  title?: string;
+  task_id?: string;
+  errors?: string[];
+  // External imports: the task's checklist items, created as subtasks
+  subtasks?: number;
+}
+
+export interface ImportReport {
+  dry_run: boolean;
+  total: number;
+  succeeded: number;
+  failed: number;
+  rows: ImportRowResult[];
+}
+
+export interface ExternalImportReport extends ImportReport {
+  source: ImportSource;
+  // Categories that did not exist yet and that valid tasks go into (created unless this is a dry run)
+  new_categories: string[];
+  warnings: string[];
+}
+
+const getLookups = async (groupId: string): Promise<ImportLookups> => {
+  const [members, categories] = await Promise.all([
+    memberService.getMembersByGroupId(groupId),
+    categoryService.getCategoriesByGroup(groupId),
+  ]);
+
+  return {
+    memberIdsByEmail: new Map(members.map(member => [member.email.toLowerCase(), member.id])),
+    categoryIdsByName: new Map(categories.map(category => [category.name.toLowerCase(), category.id])),
+  };
+};
+
+const formatIssues = (issues: { path: (string | number)[]; message: string }[], prefix = ''): string[] =>
+  issues.map(issue => `${prefix}${issue.path.join('.') || 'row'}: ${issue.message}`);
+
+// Map a row onto task input and validate it like a task created through the API
+const validateRow = (
+  row: ImportRow,
+  groupId: string,
+  lookups: ImportLookups
+): { data?: CreateTaskData; title?: string; errors: string[] } => {
+  const { input, errors } = normalizeImportRow(row, groupId, lookups);
+  const parsed = createTaskSchema.safeParse(input);
+  const title = typeof input.title === 'string' ? input.title : undefined;
+
+  if (!parsed.success) {
+    errors.push(...formatIssues(parsed.error.issues));
+  }
+
+  return { data: parsed.success && errors.length === 0 ? parsed.data : undefined, title, errors };
+};
+
+const summarize = (dryRun: boolean, results: ImportRowResult[]): ImportReport => {
+  const failed = results.filter(result => result.status === 'failed').length;
+
+  return {
+    dry_run: dryRun,
+    total: results.length,
+    succeeded: results.length - failed,
+    failed,
+    rows: results,
+  };
+};
+
+/**
+ * Validate and (unless `dryRun`) create each row as a task of the group. A bad row does
+ * not stop the others; its errors are reported instead.
+ */
+export const importTasks = async (
+  groupId: string,
+  rows: ImportRow[],
+  dryRun: boolean,
+  createdBy: string
+): Promise<ImportReport> => {
+  const lookups = await getLookups(groupId);
+  const results: ImportRowResult[] = [];
+
+  for (const [index, row] of rows.entries()) {
+    const { data, title, errors } = validateRow(row, groupId, lookups);
+
+    if (!data) {
+      results.push({ row: index + 1, status: 'failed', title, errors });
+      continue;
+    }
+
+    if (dryRun) {
+      results.push({ row: index + 1, status: 'valid', title });
+      continue;
+    }
+
+    try {
+      const task = await taskService.createTask(data, createdBy);
+      results.push({ row: index + 1, status: 'created', title, task_id: task.id });
+    } catch (error: any) {
+      results.push({ row: index + 1, status: 'failed', title, errors: [error.message || 'Failed to create task'] });
+    }
+  }
+
+  return summarize(dryRun, results);
+};
+
+/**
+ * Import another app's export into the group: its projects/lists become categories (created
+ * as needed), checklists become subtasks. A task and its subtasks are validated together, so
+ * a task is only created when all of its subtasks are valid too.
+ */
+export const importExternalTasks = async (
+  groupId: string,
+  source: ImportSource,
+  content: unknown,
+  dryRun: boolean,
+  createdBy: string
+): Promise<ExternalImportReport> => {
+  const external = parseExternalExport(source, content);
+
+  if (external.tasks.length === 0) {
+    throw new Error('The export has no open tasks to import');
+  }
+
+  if (external.tasks.length > MAX_IMPORT_ROWS) {
+    throw new Error(`At most ${MAX_IMPORT_ROWS} tasks can be imported at once`);
+  }
+
+  // Categories that do not exist yet resolve to placeholder IDs until every row is validated
+  const lookups = await getLookups(groupId);
+  const placeholders = new Map<string, string>();
+  for (const task of external.tasks) {
+    const name = typeof task.row.category === 'string' ? task.row.category.trim() : '';
+    if (name !== '' && !lookups.categoryIdsByName.has(name.toLowerCase())) {
+      const placeholderId = randomUUID();
+      lookups.categoryIdsByName.set(name.toLowerCase(), placeholderId);
+      placeholders.set(placeholderId, name);
+    }
+  }
+
+  const results: ImportRowResult[] = [];
+  const valid: { result: ImportRowResult; data: CreateTaskData; subtasks: CreateSubtaskData[] }[] = [];
+
+  for (const [index, task] of external.tasks.entries()) {
+    const { data, title, errors } = validateRow(task.row, groupId, lookups);
+
+    const subtasks: CreateSubtaskData[] = [];
+    for (const [subIndex, subtaskRow] of task.subtasks.entries()) {
+      const { input, errors: rowErrors } = normalizeImportRow(subtaskRow, groupId, lookups);
+      const parsed = createSubtaskSchema.safeParse(input);
+      errors.push(...rowErrors.map(error => `subtasks.${subIndex}.${error}`));
+      if (parsed.success) {
+        subtasks.push(parsed.data);
+      } else {
+        errors.push(...formatIssues(parsed.error.issues, `subtasks.${subIndex}.`));
+      }
+    }
+
+    const result: ImportRowResult = { row: index + 1, status: 'failed', title, subtasks: task.subtasks.length };
+    results.push(result);
+
+    if (!data || errors.length > 0) {
+      result.errors = errors;
+    } else {
+      valid.push({ result, data, subtasks });
+    }
+  }
+
+  // Only the categories that valid tasks go into are created, once nothing is left to validate
+  const usedPlaceholders = [...new Set(valid.flatMap(({ data, subtasks }) =>
+    [data.category_id, ...subtasks.map(subtask => subtask.category_id)]
+      .filter((id): id is string => id !== undefined && placeholders.has(id))
+  ))];
+  const newCategories = usedPlaceholders.map(id => placeholders.get(id)!);
+
+  if (dryRun) {
+    valid.forEach(({ result }) => { result.status = 'valid'; });
+  } else {
+    const categoryIds = new Map<string, string>();
+    for (const placeholderId of usedPlaceholders) {
+      const name = placeholders.get(placeholderId)!;
+      const category = await categoryService.createCategory(groupId, { name: name.slice(0, 50) }, createdBy);
+      categoryIds.set(placeholderId, category.id);
+    }
+    const resolve = <T extends { category_id?: string }>(input: T): T =>
+      input.category_id && categoryIds.has(input.category_id)
+        ? { ...input, category_id: categoryIds.get(input.category_id) }
+        : input;
+
+    for (const { result, data, subtasks } of valid) {
+      let createdId: string | null = null;
+      try {
+        createdId = (await taskService.createTask(resolve(data), createdBy)).id;
+        for (const subtask of subtasks) {
+          await taskService.createSubtask(createdId, resolve(subtask), createdBy);
+        }
+        result.status = 'created';
+        result.task_id = createdId;
+      } catch (error: any) {
+        // A failed row leaves nothing behind, so importing it again does not duplicate it
+        if (createdId) {
+          await taskService.deleteTask(createdId, createdBy)
+            .catch(deleteError => console.error('Remove partly imported task error:', deleteError));
+        }
+        result.errors = [error.message || 'Failed to create task'];
+      }
+    }
+  }
+
+  return {
+    ...summarize(dryRun, results),
+    source,
+    new_categories: newCategories,
+    warnings: external.warnings,
+  };
+};
@@ -0,0 +1,19 @@
+// Importers for other apps' export files
+import { parseTodoist } from './todoist';
+import { parseTrello } from './trello';
+import { parseMicrosoftTodo } from './microsoftTodo';
+import type { ExternalImport, ImportSource } from './types';
+
+export type { ExternalImport, ExternalTask, ImportSource } from './types';
+
+const IMPORTERS: Record<ImportSource, (content: unknown) => ExternalImport> = {
+  todoist: parseTodoist,
+  trello: parseTrello,
+  microsoft_todo: parseMicrosoftTodo,
+};
+
+/**
+ * Read an export file (as text, or already parsed JSON) of the given app
+ */
+export const parseExternalExport = (source: ImportSource, content: unknown): ExternalImport =>
+  IMPORTERS[source](content);
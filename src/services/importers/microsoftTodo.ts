@@ -0,0 +1,71 @@
+// Microsoft To Do importer
+// Reads lists and tasks in the Microsoft Graph shape ({ lists: [{ displayName, tasks }] }, a bare
+// list array, or one list's { value: [...] }). Lists become categories, categories become tags
+// and open checklist steps become subtasks; completed tasks are left out.
+import type { ImportRow } from '../../utils/taskImport';
+import type { ExternalImport, ExternalTask } from './types';
+import { parseJson, toDueDate, toTags } from './shared';
+
+const IMPORTANCE: Record<string, string> = { low: 'Low', normal: 'Medium', high: 'High' };
+
+// Task notes may be HTML
+const toText = (body: any): string | undefined => {
+  const content = typeof body?.content === 'string' ? body.content : '';
+  const text = body?.contentType === 'html'
+    ? content.replace(/<br\s*\/?>/gi, '\n').replace(/<[^>]*>/g, '').replace(/&nbsp;/g, ' ')
+    : content;
+  return text.trim() || undefined;
+};
+
+export const parseMicrosoftTodo = (content: unknown): ExternalImport => {
+  const data = parseJson(content, 'Microsoft To Do');
+  const lists: any[] | undefined = Array.isArray(data)
+    ? data
+    : Array.isArray(data?.lists)
+      ? data.lists
+      : Array.isArray(data?.value)
+        ? [{ tasks: data.value }]
+        : undefined;
+
+  if (!lists || lists.some(list => !Array.isArray(list?.tasks))) {
+    throw new Error('Invalid Microsoft To Do export: expected lists with tasks');
+  }
+
+  const warnings: string[] = [];
+  const tasks: ExternalTask[] = [];
+
+  for (const list of lists) {
+    for (const task of list.tasks.filter((task: any) => task.status !== 'completed')) {
+      const title = String(task.title ?? '').trim();
+
+      if (task.recurrence) {
+        warnings.push(`"${title}": recurrence was not imported`);
+      }
+
+      // To Do due dates are whole days, sent as midnight in the list's time zone
+      const dueDate = typeof task.dueDateTime?.dateTime === 'string'
+        ? task.dueDateTime.dateTime.slice(0, 10)
+        : undefined;
+
+      const row: ImportRow = {
+        title,
+        description: toText(task.body),
+        priority: IMPORTANCE[task.importance] ?? 'Medium',
+        due_date: toDueDate(dueDate, title, warnings),
+        tags: toTags(Array.isArray(task.categories) ? task.categories.map(String) : []),
+        category: list.displayName || undefined,
+      };
+
+      const subtasks = (Array.isArray(task.checklistItems) ? task.checklistItems : [])
+        .filter((item: any) => !item.isChecked)
+        .map((item: any): ImportRow => ({
+          title: String(item.displayName ?? '').trim(),
+          priority: row.priority,
+        }));
+
+      tasks.push({ row, subtasks });
+    }
+  }
+
+  return { source: 'microsoft_todo', tasks, warnings };
+};
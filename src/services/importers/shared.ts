@@ -0,0 +1,39 @@
+// Helpers shared by the importers
+
+// Our tags are lowercase, at most 30 characters and free of commas
+export const toTag = (name: string): string | null => {
+  const tag = name.replace(/,/g, ' ').replace(/\s+/g, ' ').trim().toLowerCase().slice(0, 30).trim();
+  return tag || null;
+};
+
+export const toTags = (names: string[]): string[] =>
+  [...new Set(names.map(toTag).filter((tag): tag is string => tag !== null))];
+
+/**
+ * A due date our API accepts: bare dates stay dates, anything else with a time becomes
+ * ISO 8601 UTC. Dates in words ("every monday") cannot be read and are reported instead.
+ */
+export const toDueDate = (value: string | null | undefined, title: string, warnings: string[]): string | undefined => {
+  if (!value || !value.trim()) return undefined;
+
+  const text = value.trim();
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) return text;
+
+  const date = new Date(text);
+  if (Number.isNaN(date.getTime())) {
+    warnings.push(`"${title}": could not read due date "${text}"`);
+    return undefined;
+  }
+
+  return date.toISOString();
+};
+
+export const parseJson = (content: unknown, sourceName: string): any => {
+  if (typeof content !== 'string') return content;
+
+  try {
+    return JSON.parse(content);
+  } catch {
+    throw new Error(`Invalid ${sourceName} export: not valid JSON`);
+  }
+};
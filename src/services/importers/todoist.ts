@@ -0,0 +1,131 @@
+// Todoist importer
+// Reads a Todoist backup (sync JSON with projects/items, or a plain task list) or a project CSV
+// export. Projects (or CSV sections) become categories, labels become tags and sub-tasks become
+// subtasks of their top-level task; completed and deleted tasks are left out.
+import { parseCsv } from '../../utils/csv';
+import type { ImportRow } from '../../utils/taskImport';
+import type { ExternalImport, ExternalTask } from './types';
+import { parseJson, toDueDate, toTags } from './shared';
+
+// Todoist's API counts priority backwards: 4 is p1. p4 is the unset default, so it maps to ours.
+const API_PRIORITIES: Record<number, string> = { 4: 'High', 3: 'Medium', 2: 'Low', 1: 'Medium' };
+
+// CSV exports use the numbers shown in the app: 1 is p1
+const CSV_PRIORITIES: Record<number, string> = { 1: 'High', 2: 'Medium', 3: 'Low', 4: 'Medium' };
+
+// Time blocks given in minutes become estimates
+const toEstimate = (amount: unknown, unit: unknown): number | undefined =>
+  unit === 'minute' && typeof amount === 'number' ? amount : undefined;
+
+const parseTodoistJson = (content: unknown): ExternalImport => {
+  const backup = parseJson(content, 'Todoist');
+  const items: any[] | undefined = Array.isArray(backup) ? backup : backup?.items ?? backup?.tasks;
+
+  if (!Array.isArray(items)) {
+    throw new Error('Invalid Todoist export: expected a backup with items or a list of tasks');
+  }
+
+  const projects = new Map<string, string>(
+    (Array.isArray(backup?.projects) ? backup.projects : []).map((project: any) => [String(project.id), project.name])
+  );
+  const byId = new Map<string, any>(items.map(item => [String(item.id), item]));
+  const warnings: string[] = [];
+
+  const isOpen = (item: any) => !item.checked && !item.is_deleted && !item.completed_at && !item.is_completed;
+
+  // Subtasks of subtasks are attached to their top-level task
+  const topLevelOf = (item: any): any => {
+    let current = item;
+    const seen = new Set<string>();
+    while (current.parent_id && byId.has(String(current.parent_id)) && !seen.has(String(current.id))) {
+      seen.add(String(current.id));
+      current = byId.get(String(current.parent_id));
+    }
+    return current;
+  };
+
+  const toRow = (item: any): ImportRow => {
+    const title = String(item.content ?? '').trim();
+    if (item.due?.is_recurring) {
+      warnings.push(`"${title}": recurrence "${item.due.string}" was not imported`);
+    }
+
+    return {
+      title,
+      description: item.description || undefined,
+      priority: API_PRIORITIES[item.priority] ?? 'Medium',
+      due_date: toDueDate(item.due?.datetime ?? item.due?.date, title, warnings),
+      estimated_minutes: toEstimate(item.duration?.amount, item.duration?.unit),
+      tags: toTags(Array.isArray(item.labels) ? item.labels.map(String) : []),
+      category: projects.get(String(item.project_id)),
+    };
+  };
+
+  const tasks = new Map<string, ExternalTask>();
+  for (const item of items.filter(item => !item.parent_id || !byId.has(String(item.parent_id)))) {
+    if (isOpen(item)) {
+      tasks.set(String(item.id), { row: toRow(item), subtasks: [] });
+    }
+  }
+
+  for (const item of items.filter(item => item.parent_id && byId.has(String(item.parent_id)))) {
+    const parent = tasks.get(String(topLevelOf(item).id));
+    if (parent && isOpen(item)) {
+      const { category, ...row } = toRow(item);
+      parent.subtasks.push(row);
+    }
+  }
+
+  return { source: 'todoist', tasks: [...tasks.values()], warnings };
+};
+
+const parseTodoistCsv = (content: string): ExternalImport => {
+  const rows = parseCsv(content);
+  if (rows.length > 0 && !('CONTENT' in rows[0] && 'TYPE' in rows[0])) {
+    throw new Error('Invalid Todoist export: expected TYPE and CONTENT columns');
+  }
+
+  const warnings: string[] = [];
+  const tasks: ExternalTask[] = [];
+  let section: string | undefined;
+
+  for (const row of rows) {
+    const type = row.TYPE?.trim().toLowerCase();
+
+    if (type === 'section') {
+      section = row.CONTENT.trim() || undefined;
+      continue;
+    }
+    if (type !== 'task') continue;
+
+    // Labels are written inline: "Buy milk @errands"
+    const labels = [...row.CONTENT.matchAll(/(?:^|\s)@([^\s@]+)/g)].map(match => match[1]);
+    const title = row.CONTENT.replace(/(?:^|\s)@[^\s@]+/g, '').trim();
+    const duration = Number(row.DURATION);
+
+    const taskRow: ImportRow = {
+      title,
+      description: row.DESCRIPTION || undefined,
+      priority: CSV_PRIORITIES[Number(row.PRIORITY)] ?? 'Medium',
+      due_date: toDueDate(row.DATE, title, warnings),
+      estimated_minutes: toEstimate(Number.isFinite(duration) && duration > 0 ? duration : undefined, row.DURATION_UNIT),
+      tags: toTags(labels),
+      category: section,
+    };
+
+    const parent = tasks[tasks.length - 1];
+    if (Number(row.INDENT) > 1 && parent) {
+      const { category, ...subtask } = taskRow;
+      parent.subtasks.push(subtask);
+    } else {
+      tasks.push({ row: taskRow, subtasks: [] });
+    }
+  }
+
+  return { source: 'todoist', tasks, warnings };
+};
+
+export const parseTodoist = (content: unknown): ExternalImport =>
+  typeof content === 'string' && !/^\s*[[{]/.test(content)
+    ? parseTodoistCsv(content)
+    : parseTodoistJson(content);
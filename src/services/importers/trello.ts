@@ -0,0 +1,56 @@
+// Trello importer
+// Reads a board exported as JSON. The board is the project, so its name becomes the category;
+// list names and labels become tags and open checklist items become subtasks. Archived cards
+// and lists and cards marked done are left out.
+import type { ImportRow } from '../../utils/taskImport';
+import type { ExternalImport, ExternalTask } from './types';
+import { parseJson, toDueDate, toTags } from './shared';
+
+export const parseTrello = (content: unknown): ExternalImport => {
+  const board = parseJson(content, 'Trello');
+
+  if (!board || !Array.isArray(board.cards) || !Array.isArray(board.lists)) {
+    throw new Error('Invalid Trello export: expected a board with lists and cards');
+  }
+
+  const lists = new Map<string, any>(board.lists.map((list: any) => [list.id, list]));
+  const checklists: any[] = Array.isArray(board.checklists) ? board.checklists : [];
+  const warnings: string[] = [];
+  const tasks: ExternalTask[] = [];
+
+  const cards = board.cards
+    .filter((card: any) => !card.closed && !card.dueComplete && !lists.get(card.idList)?.closed)
+    .sort((a: any, b: any) => (a.pos ?? 0) - (b.pos ?? 0));
+
+  for (const card of cards) {
+    const title = String(card.name ?? '').trim();
+    const list = lists.get(card.idList);
+    // Unnamed labels are known by their colour
+    const labels = (Array.isArray(card.labels) ? card.labels : []).map((label: any) => label.name || label.color || '');
+
+    const row: ImportRow = {
+      title,
+      description: card.desc || undefined,
+      priority: 'Medium',
+      due_date: toDueDate(card.due, title, warnings),
+      tags: toTags([...(list ? [list.name] : []), ...labels]),
+      category: board.name || undefined,
+    };
+
+    const subtasks = checklists
+      .filter(checklist => checklist.idCard === card.id)
+      .sort((a, b) => (a.pos ?? 0) - (b.pos ?? 0))
+      .flatMap(checklist => (Array.isArray(checklist.checkItems) ? checklist.checkItems : [])
+        .filter((item: any) => item.state !== 'complete')
+        .sort((a: any, b: any) => (a.pos ?? 0) - (b.pos ?? 0)))
+      .map((item: any): ImportRow => ({
+        title: String(item.name ?? '').trim(),
+        priority: 'Medium',
+        due_date: toDueDate(item.due, String(item.name ?? ''), warnings),
+      }));
+
+    tasks.push({ row, subtasks });
+  }
+
+  return { source: 'trello', tasks, warnings };
+};
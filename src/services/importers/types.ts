@@ -0,0 +1,17 @@
+// Contract of the importers for other apps' export files
+import type { ImportRow } from '../../utils/taskImport';
+
+export type ImportSource = 'todoist' | 'trello' | 'microsoft_todo';
+
+// A task read from an export: import row fields (see utils/taskImport) plus its checklist
+export interface ExternalTask {
+  row: ImportRow;
+  subtasks: ImportRow[];
+}
+
+export interface ExternalImport {
+  source: ImportSource;
+  tasks: ExternalTask[];
+  // Data that could not be carried over (recurrence in words, unreadable dates, ...)
+  warnings: string[];
+}
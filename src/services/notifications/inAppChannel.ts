@@ -0,0 +1,23 @@
+// In-app channel: notifications land in the member's inbox (the notifications table)
+import { supabase } from '../../config/supabase';
+import type { Notification, NotificationChannel, NotificationRecipient } from './types';
+
+export class InAppChannel implements NotificationChannel {
+  readonly name = 'in_app';
+
+  async send(recipient: NotificationRecipient, notification: Notification): Promise<void> {
+    const { error } = await supabase
+      .from('notifications')
+      .insert({
+        member_id: recipient.id,
+        task_id: notification.task_id ?? null,
+        type: notification.type,
+        title: notification.title,
+        body: notification.body,
+      });
+
+    if (error) {
+      throw new Error(`Failed to store notification: ${error.message}`);
+    }
+  }
+}
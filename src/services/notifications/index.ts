@@ -0,0 +1,76 @@
+// Notification channel selection
+import { notificationConfig } from '../../config/notifications';
+import { InAppChannel } from './inAppChannel';
+import { WebhookChannel } from './webhookChannel';
+import { TestChannel } from './testChannel';
+import type { Notification, NotificationChannel, NotificationRecipient } from './types';
+
+export type { Notification, NotificationChannel, NotificationRecipient } from './types';
+export { InAppChannel } from './inAppChannel';
+export { WebhookChannel } from './webhookChannel';
+export { TestChannel } from './testChannel';
+export type { SentNotification } from './testChannel';
+
+let channels: Map<string, NotificationChannel> | null = null;
+
+const createChannels = (): Map<string, NotificationChannel> => {
+  const configured = new Map<string, NotificationChannel>([['in_app', new InAppChannel()]]);
+
+  if (notificationConfig.emailWebhookUrl) {
+    configured.set('email', new WebhookChannel('email', notificationConfig.emailWebhookUrl));
+  } else if (notificationConfig.useTestChannel) {
+    configured.set('email', new TestChannel('email'));
+  }
+
+  if (notificationConfig.pushWebhookUrl) {
+    configured.set('push', new WebhookChannel('push', notificationConfig.pushWebhookUrl));
+  } else if (notificationConfig.useTestChannel) {
+    configured.set('push', new TestChannel('push'));
+  }
+
+  return configured;
+};
+
+// Channel by name, or undefined when it is not configured
+export const getNotificationChannel = (name: string): NotificationChannel | undefined => {
+  if (!channels) {
+    channels = createChannels();
+  }
+
+  return channels.get(name);
+};
+
+// Swap a channel, e.g. for tests
+export const setNotificationChannel = (channel: NotificationChannel): void => {
+  if (!channels) {
+    channels = createChannels();
+  }
+
+  channels.set(channel.name, channel);
+};
+
+/**
+ * Send a notification through each of the named channels that is configured. A failing
+ * channel does not stop the others; returns the channels that delivered it.
+ */
+export const sendNotification = async (
+  recipient: NotificationRecipient,
+  channelNames: string[],
+  notification: Notification
+): Promise<string[]> => {
+  const delivered: string[] = [];
+
+  for (const name of channelNames) {
+    const channel = getNotificationChannel(name);
+    if (!channel) continue;
+
+    try {
+      await channel.send(recipient, notification);
+      delivered.push(name);
+    } catch (error) {
+      console.error(`Notification delivery error (${name}):`, error);
+    }
+  }
+
+  return delivered;
+};
@@ -0,0 +1,28 @@
+// Local test channel (development and tests)
+// Keeps what it was asked to send in memory and logs it instead of contacting anyone
+import type { Notification, NotificationChannel, NotificationRecipient } from './types';
+
+export interface SentNotification {
+  channel: string;
+  recipient: NotificationRecipient;
+  notification: Notification;
+  sent_at: string;
+}
+
+export class TestChannel implements NotificationChannel {
+  readonly sent: SentNotification[] = [];
+
+  constructor(readonly name: string = 'test', private readonly log: boolean = true) {}
+
+  async send(recipient: NotificationRecipient, notification: Notification): Promise<void> {
+    this.sent.push({ channel: this.name, recipient, notification, sent_at: new Date().toISOString() });
+
+    if (this.log) {
+      console.log(`[${this.name}] to ${recipient.email}: ${notification.title}`);
+    }
+  }
+
+  clear(): void {
+    this.sent.length = 0;
+  }
+}
@@ -0,0 +1,21 @@
+// Notification channel contract shared by the in-app, email, push and test channels
+
+export interface NotificationRecipient {
+  id: string;
+  name: string | null;
+  email: string;
+}
+
+export interface Notification {
+  type: string;
+  title: string;
+  body: string;
+  task_id?: string;
+}
+
+export interface NotificationChannel {
+  readonly name: string;
+
+  // Deliver one notification; throws when delivery fails
+  send(recipient: NotificationRecipient, notification: Notification): Promise<void>;
+}
@@ -0,0 +1,35 @@
+// Email and push channels
+// Both hand the notification to a delivery service (mail relay, push gateway) as a JSON POST,
+// signed with an HMAC of the body when a secret is configured.
+import crypto from 'crypto';
+import { notificationConfig } from '../../config/notifications';
+import type { Notification, NotificationChannel, NotificationRecipient } from './types';
+
+export class WebhookChannel implements NotificationChannel {
+  constructor(
+    readonly name: 'email' | 'push',
+    private readonly url: string,
+    private readonly secret: string = notificationConfig.webhookSecret
+  ) {}
+
+  async send(recipient: NotificationRecipient, notification: Notification): Promise<void> {
+    const body = JSON.stringify({
+      channel: this.name,
+      // Push gateways look up the member's devices; mail relays need the address
+      to: this.name === 'email' ? recipient.email : recipient.id,
+      member_id: recipient.id,
+      ...notification,
+    });
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.secret) {
+      headers['X-Signature'] = crypto.createHmac('sha256', this.secret).update(body).digest('hex');
+    }
+
+    const response = await fetch(this.url, { method: 'POST', headers, body });
+
+    if (!response.ok) {
+      throw new Error(`${this.name} delivery failed with status ${response.status}`);
+    }
+  }
+}
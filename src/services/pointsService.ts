@@ -0,0 +1,381 @@
+// Points Service
+// Awards points for completed tasks to the group's points ledger, takes them back when a task
+// is reopened, and builds leaderboards and streaks from the ledger.
+import { supabase } from '../config/supabase';
+import type { Task } from './taskService';
+import { computeStreaks, taskPoints } from '../utils/points';
+import { getLocalTime } from '../utils/reminders';
+import { isValidTimeZone } from '../utils/ical';
+import { weekStart } from '../utils/workload';
+import type { LeaderboardQuery, PointsAdjustmentData, PointsLedgerQuery } from '../validators/pointsValidator';
+
+// Streaks (current and longest) look back this far
+const STREAK_LOOKBACK_DAYS = 366;
+
+// Ledger rows are read in pages of this size
+const PAGE_SIZE = 1000;
+
+export type PointsReason = 'task_completed' | 'task_reopened' | 'adjustment' | 'redemption';
+
+export interface PointsEntry {
+  id: string;
+  group_id: string;
+  member_id: string;
+  task_id: string | null;
+  points: number;
+  reason: PointsReason;
+  note: string | null;
+  created_by: string | null;
+  reverses_entry_id: string | null;
+  // Numbers a task's awards (0 for its first completion); one award per number
+  award_seq: number | null;
+  created_at: string;
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  member_id: string;
+  name: string | null;
+  avatar_url: string | null;
+  points: number;
+  tasks_completed: number;
+  current_streak: number;
+  longest_streak: number;
+}
+
+export interface Leaderboard {
+  window: LeaderboardQuery['window'];
+  since: string | null;
+  entries: LeaderboardEntry[];
+}
+
+// How many times the task has been awarded, and the award that has not been reversed, if any
+const getAwards = async (taskId: string): Promise<{ count: number; active: PointsEntry | null }> => {
+  const { data, error } = await supabase
+    .from('points_ledger')
+    .select('*')
+    .eq('task_id', taskId)
+    .in('reason', ['task_completed', 'task_reopened']);
+
+  if (error) {
+    throw new Error(`Failed to fetch points: ${error.message}`);
+  }
+
+  const entries: PointsEntry[] = data || [];
+  const reversed = new Set(entries.map(entry => entry.reverses_entry_id).filter(Boolean));
+  const awards = entries.filter(entry => entry.reason === 'task_completed');
+
+  return {
+    count: awards.length,
+    active: awards.find(award => !reversed.has(award.id)) ?? null,
+  };
+};
+
+const getCategoryPoints = async (categoryId: string | null): Promise<number | null> => {
+  if (!categoryId) return null;
+
+  const { data } = await supabase
+    .from('categories')
+    .select('points')
+    .eq('id', categoryId)
+    .maybeSingle();
+
+  return data?.points ?? null;
+};
+
+const insertEntry = async (entry: Omit<PointsEntry, 'id' | 'created_at'>): Promise<PointsEntry> => {
+  const { data, error } = await supabase
+    .from('points_ledger')
+    .insert({ ...entry, created_at: new Date().toISOString() })
+    .select()
+    .single();
+
+  if (error) {
+    // Unique indexes allow one award per completion and one reversal per entry
+    if (error.code === '23505') {
+      throw new Error('Points were already recorded for this change');
+    }
+    throw new Error(`Failed to record points: ${error.message}`);
+  }
+
+  return data;
+};
+
+/**
+ * Award or take back points after a task changed: completing it credits the assignee (or,
+ * for an unassigned task, whoever submitted it for approval or else completed it), reopening
+ * it reverses that award. Failures are logged, never thrown, so the task change itself
+ * still succeeds.
+ */
+export const syncTaskPoints = async (
+  before: Pick<Task, 'status'>,
+  after: Task,
+  actorId: string | null
+): Promise<void> => {
+  const completed = before.status !== 'completed' && after.status === 'completed';
+  const reopened = before.status === 'completed' && after.status !== 'completed';
+  if (!completed && !reopened) return;
+
+  try {
+    const { count, active: award } = await getAwards(after.id);
+
+    if (completed && !award) {
+      // The actor of an approved completion is the reviewer, not the member who did the task
+      const memberId = after.assigned_to ?? after.submitted_by ?? actorId;
+      if (!memberId) return;
+
+      await insertEntry({
+        group_id: after.group_id,
+        member_id: memberId,
+        task_id: after.id,
+        points: taskPoints(after, await getCategoryPoints(after.category_id)),
+        reason: 'task_completed',
+        note: after.title,
+        created_by: actorId,
+        reverses_entry_id: null,
+        // Another path awarding this same completion concurrently gets the same number
+        award_seq: count,
+      });
+    } else if (reopened && award) {
+      await insertEntry({
+        group_id: award.group_id,
+        member_id: award.member_id,
+        task_id: after.id,
+        points: -award.points,
+        reason: 'task_reopened',
+        note: after.title,
+        created_by: actorId,
+        reverses_entry_id: award.id,
+        award_seq: null,
+      });
+    }
+  } catch (error) {
+    console.error('Sync task points error:', error);
+  }
+};
+
+const assertActiveMember = async (groupId: string, memberId: string): Promise<void> => {
+  const { data } = await supabase
+    .from('group_memberships')
+    .select('id')
+    .eq('group_id', groupId)
+    .eq('member_id', memberId)
+    .eq('status', 'active')
+    .maybeSingle();
+
+  if (!data) {
+    throw new Error('Member not found in this group');
+  }
+};
+
+export const adjustPoints = async (
+  groupId: string,
+  adjustment: PointsAdjustmentData,
+  adminId: string
+): Promise<PointsEntry> => {
+  await assertActiveMember(groupId, adjustment.member_id);
+
+  return insertEntry({
+    group_id: groupId,
+    member_id: adjustment.member_id,
+    task_id: null,
+    points: adjustment.points,
+    reason: 'adjustment',
+    note: adjustment.note,
+    created_by: adminId,
+    reverses_entry_id: null,
+    award_seq: null,
+  });
+};
+
+/**
+ * Spend points on an approved reward redemption. The balance check and the ledger entry
+ * happen in one transaction (see the spend_points function), so a balance cannot go
+ * negative through concurrent approvals.
+ */
+export const spendPoints = async (
+  groupId: string,
+  memberId: string,
+  points: number,
+  note: string,
+  adminId: string
+): Promise<PointsEntry> => {
+  const { data, error } = await supabase.rpc('spend_points', {
+    p_group_id: groupId,
+    p_member_id: memberId,
+    p_points: points,
+    p_note: note,
+    p_created_by: adminId,
+  });
+
+  if (error) {
+    console.error('Spend points error:', error);
+    // P0001: raised by spend_points when the balance is too low
+    throw new Error(error.code === 'P0001' ? error.message : `Failed to record points: ${error.message}`);
+  }
+
+  return data;
+};
+
+// Give back points spent on a redemption that did not go through
+export const refundPoints = async (spend: PointsEntry, adminId: string): Promise<PointsEntry> =>
+  insertEntry({
+    group_id: spend.group_id,
+    member_id: spend.member_id,
+    task_id: null,
+    points: -spend.points,
+    reason: 'redemption',
+    note: spend.note,
+    created_by: adminId,
+    reverses_entry_id: spend.id,
+    award_seq: null,
+  });
+
+// A member's all-time points in the group
+export const getBalance = async (groupId: string, memberId: string): Promise<number> => {
+  let balance = 0;
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('points_ledger')
+      .select('points')
+      .eq('group_id', groupId)
+      .eq('member_id', memberId)
+      .order('id', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('Get points balance error:', error);
+      throw new Error(`Failed to fetch points balance: ${error.message}`);
+    }
+
+    balance += (data || []).reduce((sum, entry) => sum + entry.points, 0);
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return balance;
+};
+
+export const getLedger = async (
+  groupId: string,
+  query: PointsLedgerQuery
+): Promise<{ entries: PointsEntry[]; total: number }> => {
+  let request = supabase
+    .from('points_ledger')
+    .select('*', { count: 'exact' })
+    .eq('group_id', groupId);
+
+  if (query.member_id) {
+    request = request.eq('member_id', query.member_id);
+  }
+
+  const { data, error, count } = await request
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .range(query.offset, query.offset + query.limit - 1);
+
+  if (error) {
+    console.error('Get points ledger error:', error);
+    throw new Error(`Failed to fetch points ledger: ${error.message}`);
+  }
+
+  return { entries: data || [], total: count || 0 };
+};
+
+const getLedgerSince = async (groupId: string, since: Date | null): Promise<PointsEntry[]> => {
+  const entries: PointsEntry[] = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    let query = supabase
+      .from('points_ledger')
+      .select('*')
+      .eq('group_id', groupId);
+
+    if (since) {
+      query = query.gte('created_at', since.toISOString());
+    }
+
+    const { data, error } = await query
+      .order('id', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('Get points ledger error:', error);
+      throw new Error(`Failed to fetch points ledger: ${error.message}`);
+    }
+
+    entries.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return entries;
+};
+
+/**
+ * Rank the group's active members by points in the window, with their streaks. Streaks
+ * count days in each member's own time zone.
+ */
+export const getLeaderboard = async (groupId: string, query: LeaderboardQuery, now: Date = new Date()): Promise<Leaderboard> => {
+  const { data: memberships, error } = await supabase
+    .from('group_memberships')
+    .select(`
+      member_id,
+      members (
+        id,
+        name,
+        avatar_url,
+        timezone
+      )
+    `)
+    .eq('group_id', groupId)
+    .eq('status', 'active');
+
+  if (error) {
+    console.error('Get leaderboard members error:', error);
+    throw new Error(`Failed to fetch group members: ${error.message}`);
+  }
+
+  const since = query.window === 'week' ? weekStart(now) : null;
+  const lookback = new Date(now.getTime() - STREAK_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+  // The weekly board still needs the past year for streaks
+  const entries = await getLedgerSince(groupId, query.window === 'all' ? null : lookback);
+
+  const reversed = new Set(entries.map(entry => entry.reverses_entry_id).filter(Boolean));
+  const inWindow = (entry: PointsEntry) => !since || new Date(entry.created_at) >= since;
+
+  const rows = (memberships || []).map((membership: any) => {
+    const member = membership.members || {};
+    const timeZone = member.timezone && isValidTimeZone(member.timezone) ? member.timezone : 'UTC';
+    const own = entries.filter(entry => entry.member_id === membership.member_id);
+
+    const completions = own.filter(entry => entry.reason === 'task_completed' && !reversed.has(entry.id));
+    const streaks = computeStreaks(
+      completions
+        .filter(entry => new Date(entry.created_at) >= lookback)
+        .map(entry => getLocalTime(new Date(entry.created_at), timeZone).date),
+      getLocalTime(now, timeZone).date
+    );
+
+    return {
+      member_id: membership.member_id,
+      name: member.name ?? null,
+      avatar_url: member.avatar_url ?? null,
+      points: own.filter(inWindow).reduce((sum, entry) => sum + entry.points, 0),
+      tasks_completed: completions.filter(inWindow).length,
+      current_streak: streaks.current,
+      longest_streak: streaks.longest,
+    };
+  });
+
+  rows.sort((a, b) => b.points - a.points || b.tasks_completed - a.tasks_completed || a.member_id.localeCompare(b.member_id));
+
+  // Members with the same points share a rank
+  const ranked = rows.map((row, index) => ({ rank: index + 1, ...row }));
+  for (let index = 1; index < ranked.length; index++) {
+    if (ranked[index].points === ranked[index - 1].points) {
+      ranked[index].rank = ranked[index - 1].rank;
+    }
+  }
+
+  return { window: query.window, since: since ? since.toISOString() : null, entries: ranked };
+};
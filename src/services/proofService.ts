@@ -0,0 +1,57 @@
+// Proof Service
+// Photos taken as proof of completion. A proof is an ordinary task attachment, marked in its
+// metadata, that the task points to while the completion stands.
+import { supabase } from '../config/supabase';
+import * as attachmentService from './attachmentService';
+import type { Task } from './taskService';
+import type { TaskAttachment, TaskAttachmentWithUrl, UploadedFile } from './attachmentService';
+
+export const PROOF_PURPOSE = 'completion_proof';
+
+// A task needs a photo to be completed when it or its category asks for one
+export const requiresProof = async (task: Pick<Task, 'requires_proof' | 'category_id'>): Promise<boolean> => {
+  if (task.requires_proof) return true;
+  if (!task.category_id) return false;
+
+  const { data: category } = await supabase
+    .from('categories')
+    .select('requires_proof')
+    .eq('id', task.category_id)
+    .maybeSingle();
+
+  return Boolean(category?.requires_proof);
+};
+
+// Store the photo sent with a completion; only the allowed image types are accepted
+export const uploadProof = async (
+  taskId: string,
+  file: UploadedFile,
+  uploadedBy: string
+): Promise<TaskAttachmentWithUrl> =>
+  attachmentService.uploadAttachment(taskId, file, uploadedBy, { purpose: PROOF_PURPOSE });
+
+// Remove a proof whose completion did not go through. Failures are logged, never thrown.
+export const discardProof = async (proof: TaskAttachment): Promise<void> => {
+  try {
+    await attachmentService.deleteAttachment(proof.task_id, proof.id, proof.uploaded_by);
+  } catch (error) {
+    console.error('Discard proof error:', error);
+  }
+};
+
+// The current proof of each task that has one, keyed by task id
+export const getProofs = async (
+  tasks: Pick<Task, 'id' | 'proof_attachment_id'>[]
+): Promise<Map<string, TaskAttachmentWithUrl>> => {
+  const proofs = await Promise.all(
+    tasks
+      .filter(task => task.proof_attachment_id)
+      .map(task => attachmentService.getAttachment(task.id, task.proof_attachment_id!))
+  );
+
+  return new Map(
+    proofs
+      .filter((proof): proof is TaskAttachmentWithUrl => proof !== null)
+      .map(proof => [proof.task_id, proof])
+  );
+};
@@ -0,0 +1,330 @@
+// Recurring Task Service
+// A series holds the shared template for a recurring task; each occurrence is a row in tasks
+import { supabase } from '../config/supabase';
+import { parseRecurrenceRule, getNextOccurrence } from '../utils/recurrence';
+import { isValidTimeZone } from '../utils/ical';
+import * as taskService from './taskService';
+import type { Task } from './taskService';
+import type { CreateTaskData, UpdateTaskData } from '../validators/taskValidator';
+
+export interface TaskSeries {
+  id: string;
+  group_id: string;
+  created_by: string;
+  title: string;
+  description: string;
+  category_id: string | null;
+  priority: string;
+  urgent: boolean;
+  estimated_minutes: number | null;
+  assigned_to: string | null;
+  tags: string[];
+  requires_proof: boolean;
+  auto_complete_on_subtasks: boolean;
+  recurring_pattern: string;
+  recurring_until: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Fields that belong to the series rather than to a single occurrence
+export const SERIES_FIELDS = [
+  'title',
+  'description',
+  'category_id',
+  'priority',
+  'urgent',
+  'estimated_minutes',
+  'assigned_to',
+  'tags',
+  'requires_proof',
+  'auto_complete_on_subtasks',
+  'recurring_pattern',
+  'recurring_until',
+] as const;
+
+type SeriesField = typeof SERIES_FIELDS[number];
+
+/**
+ * Split an update into its series-level and occurrence-level parts
+ */
+export const splitSeriesUpdates = (updates: UpdateTaskData) => {
+  const seriesUpdates: Partial<Pick<UpdateTaskData, SeriesField>> = {};
+  const occurrenceUpdates: UpdateTaskData = {};
+
+  for (const [key, value] of Object.entries(updates)) {
+    if ((SERIES_FIELDS as readonly string[]).includes(key)) {
+      (seriesUpdates as any)[key] = value;
+    } else {
+      (occurrenceUpdates as any)[key] = value;
+    }
+  }
+
+  return { seriesUpdates, occurrenceUpdates };
+};
+
+/**
+ * Create the series template for a new recurring task
+ */
+export const createSeries = async (taskData: CreateTaskData, createdBy: string): Promise<TaskSeries> => {
+  const { data, error } = await supabase
+    .from('task_series')
+    .insert({
+      group_id: taskData.group_id,
+      created_by: createdBy,
+      title: taskData.title,
+      description: taskData.description,
+      category_id: taskData.category_id ?? null,
+      priority: taskData.priority,
+      urgent: taskData.urgent,
+      estimated_minutes: taskData.estimated_minutes ?? null,
+      assigned_to: taskData.assigned_to ?? null,
+      tags: taskData.tags ?? [],
+      requires_proof: taskData.requires_proof ?? false,
+      auto_complete_on_subtasks: taskData.auto_complete_on_subtasks ?? false,
+      recurring_pattern: taskData.recurring_pattern,
+      recurring_until: taskData.recurring_until ?? null,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Create task series error:', error);
+    throw new Error(`Failed to create task series: ${error.message}`);
+  }
+
+  return data;
+};
+
+// Remove a series that never got its first occurrence; failing to do so is only logged
+export const deleteSeries = async (seriesId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('task_series')
+    .delete()
+    .eq('id', seriesId);
+
+  if (error) {
+    console.error('Delete task series error:', error);
+  }
+};
+
+/**
+ * Turn an existing one-off task into the first occurrence of a new series
+ */
+export const convertToSeries = async (
+  task: Task,
+  recurringPattern: string,
+  recurringUntil: string | null
+): Promise<TaskSeries> => {
+  const series = await createSeries(
+    {
+      title: task.title,
+      description: task.description,
+      category_id: task.category_id ?? undefined,
+      priority: task.priority as CreateTaskData['priority'],
+      urgent: task.urgent,
+      group_id: task.group_id,
+      estimated_minutes: task.estimated_minutes ?? undefined,
+      assigned_to: task.assigned_to ?? undefined,
+      tags: task.tags ?? [],
+      requires_proof: task.requires_proof,
+      auto_complete_on_subtasks: task.auto_complete_on_subtasks,
+      recurring_pattern: recurringPattern,
+      recurring_until: recurringUntil ?? undefined,
+    },
+    task.created_by
+  );
+
+  const { error } = await supabase
+    .from('tasks')
+    .update({
+      series_id: series.id,
+      occurrence_date: task.due_date || task.created_at,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', task.id);
+
+  if (error) {
+    console.error('Convert task to series error:', error);
+    throw new Error(`Failed to convert task to series: ${error.message}`);
+  }
+
+  return series;
+};
+
+export const getSeriesById = async (seriesId: string): Promise<TaskSeries | null> => {
+  const { data, error } = await supabase
+    .from('task_series')
+    .select('*')
+    .eq('id', seriesId)
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') {
+      return null;
+    }
+    console.error('Get task series error:', error);
+    throw new Error(`Failed to fetch task series: ${error.message}`);
+  }
+
+  return data;
+};
+
+// Check a series-level update before anything is written
+export const assertSeriesUpdates = (updates: Partial<Pick<UpdateTaskData, SeriesField>>): void => {
+  if (updates.recurring_pattern === null) {
+    throw new Error('Recurrence cannot be removed from a series; set recurring_until to end it instead');
+  }
+};
+
+/**
+ * Apply series-level changes to the template and to every open occurrence.
+ * Completed and cancelled occurrences keep their historical values.
+ */
+export const updateSeries = async (
+  seriesId: string,
+  updates: Partial<Pick<UpdateTaskData, SeriesField>>
+): Promise<void> => {
+  if (Object.keys(updates).length === 0) return;
+
+  assertSeriesUpdates(updates);
+
+  const now = new Date().toISOString();
+
+  const { error: seriesError } = await supabase
+    .from('task_series')
+    .update({ ...updates, updated_at: now })
+    .eq('id', seriesId);
+
+  if (seriesError) {
+    console.error('Update task series error:', seriesError);
+    throw new Error(`Failed to update task series: ${seriesError.message}`);
+  }
+
+  const { error: tasksError } = await supabase
+    .from('tasks')
+    .update({ ...updates, updated_at: now })
+    .eq('series_id', seriesId)
+    .in('status', ['pending', 'in_progress']);
+
+  if (tasksError) {
+    console.error('Update series occurrences error:', tasksError);
+    throw new Error(`Failed to update series occurrences: ${tasksError.message}`);
+  }
+};
+
+// A series repeats on the days and at the time of day of its creator's time zone
+const getSeriesTimeZone = async (series: TaskSeries): Promise<string> => {
+  const { data: member } = await supabase
+    .from('members')
+    .select('timezone')
+    .eq('id', series.created_by)
+    .maybeSingle();
+
+  return member?.timezone && isValidTimeZone(member.timezone) ? member.timezone : 'UTC';
+};
+
+/**
+ * Create the occurrence that follows `task`, or return null if the series has ended.
+ * The next date is computed from the scheduled occurrence_date, so rescheduling a
+ * single occurrence never shifts the rest of the series.
+ */
+export const spawnNextOccurrence = async (task: Task): Promise<Task | null> => {
+  if (!task.series_id) return null;
+
+  const series = await getSeriesById(task.series_id);
+  if (!series) return null;
+
+  const rule = parseRecurrenceRule(series.recurring_pattern);
+  const from = new Date(task.occurrence_date || task.due_date || task.created_at);
+  const until = series.recurring_until ? new Date(series.recurring_until) : null;
+  const nextDate = getNextOccurrence(rule, from, until, await getSeriesTimeZone(series));
+
+  if (!nextDate) return null;
+
+  // Completing, reopening and completing again must not create duplicates
+  const { data: existing, error: existingError } = await supabase
+    .from('tasks')
+    .select('*')
+    .eq('series_id', series.id)
+    .eq('occurrence_date', nextDate.toISOString())
+    .limit(1);
+
+  if (existingError) {
+    console.error('Check next occurrence error:', existingError);
+    throw new Error(`Failed to check next occurrence: ${existingError.message}`);
+  }
+
+  if (existing && existing.length > 0) {
+    return existing[0];
+  }
+
+  const { data, error } = await supabase
+    .from('tasks')
+    .insert({
+      title: series.title,
+      description: series.description,
+      category_id: series.category_id,
+      priority: series.priority,
+      urgent: series.urgent,
+      estimated_minutes: series.estimated_minutes,
+      assigned_to: series.assigned_to,
+      tags: series.tags,
+      requires_proof: series.requires_proof,
+      auto_complete_on_subtasks: series.auto_complete_on_subtasks,
+      group_id: series.group_id,
+      created_by: series.created_by,
+      recurring_pattern: series.recurring_pattern,
+      recurring_until: series.recurring_until,
+      series_id: series.id,
+      occurrence_date: nextDate.toISOString(),
+      due_date: nextDate.toISOString(),
+      status: 'pending',
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Create next occurrence error:', error);
+    throw new Error(`Failed to create next occurrence: ${error.message}`);
+  }
+
+  return data;
+};
+
+/**
+ * Skip a single occurrence: it is cancelled and the next one is scheduled
+ */
+export const skipOccurrence = async (
+  taskId: string,
+  userId: string
+): Promise<{ skipped: Task; next_occurrence: Task | null }> => {
+  const { data: task, error: fetchError } = await supabase
+    .from('tasks')
+    .select('*')
+    .eq('id', taskId)
+    .single();
+
+  if (fetchError || !task) {
+    throw new Error('Task not found');
+  }
+
+  if (!task.series_id) {
+    throw new Error('Only occurrences of a recurring task can be skipped');
+  }
+
+  if (task.status === 'completed' || task.status === 'cancelled') {
+    throw new Error(`Cannot skip a ${task.status} occurrence`);
+  }
+
+  // Cancelling goes through the usual checks and is logged, revisioned and scored like any change
+  const skipped = await taskService.updateTask(taskId, { status: 'cancelled' }, userId);
+
+  const nextOccurrence = await spawnNextOccurrence(skipped);
+
+  return { skipped, next_occurrence: nextOccurrence };
+};
@@ -0,0 +1,243 @@
+// Reminder Service
+// Periodically reminds assignees of open tasks before they are due and nudges them daily once
+// they are overdue, through the channels each member picked (see ./notifications). Timing and
+// quiet hours follow the member's own time zone.
+import { supabase } from '../config/supabase';
+import { notificationConfig } from '../config/notifications';
+import { sendNotification } from './notifications';
+import { DEFAULT_REMINDER_PREFERENCES, getDueReminder } from '../utils/reminders';
+import type { ReminderPreferences } from '../utils/reminders';
+import { isValidTimeZone } from '../utils/ical';
+import { startIntervalJob } from '../utils/scheduler';
+import { MAX_REMINDER_OFFSET_MINUTES } from '../validators/reminderValidator';
+import type { NotificationFilters, ReminderPreferencesData } from '../validators/reminderValidator';
+
+// Tasks are scanned in pages of this size
+const TICK_PAGE_SIZE = 500;
+
+export interface InAppNotification {
+  id: string;
+  member_id: string;
+  task_id: string | null;
+  type: string;
+  title: string;
+  body: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+export interface ReminderTickResult {
+  checked: number;
+  sent: number;
+  failed: number;
+}
+
+// Preferences live in members.preferences.reminders
+export const readReminderPreferences = (preferences: any): ReminderPreferences => ({
+  ...DEFAULT_REMINDER_PREFERENCES,
+  ...(preferences?.reminders || {}),
+});
+
+export const getReminderPreferences = async (memberId: string): Promise<ReminderPreferences> => {
+  const { data, error } = await supabase
+    .from('members')
+    .select('preferences')
+    .eq('id', memberId)
+    .single();
+
+  if (error || !data) {
+    throw new Error('Member not found');
+  }
+
+  return readReminderPreferences(data.preferences);
+};
+
+export const updateReminderPreferences = async (
+  memberId: string,
+  updates: ReminderPreferencesData
+): Promise<ReminderPreferences> => {
+  const { data: member, error: fetchError } = await supabase
+    .from('members')
+    .select('preferences')
+    .eq('id', memberId)
+    .single();
+
+  if (fetchError || !member) {
+    throw new Error('Member not found');
+  }
+
+  const preferences = { ...readReminderPreferences(member.preferences), ...updates };
+
+  const { error } = await supabase
+    .from('members')
+    .update({
+      preferences: { ...(member.preferences || {}), reminders: preferences },
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', memberId);
+
+  if (error) {
+    console.error('Update reminder preferences error:', error);
+    throw new Error(`Failed to update reminder preferences: ${error.message}`);
+  }
+
+  return preferences;
+};
+
+export const getNotifications = async (
+  memberId: string,
+  filters: NotificationFilters
+): Promise<{ notifications: InAppNotification[]; total: number; unread: number }> => {
+  let query = supabase
+    .from('notifications')
+    .select('*', { count: 'exact' })
+    .eq('member_id', memberId);
+
+  if (filters.unread) {
+    query = query.is('read_at', null);
+  }
+
+  const [{ data, count, error }, { count: unread, error: unreadError }] = await Promise.all([
+    query
+      .order('created_at', { ascending: false })
+      .range(filters.offset, filters.offset + filters.limit - 1),
+    supabase
+      .from('notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('member_id', memberId)
+      .is('read_at', null),
+  ]);
+
+  if (error) {
+    console.error('Get notifications error:', error);
+    throw new Error(`Failed to fetch notifications: ${error.message}`);
+  }
+
+  if (unreadError) {
+    console.error('Count unread notifications error:', unreadError);
+    throw new Error(`Failed to fetch notifications: ${unreadError.message}`);
+  }
+
+  return { notifications: data || [], total: count || 0, unread: unread || 0 };
+};
+
+// Mark one notification read, or all of the member's when no ID is given
+export const markNotificationsRead = async (memberId: string, notificationId?: string): Promise<number> => {
+  let query = supabase
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() })
+    .eq('member_id', memberId)
+    .is('read_at', null);
+
+  if (notificationId) {
+    query = query.eq('id', notificationId);
+  }
+
+  const { data, error } = await query.select('id');
+
+  if (error) {
+    console.error('Mark notifications read error:', error);
+    throw new Error(`Failed to update notifications: ${error.message}`);
+  }
+
+  return (data || []).length;
+};
+
+/**
+ * Claim a reminder before sending it; null when it was already sent. The unique key keeps
+ * overlapping ticks (or several API instances) from sending it twice.
+ */
+const claimReminder = async (taskId: string, memberId: string, key: string): Promise<string | null> => {
+  const { data, error } = await supabase
+    .from('task_reminders')
+    .insert({ task_id: taskId, member_id: memberId, reminder_key: key })
+    .select('id')
+    .single();
+
+  if (error) {
+    if (error.code !== '23505') {
+      console.error('Claim reminder error:', error);
+    }
+    return null;
+  }
+
+  return data.id;
+};
+
+/**
+ * Send every reminder that is due at `now`. Reminders held back by quiet hours are picked up
+ * by the first tick after they end. A reminder no channel could deliver is released so the
+ * next tick tries again.
+ */
+export const runReminderTick = async (now: Date = new Date()): Promise<ReminderTickResult> => {
+  const horizon = new Date(now.getTime() + MAX_REMINDER_OFFSET_MINUTES * 60 * 1000).toISOString();
+  const result: ReminderTickResult = { checked: 0, sent: 0, failed: 0 };
+
+  for (let offset = 0; ; offset += TICK_PAGE_SIZE) {
+    const { data: tasks, error } = await supabase
+      .from('tasks')
+      .select(`
+        id,
+        title,
+        due_date,
+        assignee:assigned_to (
+          id,
+          name,
+          email,
+          timezone,
+          preferences
+        )
+      `)
+      .in('status', ['pending', 'in_progress'])
+      .not('assigned_to', 'is', null)
+      .not('due_date', 'is', null)
+      .lte('due_date', horizon)
+      .order('due_date', { ascending: true })
+      .order('id', { ascending: true })
+      .range(offset, offset + TICK_PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('Reminder tick error:', error);
+      throw new Error(`Failed to fetch tasks: ${error.message}`);
+    }
+
+    for (const task of (tasks || []) as any[]) {
+      const assignee = task.assignee;
+      if (!assignee) continue;
+      result.checked++;
+
+      const preferences = readReminderPreferences(assignee.preferences);
+      const timeZone = assignee.timezone && isValidTimeZone(assignee.timezone) ? assignee.timezone : 'UTC';
+      const reminder = getDueReminder(task, preferences, now, timeZone);
+      if (!reminder) continue;
+
+      const claimId = await claimReminder(task.id, assignee.id, reminder.key);
+      if (!claimId) continue;
+
+      const delivered = await sendNotification(
+        { id: assignee.id, name: assignee.name, email: assignee.email },
+        preferences.channels,
+        { type: reminder.type, title: reminder.title, body: reminder.body, task_id: task.id }
+      );
+
+      if (delivered.length > 0) {
+        await supabase.from('task_reminders').update({ channels: delivered }).eq('id', claimId);
+        result.sent++;
+      } else {
+        await supabase.from('task_reminders').delete().eq('id', claimId);
+        result.failed++;
+      }
+    }
+
+    if (!tasks || tasks.length < TICK_PAGE_SIZE) break;
+  }
+
+  return result;
+};
+
+// Run reminder ticks on an interval; returns a function that stops the scheduler
+export const startReminderScheduler = (intervalMs: number = notificationConfig.reminderIntervalMs): (() => void) =>
+  startIntervalJob('Reminders', async () => {
+    const result = await runReminderTick();
+    return result.sent > 0 || result.failed > 0 ? `${result.sent} sent, ${result.failed} failed` : null;
+  }, intervalMs);
@@ -0,0 +1,224 @@
+// Task Revision Service
+// Field-level history of task changes, with undo of a single revision or of a whole bulk update
+import { randomUUID } from 'crypto';
+import { supabase } from '../config/supabase';
+import * as taskService from './taskService';
+import type { Task } from './taskService';
+import type { UpdateTaskData } from '../validators/taskValidator';
+
+// Fields whose changes are recorded and can be reverted
+export const TRACKED_FIELDS = [
+  'title',
+  'description',
+  'category_id',
+  'priority',
+  'status',
+  'assigned_to',
+  'due_date',
+  'urgent',
+  'estimated_minutes',
+  'tags',
+  'parent_task_id',
+  'auto_complete_on_subtasks',
+  'requires_proof',
+  'completed_at',
+] as const;
+
+type TrackedField = typeof TRACKED_FIELDS[number];
+
+export type FieldChanges = Partial<Record<TrackedField, { from: unknown; to: unknown }>>;
+
+export interface TaskRevision {
+  id: string;
+  task_id: string;
+  changed_by: string | null;
+  changes: FieldChanges;
+  batch_id: string | null;
+  reverts_revision_id: string | null;
+  created_at: string;
+}
+
+const sameValue = (a: unknown, b: unknown): boolean =>
+  JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * Tracked fields that differ between two versions of a task
+ */
+export const diffTask = (before: Partial<Task>, after: Partial<Task>): FieldChanges => {
+  const changes: FieldChanges = {};
+
+  for (const field of TRACKED_FIELDS) {
+    if (!(field in after)) continue;
+    if (!sameValue(before[field], after[field])) {
+      changes[field] = { from: before[field] ?? null, to: after[field] ?? null };
+    }
+  }
+
+  return changes;
+};
+
+/**
+ * Record what changed between two versions of a task. Like the activity log, a failure
+ * here is logged and never fails the change itself.
+ */
+export const recordRevision = async (
+  before: Partial<Task> & { id: string },
+  after: Partial<Task>,
+  actorId: string | null,
+  options: { batchId?: string; revertsRevisionId?: string } = {}
+): Promise<void> => {
+  const changes = diffTask(before, after);
+  if (Object.keys(changes).length === 0) return;
+
+  const { error } = await supabase
+    .from('task_revisions')
+    .insert({
+      task_id: before.id,
+      changed_by: actorId,
+      changes,
+      batch_id: options.batchId ?? null,
+      reverts_revision_id: options.revertsRevisionId ?? null,
+      created_at: new Date().toISOString(),
+    });
+
+  if (error) {
+    console.error('Record task revision error:', error);
+  }
+};
+
+// Get the revisions of a task, newest first
+export const getRevisions = async (
+  taskId: string,
+  options: { limit: number; offset: number } = { limit: 50, offset: 0 }
+): Promise<{ revisions: TaskRevision[]; total: number }> => {
+  const { data, error, count } = await supabase
+    .from('task_revisions')
+    .select('*', { count: 'exact' })
+    .eq('task_id', taskId)
+    .order('created_at', { ascending: false })
+    .range(options.offset, options.offset + options.limit - 1);
+
+  if (error) {
+    console.error('Get task revisions error:', error);
+    throw new Error(`Failed to fetch task history: ${error.message}`);
+  }
+
+  return { revisions: data || [], total: count ?? 0 };
+};
+
+/**
+ * The values that undo a revision. Fails if one of its fields has changed again since,
+ * so an undo never silently discards a later edit. An approval is not undone into the
+ * approval queue; the task is reopened instead.
+ */
+export const getRevertUpdates = (revision: TaskRevision, current: Partial<Task>): Partial<Task> => {
+  const updates: Record<string, unknown> = {};
+
+  for (const [field, change] of Object.entries(revision.changes)) {
+    if (!change) continue;
+    if (!sameValue(current[field as TrackedField], change.to)) {
+      throw new Error(`Cannot undo: ${field} has changed since this revision`);
+    }
+    updates[field] = change.from;
+  }
+
+  if (updates.status === 'awaiting_approval') {
+    throw new Error('Cannot undo an approval; reopen the task instead');
+  }
+
+  return updates as Partial<Task>;
+};
+
+// An undo is an ordinary edit: it passes the same checks (version, blockers, approval,
+// proof) and has the same effects (activity, timers, recurrence, points) as any other
+const applyRevert = async (
+  revision: TaskRevision,
+  current: Task,
+  updates: Partial<Task>,
+  userId: string,
+  batchId?: string
+): Promise<Task> =>
+  taskService.updateTask(
+    revision.task_id,
+    updates as UpdateTaskData,
+    userId,
+    'occurrence',
+    false,
+    [current.version],
+    { batchId, revertsRevisionId: revision.id }
+  );
+
+const getTask = async (taskId: string): Promise<Task> => {
+  const { data, error } = await supabase
+    .from('tasks')
+    .select('*')
+    .eq('id', taskId)
+    .single();
+
+  if (error || !data) {
+    throw new Error('Task not found');
+  }
+
+  return data;
+};
+
+/**
+ * Undo one revision of a task. The undo is itself recorded as a revision.
+ */
+export const revertRevision = async (taskId: string, revisionId: string, userId: string): Promise<Task> => {
+  const { data: revision, error } = await supabase
+    .from('task_revisions')
+    .select('*')
+    .eq('id', revisionId)
+    .eq('task_id', taskId)
+    .single();
+
+  if (error || !revision) {
+    throw new Error('Revision not found');
+  }
+
+  const current = await getTask(taskId);
+  const updates = getRevertUpdates(revision, current);
+
+  return applyRevert(revision, current, updates, userId);
+};
+
+/**
+ * Undo every change of a bulk operation. All tasks are checked for later edits before any
+ * is reverted; checks that only the update itself makes (such as blockers) can still stop
+ * the batch part way.
+ */
+export const revertBatch = async (
+  batchId: string,
+  userId: string
+): Promise<{ batch_id: string; tasks: Task[] }> => {
+  const { data: revisions, error } = await supabase
+    .from('task_revisions')
+    .select('*')
+    .eq('batch_id', batchId)
+    .is('reverts_revision_id', null);
+
+  if (error) {
+    console.error('Get batch revisions error:', error);
+    throw new Error(`Failed to fetch batch: ${error.message}`);
+  }
+
+  if (!revisions || revisions.length === 0) {
+    throw new Error('Batch not found');
+  }
+
+  const planned = [];
+  for (const revision of revisions as TaskRevision[]) {
+    const current = await getTask(revision.task_id);
+    planned.push({ revision, current, updates: getRevertUpdates(revision, current) });
+  }
+
+  // The undo is a batch of its own, so it can be undone too
+  const undoBatchId = randomUUID();
+  const tasks: Task[] = [];
+  for (const { revision, current, updates } of planned) {
+    tasks.push(await applyRevert(revision, current, updates, userId, undoBatchId));
+  }
+
+  return { batch_id: undoBatchId, tasks };
+};
@@ -0,0 +1,412 @@
+// Reward Service
+// A group's reward catalog and redemptions. Members request a reward; points are spent when a
+// group admin approves the request. Requests cannot exceed what a member can still afford,
+// counting their other pending requests, and approvals cannot overdraw the balance. Every
+// redemption step is written to audit_log.
+import { supabase } from '../config/supabase';
+import * as pointsService from './pointsService';
+import type {
+  CreateRewardData,
+  UpdateRewardData,
+  RewardFiltersData,
+  RedemptionFiltersData,
+} from '../validators/rewardValidator';
+
+export interface Reward {
+  id: string;
+  group_id: string;
+  name: string;
+  description: string | null;
+  icon: string | null;
+  cost: number;
+  active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type RedemptionStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+
+export interface RewardRedemption {
+  id: string;
+  group_id: string;
+  reward_id: string;
+  member_id: string;
+  cost: number;
+  status: RedemptionStatus;
+  note: string | null;
+  decision_note: string | null;
+  decided_by: string | null;
+  decided_at: string | null;
+  ledger_entry_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PointsBalance {
+  member_id: string;
+  // All-time points in the ledger
+  balance: number;
+  // Points requested in pending redemptions
+  pending: number;
+  // What the member can still request
+  available: number;
+}
+
+const redemptionSelect = `
+  *,
+  reward:reward_id (
+    id,
+    name,
+    icon
+  ),
+  member:member_id (
+    id,
+    name
+  )
+`;
+
+/**
+ * Record a redemption step in the audit log. Failures are logged, never thrown,
+ * so the redemption itself still goes through.
+ */
+const auditRedemption = async (
+  action: 'redemption_requested' | 'redemption_approved' | 'redemption_rejected' | 'redemption_cancelled',
+  redemption: RewardRedemption,
+  actorId: string,
+  details: Record<string, any> = {}
+): Promise<void> => {
+  const { error } = await supabase.from('audit_log').insert({
+    event_type: 'rewards',
+    action,
+    resource_type: 'reward_redemption',
+    resource_id: redemption.id,
+    actor_id: actorId,
+    actor_type: actorId === redemption.member_id ? 'user' : 'admin',
+    target_id: redemption.member_id,
+    group_id: redemption.group_id,
+    details: {
+      reward_id: redemption.reward_id,
+      cost: redemption.cost,
+      status: redemption.status,
+      ...details,
+    },
+  });
+
+  if (error) {
+    console.error('Audit redemption error:', error);
+  }
+};
+
+export const getRewards = async (groupId: string, filters: RewardFiltersData): Promise<Reward[]> => {
+  let query = supabase
+    .from('rewards')
+    .select('*')
+    .eq('group_id', groupId);
+
+  if (!filters.include_inactive) {
+    query = query.eq('active', true);
+  }
+
+  const { data, error } = await query
+    .order('cost', { ascending: true })
+    .order('name', { ascending: true });
+
+  if (error) {
+    console.error('Get rewards error:', error);
+    throw new Error(`Failed to fetch rewards: ${error.message}`);
+  }
+
+  return data || [];
+};
+
+const getReward = async (groupId: string, rewardId: string): Promise<Reward> => {
+  const { data, error } = await supabase
+    .from('rewards')
+    .select('*')
+    .eq('id', rewardId)
+    .eq('group_id', groupId)
+    .single();
+
+  if (error || !data) {
+    throw new Error('Reward not found');
+  }
+
+  return data;
+};
+
+export const createReward = async (groupId: string, rewardData: CreateRewardData, createdBy: string): Promise<Reward> => {
+  const { data, error } = await supabase
+    .from('rewards')
+    .insert({
+      ...rewardData,
+      group_id: groupId,
+      created_by: createdBy,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Create reward error:', error);
+    throw new Error(`Failed to create reward: ${error.message}`);
+  }
+
+  return data;
+};
+
+export const updateReward = async (groupId: string, rewardId: string, updates: UpdateRewardData): Promise<Reward> => {
+  await getReward(groupId, rewardId);
+
+  const { data, error } = await supabase
+    .from('rewards')
+    .update({
+      ...updates,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', rewardId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Update reward error:', error);
+    throw new Error(`Failed to update reward: ${error.message}`);
+  }
+
+  return data;
+};
+
+// Rewards are archived rather than deleted, so their redemptions keep their history
+export const archiveReward = async (groupId: string, rewardId: string): Promise<void> => {
+  await updateReward(groupId, rewardId, { active: false });
+};
+
+export const getBalance = async (groupId: string, memberId: string): Promise<PointsBalance> => {
+  const [balance, { data: pending, error }] = await Promise.all([
+    pointsService.getBalance(groupId, memberId),
+    supabase
+      .from('reward_redemptions')
+      .select('cost')
+      .eq('group_id', groupId)
+      .eq('member_id', memberId)
+      .eq('status', 'pending'),
+  ]);
+
+  if (error) {
+    console.error('Get pending redemptions error:', error);
+    throw new Error(`Failed to fetch redemptions: ${error.message}`);
+  }
+
+  const pendingPoints = (pending || []).reduce((sum, redemption) => sum + redemption.cost, 0);
+
+  return {
+    member_id: memberId,
+    balance,
+    pending: pendingPoints,
+    available: balance - pendingPoints,
+  };
+};
+
+export const requestRedemption = async (
+  groupId: string,
+  rewardId: string,
+  memberId: string,
+  note?: string
+): Promise<RewardRedemption> => {
+  const reward = await getReward(groupId, rewardId);
+
+  if (!reward.active) {
+    throw new Error('This reward is no longer available');
+  }
+
+  const { available } = await getBalance(groupId, memberId);
+  if (available < reward.cost) {
+    throw new Error(`Not enough points: ${reward.name} costs ${reward.cost}, ${Math.max(available, 0)} available`);
+  }
+
+  const { data, error } = await supabase
+    .from('reward_redemptions')
+    .insert({
+      group_id: groupId,
+      reward_id: rewardId,
+      member_id: memberId,
+      cost: reward.cost,
+      status: 'pending',
+      note: note || null,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .select(redemptionSelect)
+    .single();
+
+  if (error) {
+    console.error('Request redemption error:', error);
+    throw new Error(`Failed to request reward: ${error.message}`);
+  }
+
+  await auditRedemption('redemption_requested', data, memberId, { reward_name: reward.name });
+
+  return data;
+};
+
+export const getRedemptions = async (
+  groupId: string,
+  filters: RedemptionFiltersData
+): Promise<{ redemptions: RewardRedemption[]; total: number }> => {
+  let query = supabase
+    .from('reward_redemptions')
+    .select(redemptionSelect, { count: 'exact' })
+    .eq('group_id', groupId);
+
+  if (filters.status) {
+    query = query.eq('status', filters.status);
+  }
+
+  if (filters.member_id) {
+    query = query.eq('member_id', filters.member_id);
+  }
+
+  const { data, error, count } = await query
+    .order('created_at', { ascending: false })
+    .range(filters.offset, filters.offset + filters.limit - 1);
+
+  if (error) {
+    console.error('Get redemptions error:', error);
+    throw new Error(`Failed to fetch redemptions: ${error.message}`);
+  }
+
+  return { redemptions: data || [], total: count || 0 };
+};
+
+const getPendingRedemption = async (groupId: string, redemptionId: string): Promise<RewardRedemption> => {
+  const { data, error } = await supabase
+    .from('reward_redemptions')
+    .select('*')
+    .eq('id', redemptionId)
+    .eq('group_id', groupId)
+    .single();
+
+  if (error || !data) {
+    throw new Error('Redemption not found');
+  }
+
+  if (data.status !== 'pending') {
+    throw new Error(`Redemption has already been ${data.status}`);
+  }
+
+  return data;
+};
+
+// Move a pending redemption to its final status; fails if someone else decided it first
+const closeRedemption = async (
+  redemption: RewardRedemption,
+  status: Exclude<RedemptionStatus, 'pending'>,
+  updates: Partial<RewardRedemption>
+): Promise<RewardRedemption> => {
+  const { data, error } = await supabase
+    .from('reward_redemptions')
+    .update({
+      ...updates,
+      status,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', redemption.id)
+    .eq('status', 'pending')
+    .select(redemptionSelect)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Update redemption error:', error);
+    throw new Error(`Failed to update redemption: ${error.message}`);
+  }
+
+  if (!data) {
+    throw new Error('Redemption has already been decided');
+  }
+
+  return data;
+};
+
+/**
+ * Approve a pending redemption and spend the member's points on it. The points are spent
+ * first, with the balance checked again in the same transaction, since adjustments or
+ * reopened tasks may have lowered it since the request. If the redemption cannot be closed
+ * afterwards, the points are refunded.
+ */
+export const approveRedemption = async (
+  groupId: string,
+  redemptionId: string,
+  adminId: string,
+  note?: string
+): Promise<RewardRedemption> => {
+  const redemption = await getPendingRedemption(groupId, redemptionId);
+  const { data: reward } = await supabase
+    .from('rewards')
+    .select('name')
+    .eq('id', redemption.reward_id)
+    .maybeSingle();
+
+  const entry = await pointsService.spendPoints(
+    groupId,
+    redemption.member_id,
+    redemption.cost,
+    reward?.name ? `Redeemed: ${reward.name}` : 'Reward redeemed',
+    adminId
+  );
+
+  let approved: RewardRedemption;
+  try {
+    approved = await closeRedemption(redemption, 'approved', {
+      decided_by: adminId,
+      decided_at: new Date().toISOString(),
+      decision_note: note || null,
+      ledger_entry_id: entry.id,
+    });
+  } catch (error) {
+    await pointsService.refundPoints(entry, adminId);
+    throw error;
+  }
+
+  await auditRedemption('redemption_approved', approved, adminId, { ledger_entry_id: entry.id, note: note || null });
+
+  return approved;
+};
+
+export const rejectRedemption = async (
+  groupId: string,
+  redemptionId: string,
+  adminId: string,
+  note?: string
+): Promise<RewardRedemption> => {
+  const redemption = await getPendingRedemption(groupId, redemptionId);
+
+  const rejected = await closeRedemption(redemption, 'rejected', {
+    decided_by: adminId,
+    decided_at: new Date().toISOString(),
+    decision_note: note || null,
+  });
+
+  await auditRedemption('redemption_rejected', rejected, adminId, { note: note || null });
+
+  return rejected;
+};
+
+// Members can withdraw their own pending requests
+export const cancelRedemption = async (
+  groupId: string,
+  redemptionId: string,
+  memberId: string
+): Promise<RewardRedemption> => {
+  const redemption = await getPendingRedemption(groupId, redemptionId);
+
+  if (redemption.member_id !== memberId) {
+    throw new Error('Only the member who requested a reward can cancel it');
+  }
+
+  const cancelled = await closeRedemption(redemption, 'cancelled', {});
+
+  await auditRedemption('redemption_cancelled', cancelled, memberId);
+
+  return cancelled;
+};
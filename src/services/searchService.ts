@@ -0,0 +1,147 @@
+// Task Search Service
+// Ranked full-text search backed by tasks.search_vector and the search_tasks() function
+// (see database/migrations/007_add_task_search.sql and 023_escape_search_highlights.sql)
+import { supabase } from '../config/supabase';
+import type { TaskWithAssignee } from './taskService';
+import type { SearchTasksData } from '../validators/taskValidator';
+import { buildPage } from '../utils/pagination';
+import type { Paginated } from '../utils/pagination';
+
+// HTML-escaped text in which only the <mark></mark> around matches is markup
+export interface TaskSearchHighlights {
+  title: string;
+  description: string;
+  comment: string | null;
+}
+
+export interface TaskSearchResult {
+  task: TaskWithAssignee;
+  rank: number;
+  highlights: TaskSearchHighlights;
+}
+
+interface SearchMatchRow {
+  task_id: string;
+  rank: number;
+  title_highlight: string;
+  description_highlight: string;
+  comment_highlight: string | null;
+  total_count: number;
+}
+
+const taskWithPeopleSelect = `
+  *,
+  assignee:assigned_to (
+    id,
+    name,
+    email
+  ),
+  creator:created_by (
+    id,
+    name,
+    email
+  ),
+  category:category_id (
+    id,
+    name,
+    color,
+    icon
+  )
+`;
+
+// Groups the user is an active member of
+const getMemberGroupIds = async (userId: string): Promise<string[]> => {
+  const { data, error } = await supabase
+    .from('group_memberships')
+    .select('group_id')
+    .eq('member_id', userId)
+    .eq('status', 'active');
+
+  if (error) {
+    console.error('Get member groups error:', error);
+    throw new Error(`Failed to fetch groups: ${error.message}`);
+  }
+
+  return (data || []).map(membership => membership.group_id);
+};
+
+/**
+ * Search the tasks of every group the user belongs to (or just `params.group_id`),
+ * best matches first, with <mark>-highlighted snippets.
+ */
+export const searchTasks = async (
+  userId: string,
+  params: SearchTasksData
+): Promise<Paginated<TaskSearchResult>> => {
+  const memberGroupIds = await getMemberGroupIds(userId);
+
+  if (params.group_id && !memberGroupIds.includes(params.group_id)) {
+    throw new Error('Access denied: not part of group');
+  }
+
+  const groupIds = params.group_id ? [params.group_id] : memberGroupIds;
+  const offset = params.cursor?.offset ?? 0;
+  const emptyPage: Paginated<TaskSearchResult> = {
+    data: [],
+    page: { next_cursor: null, total: params.include_total ? 0 : null },
+  };
+
+  if (groupIds.length === 0) {
+    return emptyPage;
+  }
+
+  const { data: matches, error } = await supabase.rpc('search_tasks', {
+    p_group_ids: groupIds,
+    p_query: params.q,
+    p_status: params.status ?? null,
+    p_priority: params.priority ?? null,
+    p_assigned_to: params.assigned_to ?? null,
+    p_limit: params.limit + 1,
+    p_offset: offset,
+  });
+
+  if (error) {
+    console.error('Search tasks error:', error);
+    throw new Error(`Failed to search tasks: ${error.message}`);
+  }
+
+  const rows: SearchMatchRow[] = matches || [];
+  if (rows.length === 0) {
+    return emptyPage;
+  }
+
+  const { data: tasks, error: tasksError } = await supabase
+    .from('tasks')
+    .select(taskWithPeopleSelect)
+    .in('id', rows.map(row => row.task_id));
+
+  if (tasksError) {
+    console.error('Search tasks error:', tasksError);
+    throw new Error(`Failed to search tasks: ${tasksError.message}`);
+  }
+
+  const tasksById = new Map<string, TaskWithAssignee>((tasks || []).map(task => [task.id, task]));
+
+  // Keep the ranking order from search_tasks(). The cursor is the offset in that ranking,
+  // so rows are only dropped after paging (a task deleted between the two queries).
+  const page = buildPage(rows, params.limit, () => ({ offset: offset + params.limit }));
+  const results = page.data
+    .filter(row => tasksById.has(row.task_id))
+    .map(row => ({
+      task: tasksById.get(row.task_id)!,
+      rank: row.rank,
+      highlights: {
+        title: row.title_highlight,
+        description: row.description_highlight,
+        comment: row.comment_highlight,
+      },
+    }));
+
+  return {
+    data: results,
+    page: {
+      next_cursor: page.page.next_cursor,
+      total: params.include_total ? Number(rows[0].total_count) : null,
+    },
+  };
+};
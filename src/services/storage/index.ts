@@ -0,0 +1,33 @@
+// Storage driver selection
+import { storageConfig } from '../../config/storage';
+import { LocalStorageDriver } from './localStorageDriver';
+import { SupabaseStorageDriver } from './supabaseStorageDriver';
+import type { StorageDriver } from './types';
+
+export type { StorageDriver } from './types';
+export { LocalStorageDriver, LOCAL_DOWNLOAD_PATH } from './localStorageDriver';
+export { SupabaseStorageDriver } from './supabaseStorageDriver';
+
+let driver: StorageDriver | null = null;
+
+export const getStorageDriver = (): StorageDriver => {
+  if (!driver) {
+    switch (storageConfig.driver) {
+      case 'local':
+        driver = new LocalStorageDriver();
+        break;
+      case 'supabase':
+        driver = new SupabaseStorageDriver();
+        break;
+      default:
+        throw new Error(`Unknown storage driver: ${storageConfig.driver}`);
+    }
+  }
+
+  return driver;
+};
+
+// Swap the driver, e.g. for tests
+export const setStorageDriver = (storageDriver: StorageDriver): void => {
+  driver = storageDriver;
+};
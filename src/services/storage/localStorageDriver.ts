@@ -0,0 +1,73 @@
+// Local filesystem storage driver (development and tests)
+// Signed URLs point back at this API and are verified with an HMAC
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { storageConfig } from '../../config/storage';
+import type { StorageDriver } from './types';
+
+export const LOCAL_DOWNLOAD_PATH = '/api/tasks/attachments/download';
+
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local';
+
+  constructor(private readonly rootDirectory: string = storageConfig.localDirectory) {}
+
+  // Resolve a key inside the root directory, refusing path traversal
+  private resolve(key: string): string {
+    const root = path.resolve(this.rootDirectory);
+    const filePath = path.resolve(root, key);
+
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error('Invalid storage key');
+    }
+
+    return filePath;
+  }
+
+  private sign(key: string, expires: number): string {
+    return crypto
+      .createHmac('sha256', storageConfig.getSigningSecret())
+      .update(`${key}:${expires}`)
+      .digest('hex');
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  }
+
+  async remove(keys: string[]): Promise<void> {
+    await Promise.all(keys.map(key => fs.rm(this.resolve(key), { force: true })));
+  }
+
+  async getSignedUrl(key: string, expiresInSeconds: number): Promise<string> {
+    const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+    const params = new URLSearchParams({
+      key,
+      expires: String(expires),
+      signature: this.sign(key, expires),
+    });
+
+    return `${storageConfig.publicBaseUrl}${LOCAL_DOWNLOAD_PATH}?${params.toString()}`;
+  }
+
+  /**
+   * Check a signed download link and return the file path it grants access to
+   */
+  verifySignedUrl(key: string, expires: number, signature: string): string {
+    if (!Number.isFinite(expires) || expires < Math.floor(Date.now() / 1000)) {
+      throw new Error('Download link has expired');
+    }
+
+    const expected = Buffer.from(this.sign(key, expires));
+    const received = Buffer.from(signature);
+
+    if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+      throw new Error('Invalid download signature');
+    }
+
+    return this.resolve(key);
+  }
+}
@@ -0,0 +1,42 @@
+// Supabase Storage driver (production)
+import { supabase } from '../../config/supabase';
+import { storageConfig } from '../../config/storage';
+import type { StorageDriver } from './types';
+
+export class SupabaseStorageDriver implements StorageDriver {
+  readonly name = 'supabase';
+
+  constructor(private readonly bucket: string = storageConfig.supabaseBucket) {}
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    const { error } = await supabase.storage
+      .from(this.bucket)
+      .upload(key, data, { contentType, upsert: false });
+
+    if (error) {
+      throw new Error(`Failed to store file: ${error.message}`);
+    }
+  }
+
+  async remove(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+
+    const { error } = await supabase.storage.from(this.bucket).remove(keys);
+
+    if (error) {
+      throw new Error(`Failed to remove files: ${error.message}`);
+    }
+  }
+
+  async getSignedUrl(key: string, expiresInSeconds: number): Promise<string> {
+    const { data, error } = await supabase.storage
+      .from(this.bucket)
+      .createSignedUrl(key, expiresInSeconds);
+
+    if (error || !data) {
+      throw new Error(`Failed to create download link: ${error?.message}`);
+    }
+
+    return data.signedUrl;
+  }
+}
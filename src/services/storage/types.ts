@@ -0,0 +1,14 @@
+// Blob storage driver contract shared by the local and Supabase drivers
+
+export interface StorageDriver {
+  readonly name: string;
+
+  // Store a blob under `key`
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+
+  // Remove blobs; missing keys are ignored
+  remove(keys: string[]): Promise<void>;
+
+  // Time-limited URL that downloads the blob without further authentication
+  getSignedUrl(key: string, expiresInSeconds: number): Promise<string>;
+}
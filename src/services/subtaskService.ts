@@ -0,0 +1,276 @@
+// Subtask Service
+// Parent/child hierarchy on tasks.parent_task_id with completion rollup
+import { supabase } from '../config/supabase';
+import type { Task, TaskWithAssignee } from './taskService';
+
+// Root task plus this many levels of subtasks
+export const MAX_SUBTASK_DEPTH = 3;
+
+export interface SubtaskProgress {
+  completed: number;
+  total: number;
+}
+
+export interface TaskTree extends TaskWithAssignee {
+  subtasks: TaskTree[];
+  progress: SubtaskProgress;
+}
+
+const taskWithPeopleSelect = `
+  *,
+  assignee:assigned_to (
+    id,
+    name,
+    email
+  ),
+  creator:created_by (
+    id,
+    name,
+    email
+  ),
+  category:category_id (
+    id,
+    name,
+    color,
+    icon
+  )
+`;
+
+/**
+ * Completed vs. total subtasks; cancelled subtasks do not count towards either
+ */
+export const computeProgress = (subtasks: Pick<Task, 'status'>[]): SubtaskProgress => {
+  const active = subtasks.filter(subtask => subtask.status !== 'cancelled');
+
+  return {
+    completed: active.filter(subtask => subtask.status === 'completed').length,
+    total: active.length,
+  };
+};
+
+// Get the direct subtasks of a task in display order
+export const getSubtasks = async (parentId: string): Promise<TaskWithAssignee[]> => {
+  const { data, error } = await supabase
+    .from('tasks')
+    .select(taskWithPeopleSelect)
+    .eq('parent_task_id', parentId)
+    .order('position', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Get subtasks error:', error);
+    throw new Error(`Failed to fetch subtasks: ${error.message}`);
+  }
+
+  return data || [];
+};
+
+/**
+ * Build the nested subtask tree below a task, one query per level
+ */
+export const getSubtaskTree = async (task: TaskWithAssignee): Promise<TaskTree> => {
+  const root: TaskTree = { ...task, subtasks: [], progress: { completed: 0, total: 0 } };
+  let level: TaskTree[] = [root];
+
+  for (let depth = 0; depth < MAX_SUBTASK_DEPTH && level.length > 0; depth++) {
+    const byId = new Map(level.map(node => [node.id, node]));
+
+    const { data, error } = await supabase
+      .from('tasks')
+      .select(taskWithPeopleSelect)
+      .in('parent_task_id', [...byId.keys()])
+      .order('position', { ascending: true })
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Get subtask tree error:', error);
+      throw new Error(`Failed to fetch subtasks: ${error.message}`);
+    }
+
+    const nextLevel: TaskTree[] = [];
+    for (const child of data || []) {
+      const node: TaskTree = { ...child, subtasks: [], progress: { completed: 0, total: 0 } };
+      byId.get(child.parent_task_id)?.subtasks.push(node);
+      nextLevel.push(node);
+    }
+
+    for (const node of level) {
+      node.progress = computeProgress(node.subtasks);
+    }
+
+    level = nextLevel;
+  }
+
+  return root;
+};
+
+// IDs of every task below a task in the hierarchy
+export const getDescendantIds = async (taskId: string): Promise<string[]> => {
+  const ids: string[] = [];
+  let level = [taskId];
+
+  while (level.length > 0) {
+    const { data, error } = await supabase
+      .from('tasks')
+      .select('id')
+      .in('parent_task_id', level);
+
+    if (error) {
+      console.error('Get descendant tasks error:', error);
+      throw new Error(`Failed to fetch subtasks: ${error.message}`);
+    }
+
+    level = (data || []).map(task => task.id);
+    ids.push(...level);
+  }
+
+  return ids;
+};
+
+const getTreeHeight = (node: TaskTree): number =>
+  node.subtasks.length === 0 ? 0 : 1 + Math.max(...node.subtasks.map(getTreeHeight));
+
+/**
+ * Check that `parentId` can hold `taskId` (or a new task when omitted):
+ * same group, no cycle, and within MAX_SUBTASK_DEPTH.
+ */
+export const validateParent = async (
+  parentId: string,
+  groupId: string,
+  taskId?: string
+): Promise<Task> => {
+  const { data: parent, error } = await supabase
+    .from('tasks')
+    .select('*')
+    .eq('id', parentId)
+    .single();
+
+  if (error || !parent) {
+    throw new Error('Parent task not found');
+  }
+
+  if (parent.group_id !== groupId) {
+    throw new Error('Parent task must belong to the same group');
+  }
+
+  if (taskId === parentId) {
+    throw new Error('A task cannot be its own parent');
+  }
+
+  // Walk up the ancestors to find the parent's depth and catch cycles
+  let depth = 1;
+  let ancestorId: string | null = parent.parent_task_id;
+  while (ancestorId) {
+    if (ancestorId === taskId) {
+      throw new Error('A task cannot be moved under one of its own subtasks');
+    }
+
+    const { data: ancestor } = await supabase
+      .from('tasks')
+      .select('id, parent_task_id')
+      .eq('id', ancestorId)
+      .single();
+
+    ancestorId = ancestor?.parent_task_id ?? null;
+    depth++;
+  }
+
+  // A moved task brings its own subtasks along
+  let subtreeHeight = 0;
+  if (taskId) {
+    const { data: task } = await supabase.from('tasks').select('*').eq('id', taskId).single();
+    if (task) {
+      subtreeHeight = getTreeHeight(await getSubtaskTree(task));
+    }
+  }
+
+  if (depth + subtreeHeight > MAX_SUBTASK_DEPTH) {
+    throw new Error(`Subtasks can only be nested ${MAX_SUBTASK_DEPTH} levels deep`);
+  }
+
+  return parent;
+};
+
+// Position after the current last subtask
+export const getNextPosition = async (parentId: string): Promise<number> => {
+  const { data, error } = await supabase
+    .from('tasks')
+    .select('position')
+    .eq('parent_task_id', parentId)
+    .order('position', { ascending: false })
+    .limit(1);
+
+  if (error) {
+    console.error('Get subtask position error:', error);
+    throw new Error(`Failed to fetch subtasks: ${error.message}`);
+  }
+
+  return data && data.length > 0 ? (data[0].position ?? 0) + 1 : 0;
+};
+
+/**
+ * Reorder subtasks. `subtaskIds` must list every direct subtask exactly once.
+ */
+export const reorderSubtasks = async (parentId: string, subtaskIds: string[]): Promise<TaskWithAssignee[]> => {
+  const current = await getSubtasks(parentId);
+  const currentIds = new Set(current.map(subtask => subtask.id));
+
+  if (
+    subtaskIds.length !== currentIds.size ||
+    new Set(subtaskIds).size !== subtaskIds.length ||
+    !subtaskIds.every(id => currentIds.has(id))
+  ) {
+    throw new Error('subtaskIds must list every subtask of this task exactly once');
+  }
+
+  const now = new Date().toISOString();
+  for (const [position, id] of subtaskIds.entries()) {
+    const { error } = await supabase
+      .from('tasks')
+      .update({ position, updated_at: now })
+      .eq('id', id);
+
+    if (error) {
+      console.error('Reorder subtasks error:', error);
+      throw new Error(`Failed to reorder subtasks: ${error.message}`);
+    }
+  }
+
+  return getSubtasks(parentId);
+};
+
+/**
+ * Return the parent if it opted into auto-completion and all of its subtasks are now done
+ */
+export const getParentReadyToComplete = async (parentId: string): Promise<Task | null> => {
+  const { data: parent, error } = await supabase
+    .from('tasks')
+    .select('*')
+    .eq('id', parentId)
+    .single();
+
+  if (error || !parent || !parent.auto_complete_on_subtasks) return null;
+  if (parent.status === 'completed' || parent.status === 'cancelled') return null;
+
+  const progress = computeProgress(await getSubtasks(parentId));
+
+  return progress.total > 0 && progress.completed === progress.total ? parent : null;
+};
+
+/**
+ * Move the direct subtasks of a task up to its own parent (or to the top level)
+ */
+export const promoteSubtasks = async (taskId: string, newParentId: string | null): Promise<void> => {
+  const { error } = await supabase
+    .from('tasks')
+    .update({
+      parent_task_id: newParentId,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('parent_task_id', taskId);
+
+  if (error) {
+    console.error('Promote subtasks error:', error);
+    throw new Error(`Failed to promote subtasks: ${error.message}`);
+  }
+};
@@ -0,0 +1,61 @@
+// Tag Service
+// Free-form labels stored on tasks.tags; the tag list of a group is derived from its tasks
+import { supabase } from '../config/supabase';
+import { MAX_TAGS_PER_TASK } from '../validators/taskValidator';
+import type { TagSuggestionsData } from '../validators/taskValidator';
+
+export interface TagUsage {
+  tag: string;
+  count: number;
+}
+
+/**
+ * Every tag used in a group with the number of tasks carrying it, most used first.
+ * `q` narrows the list to tags starting with that prefix (for autocomplete).
+ */
+export const getTagUsage = async (
+  groupId: string,
+  options: TagSuggestionsData = { limit: 50 }
+): Promise<TagUsage[]> => {
+  const { data, error } = await supabase
+    .from('tasks')
+    .select('tags')
+    .eq('group_id', groupId)
+    .not('tags', 'eq', '{}');
+
+  if (error) {
+    console.error('Get tag usage error:', error);
+    throw new Error(`Failed to fetch tags: ${error.message}`);
+  }
+
+  const counts = new Map<string, number>();
+  for (const task of data || []) {
+    for (const tag of task.tags || []) {
+      counts.set(tag, (counts.get(tag) || 0) + 1);
+    }
+  }
+
+  return [...counts.entries()]
+    .filter(([tag]) => !options.q || tag.startsWith(options.q))
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag))
+    .slice(0, options.limit);
+};
+
+/**
+ * Apply bulk tag additions and removals to a task's current tags
+ */
+export const mergeTags = (
+  current: string[] | null,
+  addTags: string[] = [],
+  removeTags: string[] = []
+): string[] => {
+  const removed = new Set(removeTags);
+  const tags = [...new Set([...(current || []), ...addTags])].filter(tag => !removed.has(tag));
+
+  if (tags.length > MAX_TAGS_PER_TASK) {
+    throw new Error(`A task can have at most ${MAX_TAGS_PER_TASK} tags`);
+  }
+
+  return tags;
+};
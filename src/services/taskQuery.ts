@@ -0,0 +1,125 @@
+// Task query builder
+// Filters, sorting and cursor paging shared by every task list query, so the group,
+// assignee and other list endpoints accept exactly the same parameters.
+import type {
+  TaskFiltersData,
+  TaskCursorPosition,
+  TaskSortFieldData,
+  SortOrderData,
+} from '../validators/taskValidator';
+import type { Task } from './taskService';
+
+// Column each sort field orders by; priority uses the generated tasks.priority_rank
+const SORT_COLUMNS: Record<TaskSortFieldData, keyof Task> = {
+  created_at: 'created_at',
+  updated_at: 'updated_at',
+  due_date: 'due_date',
+  priority: 'priority_rank',
+  title: 'title',
+};
+
+// Natural order per field: newest, soonest due, most important, A-Z
+const DEFAULT_ORDERS: Record<TaskSortFieldData, SortOrderData> = {
+  created_at: 'desc',
+  updated_at: 'desc',
+  due_date: 'asc',
+  priority: 'desc',
+  title: 'asc',
+};
+
+export const resolveSort = (filters: TaskFiltersData): { sort: TaskSortFieldData; order: SortOrderData } => {
+  const sort = filters.sort ?? 'created_at';
+  return { sort, order: filters.order ?? DEFAULT_ORDERS[sort] };
+};
+
+/**
+ * Apply the task list filters to a query on tasks
+ */
+export const applyTaskFilters = (query: any, filters: TaskFiltersData) => {
+  if (filters.status) query = query.eq('status', filters.status);
+  if (filters.category_id) query = query.eq('category_id', filters.category_id);
+  if (filters.priority) query = query.eq('priority', filters.priority);
+  if (filters.assigned_to) query = query.eq('assigned_to', filters.assigned_to);
+  if (filters.unassigned) query = query.is('assigned_to', null);
+  if (filters.created_by) query = query.eq('created_by', filters.created_by);
+  if (filters.urgent !== undefined) query = query.eq('urgent', filters.urgent);
+
+  if (filters.completed !== undefined) {
+    if (filters.completed) {
+      query = query.eq('status', 'completed');
+    } else {
+      query = query.neq('status', 'completed');
+    }
+  }
+
+  // Blocked: waiting on at least one open blocker (tasks.is_blocked)
+  if (filters.blocked !== undefined) query = query.eq('is_blocked', filters.blocked);
+
+  if (filters.due_before) query = query.lt('due_date', filters.due_before);
+  if (filters.due_after) query = query.gte('due_date', filters.due_after);
+
+  // Overdue: past due and still open
+  if (filters.overdue !== undefined) {
+    const now = new Date().toISOString();
+    if (filters.overdue) {
+      query = query.lt('due_date', now).not('status', 'in', '(completed,cancelled)');
+    } else {
+      query = query.or(`due_date.is.null,due_date.gte.${now},status.in.(completed,cancelled)`);
+    }
+  }
+
+  // Tags: any of the listed tags (overlap) or all of them (contains)
+  if (filters.tags) {
+    query = filters.tag_match === 'all'
+      ? query.contains('tags', filters.tags)
+      : query.overlaps('tags', filters.tags);
+  }
+
+  return query;
+};
+
+// Quote a value for a PostgREST logic tree
+const quote = (value: string | number): string =>
+  typeof value === 'number' ? String(value) : `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+/**
+ * Sort and page a task query. Rows without a sort value (no due date) come last in either
+ * direction, and id breaks ties. A cursor continues after the last task of the previous page;
+ * one extra row is fetched to tell whether another page exists.
+ */
+export const paginateTaskQuery = (query: any, filters: TaskFiltersData) => {
+  const limit = filters.limit || 50;
+  const { sort, order } = resolveSort(filters);
+  const column = SORT_COLUMNS[sort];
+  const ascending = order === 'asc';
+
+  query = query
+    .order(column, { ascending, nullsFirst: false })
+    .order('id', { ascending });
+
+  if (filters.cursor) {
+    const { value, id } = filters.cursor;
+
+    if (filters.cursor.sort !== sort || filters.cursor.order !== order) {
+      throw new Error('Cursor does not match the requested sort');
+    }
+
+    const after = ascending ? 'gt' : 'lt';
+    const keyset = value === null
+      ? `and(${column}.is.null,id.${after}.${id})`
+      : `${column}.${after}.${quote(value)},and(${column}.eq.${quote(value)},id.${after}.${id}),${column}.is.null`;
+
+    return query.or(keyset).limit(limit + 1);
+  }
+
+  const offset = filters.offset || 0;
+  return query.range(offset, offset + limit);
+};
+
+/**
+ * Cursor position of a task for the sort of the current request
+ */
+export const toTaskCursor = (filters: TaskFiltersData) => (task: Task): TaskCursorPosition => {
+  const { sort, order } = resolveSort(filters);
+  return { sort, order, value: task[SORT_COLUMNS[sort]] as string | number | null, id: task.id };
+};
@@ -1,3 +1,4 @@
+import { randomUUID } from 'crypto';
 import { supabase } from '../config/supabase';
 import type {
   CreateTaskData,
@@ -5,14 +6,45 @@ import type {
   TaskFiltersData,
   AssignTaskData,
   BulkTaskUpdateData,
+  BulkCreateTasksData,
+  BulkDeleteTasksData,
+  RecurrenceScopeData,
+  SubtaskDeletePolicyData,
+  CreateSubtaskData,
 } from '../validators/taskValidator';
+import type {
+  ApproveCompletionData,
+  RejectCompletionData,
+  PendingApprovalsData,
+} from '../validators/approvalValidator';
+import * as recurrenceService from './recurrenceService';
+import * as subtaskService from './subtaskService';
+import * as commentService from './commentService';
+import * as attachmentService from './attachmentService';
+import * as categoryService from './categoryService';
+import * as tagService from './tagService';
+import * as assignmentService from './assignmentService';
+import * as timeTrackingService from './timeTrackingService';
+import * as dependencyService from './dependencyService';
+import * as revisionService from './revisionService';
+import * as pointsService from './pointsService';
+import * as approvalService from './approvalService';
+import * as proofService from './proofService';
+import type { TaskDependencies } from './dependencyService';
+import type { TaskAttachmentWithUrl, UploadedFile } from './attachmentService';
+import type { AssignmentDecision } from './assignmentService';
+import type { TaskTree } from './subtaskService';
+import { applyTaskFilters, paginateTaskQuery, toTaskCursor } from './taskQuery';
+import { buildPage } from '../utils/pagination';
+import { matchesVersion } from '../utils/etag';
+import type { Paginated } from '../utils/pagination';
 
 // Database types
 export interface Task {
   id: string;
   title: string;
   description: string;
-  category: string;
+  category_id: string | null;
   priority: string;
   status: string;
   assigned_to: string | null;
@@ -21,9 +53,26 @@ export interface Task {
   due_date: string | null;
   urgent: boolean;
   estimated_minutes: number | null;
+  actual_duration: number | null;
   created_at: string;
   updated_at: string;
   completed_at: string | null;
+  recurring_pattern: string | null;
+  recurring_until: string | null;
+  series_id: string | null;
+  occurrence_date: string | null;
+  parent_task_id: string | null;
+  position: number;
+  auto_complete_on_subtasks: boolean;
+  requires_proof: boolean;
+  // Photo uploaded with the latest completion
+  proof_attachment_id: string | null;
+  // Member whose completion is awaiting (or was given) approval
+  submitted_by: string | null;
+  priority_rank: number;
+  is_blocked: boolean;
+  tags: string[];
+  version: number;
 }
 
 export interface TaskWithAssignee extends Task {
@@ -37,14 +86,131 @@ export interface TaskWithAssignee extends Task {
     name: string;
     email: string;
   };
+  category?: {
+    id: string;
+    name: string;
+    color: string;
+    icon: string | null;
+  } | null;
+}
+
+export type TaskDetail = TaskTree & TaskDependencies;
+
+export interface TaskCreateResult extends Task {
+  // Present when the assignee was picked automatically
+  assignment?: AssignmentDecision;
+}
+
+export interface TaskUpdateResult extends Task {
+  next_occurrence?: Task | null;
+}
+
+export interface TaskUpdateOptions {
+  // Photo uploaded as proof with this completion
+  proofAttachmentId?: string;
+  // Recorded with the revision (see revisionService.recordRevision)
+  batchId?: string;
+  revertsRevisionId?: string;
+  // A reviewer approved the completion (see approveCompletion); it is not submitted again
+  approved?: boolean;
+}
+
+export interface PendingApproval extends TaskWithAssignee {
+  // Photo sent with the completion, if any
+  proof: TaskAttachmentWithUrl | null;
+}
+
+// An If-Match precondition failed: the task changed since the client fetched it
+export class TaskConflictError extends Error {
+  constructor(public readonly current: Task) {
+    super('Task has been modified by someone else; reload it and try again');
+  }
+}
+
+const assertVersion = (task: Task, ifMatch: number[] | null): void => {
+  if (!matchesVersion(ifMatch, task.version)) {
+    throw new TaskConflictError(task);
+  }
+};
+
+// A conditional write matched no row: the task changed (or went away) in between
+const getTaskRow = async (taskId: string): Promise<Task> => {
+  const { data, error } = await supabase
+    .from('tasks')
+    .select('*')
+    .eq('id', taskId)
+    .single();
+
+  if (error || !data) {
+    throw new Error('Task not found');
+  }
+
+  return data;
+};
+
+const throwConflict = async (taskId: string): Promise<never> => {
+  throw new TaskConflictError(await getTaskRow(taskId));
+};
+
+// Recording tracked time keeps the task's version (and ETag): updated_at is not written, and
+// tasks_version_update fires before update_tasks_updated_at, which still moves updated_at to now
+const setActualDuration = async (taskId: string, actualDuration: number): Promise<Task> => {
+  const { data, error } = await supabase
+    .from('tasks')
+    .update({ actual_duration: actualDuration })
+    .eq('id', taskId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Set actual duration error:', error);
+    throw new Error(`Failed to update task: ${error.message}`);
+  }
+
+  return data;
+};
+
+export interface BulkUpdateResult {
+  tasks: Task[];
+  // Revision batch of the update, for undoing it
+  batch_id: string;
 }
 
 // Create a new task
-export const createTask = async (taskData: CreateTaskData, createdBy: string): Promise<Task> => {
+export const createTask = async (taskData: CreateTaskData, createdBy: string): Promise<TaskCreateResult> => {
+  if (taskData.category_id) {
+    await categoryService.assertCategoryInGroup(taskData.category_id, taskData.group_id);
+  }
+
+  let assignment: AssignmentDecision | undefined;
+  if (taskData.assigned_to === 'auto') {
+    assignment = await assignmentService.pickAssignee(taskData.group_id, {
+      estimated_minutes: taskData.estimated_minutes ?? null,
+      priority: taskData.priority,
+      urgent: taskData.urgent,
+      category_id: taskData.category_id,
+    });
+    taskData = { ...taskData, assigned_to: assignment.assigned_to };
+  }
+
+  if (taskData.parent_task_id) {
+    await subtaskService.validateParent(taskData.parent_task_id, taskData.group_id);
+  }
+
+  const position = taskData.parent_task_id ? await subtaskService.getNextPosition(taskData.parent_task_id) : 0;
+
+  // Recurring tasks start a series; this task is its first occurrence
+  const series = taskData.recurring_pattern
+    ? await recurrenceService.createSeries(taskData, createdBy)
+    : null;
+
   const { data, error } = await supabase
     .from('tasks')
     .insert({
       ...taskData,
+      series_id: series?.id ?? null,
+      occurrence_date: series ? taskData.due_date || new Date().toISOString() : null,
+      position,
       created_by: createdBy,
       status: 'pending',
       created_at: new Date().toISOString(),
@@ -55,75 +221,96 @@ export const createTask = async (taskData: CreateTaskData, createdBy: string): P
 
   if (error) {
     console.error('Create task error:', error);
+    // A series without its first occurrence would never spawn another one
+    if (series) {
+      await recurrenceService.deleteSeries(series.id);
+    }
     throw new Error(`Failed to create task: ${error.message}`);
   }
 
-  return data;
+  return assignment ? { ...data, assignment } : data;
 };
 
-// Get tasks by group with optional filters
-export const getTasksByGroup = async (
-  groupId: string, 
-  filters: TaskFiltersData = { limit: 50, offset: 0 }
-): Promise<TaskWithAssignee[]> => {
-  let query = supabase
+// Create a subtask under an existing task, in the parent's group
+export const createSubtask = async (
+  parentId: string,
+  subtaskData: CreateSubtaskData,
+  createdBy: string
+): Promise<TaskCreateResult> => {
+  const { data: parent, error } = await supabase
     .from('tasks')
-    .select(`
-      *,
-      assignee:assigned_to (
-        id,
-        name,
-        email
-      ),
-      creator:created_by (
-        id,
-        name,
-        email
-      )
-    `)
-    .eq('group_id', groupId)
-    .order('created_at', { ascending: false });
+    .select('id, group_id')
+    .eq('id', parentId)
+    .single();
 
-  // Apply filters
-  if (filters.status) {
-    query = query.eq('status', filters.status);
-  }
-  
-  if (filters.category) {
-    query = query.eq('category', filters.category);
+  if (error || !parent) {
+    throw new Error('Parent task not found');
   }
-  
-  if (filters.priority) {
-    query = query.eq('priority', filters.priority);
-  }
-  
-  if (filters.assigned_to) {
-    query = query.eq('assigned_to', filters.assigned_to);
-  }
-  
-  if (filters.urgent !== undefined) {
-    query = query.eq('urgent', filters.urgent);
+
+  return createTask({ ...subtaskData, group_id: parent.group_id, parent_task_id: parent.id }, createdBy);
+};
+
+// Count the tasks matching a head-only query
+const countTasks = async (query: any): Promise<number> => {
+  const { count, error } = await query;
+
+  if (error) {
+    console.error('Count tasks error:', error);
+    throw new Error(`Failed to count tasks: ${error.message}`);
   }
-  
-  if (filters.completed !== undefined) {
-    if (filters.completed) {
-      query = query.eq('status', 'completed');
-    } else {
-      query = query.neq('status', 'completed');
-    }
+
+  return count ?? 0;
+};
+
+const taskListSelect = `
+  *,
+  assignee:assigned_to (
+    id,
+    name,
+    email
+  ),
+  creator:created_by (
+    id,
+    name,
+    email
+  ),
+  category:category_id (
+    id,
+    name,
+    color,
+    icon
+  )
+`;
+
+// Get tasks by group with optional filters
+export const getTasksByGroup = async (
+  groupId: string, 
+  filters: TaskFiltersData = { limit: 50, offset: 0 }
+): Promise<Paginated<TaskWithAssignee>> => {
+  if (filters.category_id) {
+    await categoryService.assertCategoryInGroup(filters.category_id, groupId);
   }
 
-  // Apply pagination
-  query = query.range(filters.offset || 0, (filters.offset || 0) + (filters.limit || 50) - 1);
+  const query = applyTaskFilters(
+    supabase.from('tasks').select(taskListSelect).eq('group_id', groupId),
+    filters
+  );
 
-  const { data, error } = await query;
+  const { data, error } = await paginateTaskQuery(query, filters);
 
   if (error) {
     console.error('Get tasks error:', error);
     throw new Error(`Failed to fetch tasks: ${error.message}`);
   }
 
-  return data || [];
+  const total = filters.include_total
+    ? await countTasks(applyTaskFilters(
+      supabase.from('tasks').select('id', { count: 'exact', head: true }).eq('group_id', groupId),
+      filters
+    ))
+    : null;
+
+  return buildPage<TaskWithAssignee>(data || [], filters.limit || 50, toTaskCursor(filters), total);
 };
 
 // Get tasks assigned to a specific user
@@ -131,56 +318,33 @@ export const getTasksByAssignee = async (
   userId: string,
   groupId?: string,
   filters: TaskFiltersData = { limit: 50, offset: 0 }
-): Promise<TaskWithAssignee[]> => {
-  let query = supabase
-    .from('tasks')
-    .select(`
-      *,
-      assignee:assigned_to (
-        id,
-        name,
-        email
-      ),
-      creator:created_by (
-        id,
-        name,
-        email
-      )
-    `)
-    .eq('assigned_to', userId)
-    .order('created_at', { ascending: false });
-
-  if (groupId) {
-    query = query.eq('group_id', groupId);
-  }
-
-  // Apply same filters as getTasksByGroup
-  if (filters.status) query = query.eq('status', filters.status);
-  if (filters.category) query = query.eq('category', filters.category);
-  if (filters.priority) query = query.eq('priority', filters.priority);
-  if (filters.urgent !== undefined) query = query.eq('urgent', filters.urgent);
-  if (filters.completed !== undefined) {
-    if (filters.completed) {
-      query = query.eq('status', 'completed');
-    } else {
-      query = query.neq('status', 'completed');
-    }
-  }
+): Promise<Paginated<TaskWithAssignee>> => {
+  const scope = (query: any) => {
+    query = query.eq('assigned_to', userId);
+    return groupId ? query.eq('group_id', groupId) : query;
+  };
 
-  query = query.range(filters.offset || 0, (filters.offset || 0) + (filters.limit || 50) - 1);
+  const query = applyTaskFilters(scope(supabase.from('tasks').select(taskListSelect)), filters);
 
-  const { data, error } = await query;
+  const { data, error } = await paginateTaskQuery(query, filters);
 
   if (error) {
     console.error('Get user tasks error:', error);
     throw new Error(`Failed to fetch user tasks: ${error.message}`);
   }
 
-  return data || [];
+  const total = filters.include_total
+    ? await countTasks(applyTaskFilters(
+      scope(supabase.from('tasks').select('id', { count: 'exact', head: true })),
+      filters
+    ))
+    : null;
+
+  return buildPage<TaskWithAssignee>(data || [], filters.limit || 50, toTaskCursor(filters), total);
 };
 
-// Get a single task by ID
-export const getTaskById = async (taskId: string): Promise<TaskWithAssignee | null> => {
+// Get a single task by ID, with its nested subtasks, their progress and its dependencies
+export const getTaskById = async (taskId: string): Promise<TaskDetail | null> => {
   const { data, error } = await supabase
     .from('tasks')
     .select(`
@@ -194,6 +358,12 @@ export const getTaskById = async (taskId: string): Promise<TaskWithAssignee | nu
         id,
         name,
         email
+      ),
+      category:category_id (
+        id,
+        name,
+        color,
+        icon
       )
     `)
     .eq('id', taskId)
@@ -207,101 +377,568 @@ export const getTaskById = async (taskId: string): Promise<TaskWithAssignee | nu
     throw new Error(`Failed to fetch task: ${error.message}`);
   }
 
-  return data;
+  const [tree, dependencies] = await Promise.all([
+    subtaskService.getSubtaskTree(data),
+    dependencyService.getDependencies(taskId),
+  ]);
+
+  return { ...tree, ...dependencies };
 };
 
-// Update a task
+/**
+ * Refuse changes that would lift the approval or photo proof a task's completion needs:
+ * only group admins move a supervised task to another category, and only whoever reviews
+ * the task changes its proof requirement.
+ */
+const assertCompletionRulesKept = async (
+  task: Task,
+  updates: Pick<UpdateTaskData, 'category_id' | 'requires_proof'>,
+  userId: string
+): Promise<void> => {
+  const movesCategory = updates.category_id !== undefined && updates.category_id !== task.category_id;
+  if (movesCategory && await approvalService.requiresApproval(task, userId)) {
+    throw new Error(`"${task.title}" needs approval; only group admins can move it to another category`);
+  }
+
+  const changesProof = updates.requires_proof !== undefined && updates.requires_proof !== task.requires_proof;
+  const liftsProof = changesProof || (movesCategory && await proofService.requiresProof(task));
+  if (liftsProof && !(await approvalService.canReview(task, userId))) {
+    throw new Error(`Only a group admin or the creator of "${task.title}" can change whether it needs a photo as proof`);
+  }
+};
+
+/**
+ * A task awaiting approval only leaves that status through whoever reviews it: completing
+ * it approves the submission, any other status sends it back.
+ */
+const assertCanLeaveReview = async (
+  task: Task,
+  status: UpdateTaskData['status'],
+  userId: string
+): Promise<void> => {
+  if (task.status !== 'awaiting_approval' || status === undefined) return;
+
+  if (!(await approvalService.canReview(task, userId))) {
+    throw new Error(`"${task.title}" is awaiting approval; only a group admin or its creator, if not supervised, can change its status`);
+  }
+};
+
+// Update a task. For recurring tasks, `scope` decides whether series-level fields
+// change just this occurrence or the whole series. Starting or completing a task with
+// open blockers fails unless `ignoreBlockers` is set. With `ifMatch`, the update only
+// applies to one of those versions of the task (see utils/etag).
 export const updateTask = async (
   taskId: string, 
   updates: UpdateTaskData, 
-  userId: string
-): Promise<Task> => {
+  userId: string,
+  scope: RecurrenceScopeData = 'occurrence',
+  ignoreBlockers: boolean = false,
+  ifMatch: number[] | null = null,
+  options: TaskUpdateOptions = {}
+): Promise<TaskUpdateResult> => {
+  const { proofAttachmentId } = options;
+  const { data: existing, error: fetchError } = await supabase
+    .from('tasks')
+    .select('*')
+    .eq('id', taskId)
+    .single();
+
+  if (fetchError || !existing) {
+    throw new Error('Task not found');
+  }
+
+  assertVersion(existing, ifMatch);
+
+  if (updates.category_id) {
+    await categoryService.assertCategoryInGroup(updates.category_id, existing.group_id);
+  }
+
+  await assertCompletionRulesKept(existing, updates, userId);
+
+  // approveCompletion has already checked the reviewer
+  if (!options.approved) {
+    await assertCanLeaveReview(existing, updates.status, userId);
+  }
+
+  const startsWork = updates.status === 'in_progress' || updates.status === 'completed';
+  if (startsWork && updates.status !== existing.status && !ignoreBlockers) {
+    await dependencyService.assertNotBlocked(taskId);
+  }
+
+  // An approved completion already came with its photo
+  const needsProof = updates.status === 'completed' && !proofAttachmentId &&
+    existing.status !== 'completed' && existing.status !== 'awaiting_approval';
+  if (needsProof && await proofService.requiresProof(existing)) {
+    throw new Error('This task needs a photo as proof; complete it with an image attached');
+  }
+
+  const { recurring_pattern, recurring_until, ...rest } = updates;
+  let taskUpdates: UpdateTaskData = rest;
+  const changesRecurrence = recurring_pattern !== undefined || recurring_until !== undefined;
+  const seriesSplit = existing.series_id && scope === 'series' ? recurrenceService.splitSeriesUpdates(updates) : null;
+  const convertsToSeries = !existing.series_id && Boolean(recurring_pattern);
+
+  if (seriesSplit) {
+    recurrenceService.assertSeriesUpdates(seriesSplit.seriesUpdates);
+    taskUpdates = seriesSplit.occurrenceUpdates;
+  } else if (existing.series_id && changesRecurrence) {
+    throw new Error('Recurrence can only be changed with scope=series');
+  } else if (convertsToSeries) {
+    taskUpdates = { ...rest, recurring_pattern, recurring_until: recurring_until ?? null };
+  } else if (!existing.series_id && recurring_until) {
+    throw new Error('recurring_until requires a recurring_pattern');
+  }
+
+  // Moving a task under another parent appends it to that parent's subtasks
+  let position: number | undefined;
+  if (taskUpdates.parent_task_id && taskUpdates.parent_task_id !== existing.parent_task_id) {
+    await subtaskService.validateParent(taskUpdates.parent_task_id, existing.group_id, taskId);
+    position = await subtaskService.getNextPosition(taskUpdates.parent_task_id);
+  }
+
+  // A new completion carries its photo; reopening the task or sending it back drops it,
+  // along with who submitted it
+  const reopens = updates.status !== undefined && updates.status !== 'completed';
+  const proofUpdate = proofAttachmentId ?? (reopens ? null : undefined);
+
+  // A supervised completion waits for a group admin (or the task's creator) to approve it.
+  // Completing a task that awaits approval is the reviewer's approval, not a new submission.
+  const submitsForApproval = updates.status === 'completed' && !options.approved &&
+    existing.status !== 'completed' && existing.status !== 'awaiting_approval' &&
+    await approvalService.requiresApproval(existing, userId);
+
   // If marking as completed, set completed_at timestamp
   const updateData = {
-    ...updates,
+    ...taskUpdates,
+    ...(position !== undefined && { position }),
+    ...(proofUpdate !== undefined && { proof_attachment_id: proofUpdate }),
+    ...(submitsForApproval && { status: 'awaiting_approval', submitted_by: userId }),
+    ...(reopens && { submitted_by: null }),
     updated_at: new Date().toISOString(),
   };
 
-  if (updates.status === 'completed' && !updates.completed_at) {
+  if (submitsForApproval) {
+    updateData.completed_at = null;
+  } else if (updates.status === 'completed' && !updates.completed_at) {
     updateData.completed_at = new Date().toISOString();
   } else if (updates.status !== 'completed') {
     updateData.completed_at = null;
   }
 
-  const { data, error } = await supabase
+  const justCompleted = !submitsForApproval && updates.status === 'completed' && existing.status !== 'completed';
+
+  let query = supabase
     .from('tasks')
     .update(updateData)
-    .eq('id', taskId)
-    .select()
-    .single();
+    .eq('id', taskId);
+
+  // Write only over the version that was checked, in case of a concurrent edit
+  if (ifMatch) {
+    query = query.eq('version', existing.version);
+  }
+
+  const { data: written, error } = await query.select().maybeSingle();
 
   if (error) {
     console.error('Update task error:', error);
     throw new Error(`Failed to update task: ${error.message}`);
   }
 
+  if (!written) {
+    return throwConflict(taskId);
+  }
+
+  // Everything else happens once the write went through, so a conflict leaves it all untouched
+  let data: Task = written;
+
+  if (seriesSplit && existing.series_id) {
+    await recurrenceService.updateSeries(existing.series_id, seriesSplit.seriesUpdates);
+  } else if (convertsToSeries) {
+    await recurrenceService.convertToSeries(written, recurring_pattern!, recurring_until ?? null);
+  }
+
+  // Series changes write to this task as well; return it as it now stands
+  if ((seriesSplit && Object.keys(seriesSplit.seriesUpdates).length > 0) || convertsToSeries) {
+    data = await getTaskRow(taskId);
+  }
+
+  // Completing, or submitting for approval, stops running timers; the tracked total becomes actual_duration
+  if (justCompleted || submitsForApproval) {
+    const actualDuration = await timeTrackingService.closeTimersForCompletion(taskId);
+    if (actualDuration !== null) {
+      data = await setActualDuration(taskId, actualDuration);
+    }
+  }
+
+  await commentService.logTaskChanges(existing, data, userId);
+  await revisionService.recordRevision(existing, data, userId, {
+    batchId: options.batchId,
+    revertsRevisionId: options.revertsRevisionId,
+  });
+  await pointsService.syncTaskPoints(existing, data, userId);
+
+  // Finishing the last open subtask completes a parent that opted in
+  if (justCompleted && data.parent_task_id) {
+    const parent = await subtaskService.getParentReadyToComplete(data.parent_task_id);
+    if (parent && !parent.is_blocked && !(await proofService.requiresProof(parent))) {
+      await updateTask(parent.id, { status: 'completed' }, userId);
+    }
+  }
+
+  // Completing an occurrence schedules the next one in its series
+  if (justCompleted && data.series_id) {
+    const nextOccurrence = await recurrenceService.spawnNextOccurrence(data);
+    return { ...data, next_occurrence: nextOccurrence };
+  }
+
   return data;
 };
 
+/**
+ * Complete a task, with the photo taken as proof when it needs one. The photo is stored
+ * first and removed again if the completion fails.
+ */
+export const completeTask = async (
+  taskId: string,
+  userId: string,
+  proof: UploadedFile | undefined,
+  ignoreBlockers: boolean = false,
+  ifMatch: number[] | null = null
+): Promise<TaskUpdateResult> => {
+  const completion: UpdateTaskData = { status: 'completed', completed_at: new Date().toISOString() };
+
+  if (!proof) {
+    return updateTask(taskId, completion, userId, 'occurrence', ignoreBlockers, ifMatch);
+  }
+
+  const attachment = await proofService.uploadProof(taskId, proof, userId);
+
+  try {
+    return await updateTask(taskId, completion, userId, 'occurrence', ignoreBlockers, ifMatch, {
+      proofAttachmentId: attachment.id,
+    });
+  } catch (error) {
+    await proofService.discardProof(attachment);
+    throw error;
+  }
+};
+
+// A task waiting for approval, checked against who is reviewing it
+const getTaskForReview = async (taskId: string, reviewerId: string): Promise<Task> => {
+  const { data: task, error } = await supabase
+    .from('tasks')
+    .select('*')
+    .eq('id', taskId)
+    .single();
+
+  if (error || !task) {
+    throw new Error('Task not found');
+  }
+
+  if (task.status !== 'awaiting_approval') {
+    throw new Error('Task is not awaiting approval');
+  }
+
+  if (!(await approvalService.canReview(task, reviewerId))) {
+    throw new Error('Only a group admin or the task creator, if not supervised, can review this completion');
+  }
+
+  return task;
+};
+
+// Approve a completion: the task is completed as of now
+export const approveCompletion = async (
+  taskId: string,
+  reviewerId: string,
+  approval: ApproveCompletionData
+): Promise<TaskUpdateResult> => {
+  await getTaskForReview(taskId, reviewerId);
+
+  // The submitter already got past any blockers
+  const task = await updateTask(taskId, { status: 'completed' }, reviewerId, 'occurrence', true, null, {
+    approved: true,
+  });
+
+  if (approval.comment) {
+    await commentService.createComment(taskId, { content: approval.comment }, reviewerId);
+  }
+
+  return task;
+};
+
+// Send a completion back: the task returns to in progress with the reviewer's comment
+export const rejectCompletion = async (
+  taskId: string,
+  reviewerId: string,
+  rejection: RejectCompletionData
+): Promise<TaskUpdateResult> => {
+  await getTaskForReview(taskId, reviewerId);
+
+  const task = await updateTask(taskId, { status: 'in_progress' }, reviewerId, 'occurrence', true);
+  await commentService.createComment(taskId, { content: rejection.comment }, reviewerId);
+
+  return task;
+};
+
+// Completions the member can review (tasks they created unless they are supervised, and any
+// in groups they administer), with the photo sent as proof
+export const getPendingApprovals = async (
+  userId: string,
+  filters: PendingApprovalsData
+): Promise<{ tasks: PendingApproval[]; total: number }> => {
+  const groups = await approvalService.getReviewerGroups(userId);
+  // Own tasks are reviewable except in groups where the member is supervised
+  const ownTasks = groups.supervised.length > 0
+    ? `and(created_by.eq.${userId},group_id.not.in.(${groups.supervised.join(',')}))`
+    : `created_by.eq.${userId}`;
+  const reviewable = groups.admin.length > 0
+    ? `${ownTasks},group_id.in.(${groups.admin.join(',')})`
+    : ownTasks;
+
+  let query = supabase
+    .from('tasks')
+    .select(taskListSelect, { count: 'exact' })
+    .eq('status', 'awaiting_approval')
+    .or(reviewable);
+
+  if (filters.group_id) {
+    query = query.eq('group_id', filters.group_id);
+  }
+
+  // Oldest submissions first
+  const { data, error, count } = await query
+    .order('updated_at', { ascending: true })
+    .range(filters.offset, filters.offset + filters.limit - 1);
+
+  if (error) {
+    console.error('Get pending approvals error:', error);
+    throw new Error(`Failed to fetch pending approvals: ${error.message}`);
+  }
+
+  const tasks = (data || []) as TaskWithAssignee[];
+  const proofs = await proofService.getProofs(tasks);
+
+  return {
+    tasks: tasks.map(task => ({ ...task, proof: proofs.get(task.id) ?? null })),
+    total: count || 0,
+  };
+};
+
 // Assign task to a user
 export const assignTask = async (
   taskId: string, 
   assignData: AssignTaskData, 
-  userId: string
+  userId: string,
+  ifMatch: number[] | null = null
 ): Promise<Task> => {
-  const { data, error } = await supabase
+  const { data: existing, error: fetchError } = await supabase
+    .from('tasks')
+    .select('*')
+    .eq('id', taskId)
+    .single();
+
+  if (fetchError || !existing) {
+    throw new Error('Task not found');
+  }
+
+  assertVersion(existing, ifMatch);
+
+  let query = supabase
     .from('tasks')
     .update({
       assigned_to: assignData.assigned_to,
       updated_at: new Date().toISOString(),
     })
-    .eq('id', taskId)
-    .select()
-    .single();
+    .eq('id', taskId);
+
+  if (ifMatch) {
+    query = query.eq('version', existing.version);
+  }
+
+  const { data, error } = await query.select().maybeSingle();
 
   if (error) {
     console.error('Assign task error:', error);
     throw new Error(`Failed to assign task: ${error.message}`);
   }
 
+  if (!data) {
+    return throwConflict(taskId);
+  }
+
+  await commentService.logTaskChanges(existing, data, userId);
+  await revisionService.recordRevision(existing, data, userId);
+
   return data;
 };
 
-// Delete a task
-export const deleteTask = async (taskId: string, userId: string): Promise<void> => {
-  const { error } = await supabase
+// Delete a task. Subtasks are deleted with it by default, or moved up a level with 'promote'.
+// Stored attachment files of every deleted task are removed afterwards. Returns the IDs of
+// all deleted tasks.
+export const deleteTask = async (
+  taskId: string,
+  userId: string,
+  subtaskPolicy: SubtaskDeletePolicyData = 'cascade',
+  ifMatch: number[] | null = null
+): Promise<string[]> => {
+  const { data: task, error: fetchError } = await supabase
+    .from('tasks')
+    .select('*')
+    .eq('id', taskId)
+    .single();
+
+  if (fetchError || !task) {
+    throw new Error('Task not found');
+  }
+
+  assertVersion(task, ifMatch);
+
+  if (subtaskPolicy === 'promote') {
+    await subtaskService.promoteSubtasks(taskId, task.parent_task_id);
+  }
+
+  const deletedTaskIds = subtaskPolicy === 'cascade'
+    ? [taskId, ...await subtaskService.getDescendantIds(taskId)]
+    : [taskId];
+  const attachmentKeys = await attachmentService.getAttachmentKeys(deletedTaskIds);
+
+  let query = supabase
     .from('tasks')
     .delete()
     .eq('id', taskId);
 
+  if (ifMatch) {
+    query = query.eq('version', task.version);
+  }
+
+  const { data: deleted, error } = await query.select('id');
+
   if (error) {
     console.error('Delete task error:', error);
     throw new Error(`Failed to delete task: ${error.message}`);
   }
+
+  if (!deleted || deleted.length === 0) {
+    return throwConflict(taskId);
+  }
+
+  await attachmentService.removeAttachmentBlobs(attachmentKeys);
+
+  return deletedTaskIds;
+};
+
+// Create several tasks. The whole list has been validated up front; tasks are created
+// in order so auto-assignment sees the ones before.
+export const bulkCreateTasks = async (
+  data: BulkCreateTasksData,
+  createdBy: string
+): Promise<TaskCreateResult[]> => {
+  const created: TaskCreateResult[] = [];
+  for (const taskData of data.tasks) {
+    created.push(await createTask(taskData, createdBy));
+  }
+
+  return created;
 };
 
-// Bulk update tasks
+// Delete several tasks. A task already removed as the subtask of an earlier one is skipped.
+export const bulkDeleteTasks = async (data: BulkDeleteTasksData, userId: string): Promise<string[]> => {
+  const { data: tasks, error } = await supabase
+    .from('tasks')
+    .select('id')
+    .in('id', data.taskIds);
+
+  if (error) {
+    console.error('Bulk delete tasks error:', error);
+    throw new Error(`Failed to bulk delete tasks: ${error.message}`);
+  }
+
+  if (!tasks || tasks.length !== new Set(data.taskIds).size) {
+    throw new Error('One or more tasks not found');
+  }
+
+  const deleted = new Set<string>();
+  for (const taskId of data.taskIds) {
+    if (deleted.has(taskId)) continue;
+    for (const id of await deleteTask(taskId, userId, data.subtasks)) {
+      deleted.add(id);
+    }
+  }
+
+  return [...deleted];
+};
+
+// Bulk update tasks. addTags/removeTags are applied to each task's own tags.
+// Each task goes through updateTask, so it gets the same checks and side effects as a single
+// update. Every change is recorded under one batch id, so the whole update can be undone.
 export const bulkUpdateTasks = async (
   updateData: BulkTaskUpdateData, 
   userId: string
-): Promise<Task[]> => {
-  const updates = {
-    ...updateData.updates,
-    updated_at: new Date().toISOString(),
-  };
+): Promise<BulkUpdateResult> => {
+  const changesTags = Boolean(updateData.addTags?.length || updateData.removeTags?.length);
 
-  const { data, error } = await supabase
+  const { data: existing, error: fetchError } = await supabase
     .from('tasks')
-    .update(updates)
-    .in('id', updateData.taskIds)
-    .select();
+    .select('*')
+    .in('id', updateData.taskIds);
 
-  if (error) {
-    console.error('Bulk update tasks error:', error);
-    throw new Error(`Failed to bulk update tasks: ${error.message}`);
+  if (fetchError) {
+    console.error('Bulk update tasks error:', fetchError);
+    throw new Error(`Failed to bulk update tasks: ${fetchError.message}`);
   }
 
-  return data || [];
+  const tasks: Task[] = existing || [];
+  const { status } = updateData.updates;
+
+  // Everything that can fail is checked for all tasks before any is written
+
+  // Completions that need a photo go through completeTask one by one
+  if (status === 'completed') {
+    for (const task of tasks.filter(task => task.status !== 'completed')) {
+      if (await proofService.requiresProof(task)) {
+        throw new Error(`"${task.title}" needs a photo as proof; complete it on its own`);
+      }
+    }
+  }
+
+  if (status === 'in_progress' || status === 'completed') {
+    for (const task of tasks.filter(task => task.status !== status)) {
+      try {
+        await dependencyService.assertNotBlocked(task.id);
+      } catch (error: any) {
+        throw new Error(`"${task.title}": ${error.message}`);
+      }
+    }
+  }
+
+  for (const task of tasks) {
+    await assertCompletionRulesKept(task, updateData.updates, userId);
+    await assertCanLeaveReview(task, status, userId);
+  }
+
+  // A category can only be applied to tasks of its own group
+  if (updateData.updates.category_id) {
+    for (const groupId of new Set(tasks.map(task => task.group_id))) {
+      await categoryService.assertCategoryInGroup(updateData.updates.category_id, groupId);
+    }
+  }
+
+  // Merge every task's tags first, so an over-limit task fails the request before anything is written
+  const taskUpdates = tasks.map(task => ({
+    id: task.id,
+    updates: changesTags
+      ? { ...updateData.updates, tags: tagService.mergeTags(task.tags, updateData.addTags, updateData.removeTags) }
+      : updateData.updates,
+  }));
+
+  const batchId = randomUUID();
+  const updated: Task[] = [];
+
+  for (const task of taskUpdates) {
+    updated.push(await updateTask(task.id, task.updates, userId, 'occurrence', false, null, { batchId }));
+  }
+
+  return { tasks: updated, batch_id: batchId };
 };
 
 // Get task statistics for a group
@@ -310,12 +947,19 @@ export const getTaskStats = async (groupId: string): Promise<{
   completed: number;
   pending: number;
   inProgress: number;
+  awaitingApproval: number;
   overdue: number;
   completionRate: number;
+  timeTracking: {
+    trackedTasks: number;
+    estimatedMinutes: number;
+    actualMinutes: number;
+    estimateAccuracy: number | null;
+  };
 }> => {
   const { data, error } = await supabase
     .from('tasks')
-    .select('status, due_date')
+    .select('status, due_date, estimated_minutes, actual_duration')
     .eq('group_id', groupId);
 
   if (error) {
@@ -327,6 +971,7 @@ export const getTaskStats = async (groupId: string): Promise<{
   const completed = data?.filter(task => task.status === 'completed').length || 0;
   const pending = data?.filter(task => task.status === 'pending').length || 0;
   const inProgress = data?.filter(task => task.status === 'in_progress').length || 0;
+  const awaitingApproval = data?.filter(task => task.status === 'awaiting_approval').length || 0;
   
   const now = new Date();
   const overdue = data?.filter(task => 
@@ -337,12 +982,29 @@ export const getTaskStats = async (groupId: string): Promise<{
 
   const completionRate = total > 0 ? Math.round((completed / total) * 100) : 0;
 
+  // Estimates vs. reality, over completed tasks that have both
+  const tracked = data?.filter(task =>
+    task.status === 'completed' &&
+    task.estimated_minutes &&
+    task.actual_duration !== null
+  ) || [];
+  const estimatedMinutes = tracked.reduce((sum, task) => sum + task.estimated_minutes, 0);
+  const actualMinutes = tracked.reduce((sum, task) => sum + task.actual_duration, 0);
+
   return {
     total,
     completed,
     pending,
     inProgress,
+    awaitingApproval,
     overdue,
     completionRate,
+    timeTracking: {
+      trackedTasks: tracked.length,
+      estimatedMinutes,
+      actualMinutes,
+      // Actual time as a percentage of the estimate; over 100 means tasks take longer than planned
+      estimateAccuracy: estimatedMinutes > 0 ? Math.round((actualMinutes / estimatedMinutes) * 100) : null,
+    },
   };
 };
\ No newline at end of file
@@ -0,0 +1,194 @@
+// Task Template Service
+// Group-scoped templates for bundles of work that repeat ("weekly clean"): a task plus its
+// checklist of subtasks, created in one call with {{variables}} filled in.
+import { supabase } from '../config/supabase';
+import * as categoryService from './categoryService';
+import * as taskService from './taskService';
+import type { Task, TaskCreateResult } from './taskService';
+import { createTaskSchema, createSubtaskSchema } from '../validators/taskValidator';
+import { getDateVariables, renderTemplateString } from '../utils/templateVariables';
+import type {
+  CreateTemplateData,
+  UpdateTemplateData,
+  InstantiateTemplateData,
+} from '../validators/templateValidator';
+
+export interface TaskTemplate {
+  id: string;
+  group_id: string;
+  name: string;
+  task: CreateTemplateData['task'];
+  subtasks: CreateTemplateData['subtasks'];
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Get a template, which must belong to the group
+export const getTemplate = async (groupId: string, templateId: string): Promise<TaskTemplate> => {
+  const { data, error } = await supabase
+    .from('task_templates')
+    .select('*')
+    .eq('id', templateId)
+    .eq('group_id', groupId)
+    .single();
+
+  if (error || !data) {
+    throw new Error('Template not found in this group');
+  }
+
+  return data;
+};
+
+// Get the templates of a group by name
+export const getTemplatesByGroup = async (groupId: string): Promise<TaskTemplate[]> => {
+  const { data, error } = await supabase
+    .from('task_templates')
+    .select('*')
+    .eq('group_id', groupId)
+    .order('name', { ascending: true });
+
+  if (error) {
+    console.error('Get templates error:', error);
+    throw new Error(`Failed to fetch templates: ${error.message}`);
+  }
+
+  return data || [];
+};
+
+// Create a template in a group
+export const createTemplate = async (
+  groupId: string,
+  templateData: CreateTemplateData,
+  createdBy: string
+): Promise<TaskTemplate> => {
+  if (templateData.task.category_id) {
+    await categoryService.assertCategoryInGroup(templateData.task.category_id, groupId);
+  }
+
+  const { data, error } = await supabase
+    .from('task_templates')
+    .insert({
+      ...templateData,
+      group_id: groupId,
+      created_by: createdBy,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new Error('A template with this name already exists');
+    }
+    console.error('Create template error:', error);
+    throw new Error(`Failed to create template: ${error.message}`);
+  }
+
+  return data;
+};
+
+// Update a template of a group
+export const updateTemplate = async (
+  groupId: string,
+  templateId: string,
+  updates: UpdateTemplateData
+): Promise<TaskTemplate> => {
+  await getTemplate(groupId, templateId);
+
+  if (updates.task?.category_id) {
+    await categoryService.assertCategoryInGroup(updates.task.category_id, groupId);
+  }
+
+  const { data, error } = await supabase
+    .from('task_templates')
+    .update({
+      ...updates,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', templateId)
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new Error('A template with this name already exists');
+    }
+    console.error('Update template error:', error);
+    throw new Error(`Failed to update template: ${error.message}`);
+  }
+
+  return data;
+};
+
+export const deleteTemplate = async (groupId: string, templateId: string): Promise<void> => {
+  await getTemplate(groupId, templateId);
+
+  const { error } = await supabase
+    .from('task_templates')
+    .delete()
+    .eq('id', templateId);
+
+  if (error) {
+    console.error('Delete template error:', error);
+    throw new Error(`Failed to delete template: ${error.message}`);
+  }
+};
+
+/**
+ * Create the template's task and subtasks. Every variable must resolve; the rendered
+ * tasks are validated like any other new task before anything is created.
+ */
+export const instantiateTemplate = async (
+  groupId: string,
+  templateId: string,
+  options: InstantiateTemplateData,
+  createdBy: string
+): Promise<{ task: TaskCreateResult; subtasks: Task[] }> => {
+  const template = await getTemplate(groupId, templateId);
+
+  const date = options.date ? new Date(`${options.date}T00:00:00.000Z`) : new Date();
+  const variables = { ...getDateVariables(date), ...options.variables };
+  const missing = new Set<string>();
+  const render = (text: string | undefined) =>
+    text === undefined ? undefined : renderTemplateString(text, variables, missing);
+
+  const { due_in_days, ...taskFields } = template.task;
+  const dueDate = options.due_date ??
+    (due_in_days !== undefined
+      ? new Date(date.getTime() + due_in_days * 24 * 60 * 60 * 1000).toISOString()
+      : undefined);
+
+  const taskData = {
+    ...taskFields,
+    title: render(taskFields.title),
+    description: render(taskFields.description),
+    assigned_to: options.assigned_to ?? taskFields.assigned_to,
+    due_date: dueDate,
+    group_id: groupId,
+  };
+
+  const subtasksData = (template.subtasks || []).map(subtask => ({
+    ...subtask,
+    title: render(subtask.title),
+    description: render(subtask.description),
+    priority: subtask.priority ?? taskFields.priority,
+  }));
+
+  if (missing.size > 0) {
+    throw new Error(`Missing template variables: ${[...missing].join(', ')}`);
+  }
+
+  const parsedTask = createTaskSchema.parse(taskData);
+  const parsedSubtasks = subtasksData.map(subtask => createSubtaskSchema.parse(subtask));
+
+  const task = await taskService.createTask(parsedTask, createdBy);
+
+  const subtasks: Task[] = [];
+  for (const subtask of parsedSubtasks) {
+    subtasks.push(await taskService.createSubtask(task.id, subtask, createdBy));
+  }
+
+  return { task, subtasks };
+};
@@ -0,0 +1,330 @@
+// Time Tracking Service
+// Timed sessions and manual entries per task and member; their total becomes tasks.actual_duration
+import { supabase } from '../config/supabase';
+import type { ManualTimeEntryData } from '../validators/timeTrackingValidator';
+
+export interface TimeEntry {
+  id: string;
+  task_id: string;
+  member_id: string;
+  source: 'timer' | 'manual';
+  started_at: string;
+  ended_at: string | null;
+  duration_seconds: number | null;
+  paused: boolean;
+  note: string | null;
+  created_at: string;
+}
+
+export interface TaskTimeSummary {
+  entries: TimeEntry[];
+  total_seconds: number;
+  total_minutes: number;
+}
+
+const secondsBetween = (from: string, to: Date): number =>
+  Math.max(0, Math.floor((to.getTime() - new Date(from).getTime()) / 1000));
+
+// Tracked time of an entry, counting a running timer up to now
+const entrySeconds = (entry: TimeEntry, now: Date = new Date()): number =>
+  entry.ended_at ? entry.duration_seconds ?? 0 : secondsBetween(entry.started_at, now);
+
+const getTaskStatus = async (taskId: string) => {
+  const { data: task, error } = await supabase
+    .from('tasks')
+    .select('id, status')
+    .eq('id', taskId)
+    .single();
+
+  if (error || !task) {
+    throw new Error('Task not found');
+  }
+
+  return task;
+};
+
+// The member's running timer, on any task
+export const getRunningEntry = async (memberId: string): Promise<TimeEntry | null> => {
+  const { data, error } = await supabase
+    .from('task_time_entries')
+    .select('*')
+    .eq('member_id', memberId)
+    .is('ended_at', null)
+    .limit(1);
+
+  if (error) {
+    console.error('Get running timer error:', error);
+    throw new Error(`Failed to fetch running timer: ${error.message}`);
+  }
+
+  return data && data.length > 0 ? data[0] : null;
+};
+
+const closeEntry = async (entry: TimeEntry, paused: boolean): Promise<TimeEntry> => {
+  const now = new Date();
+
+  const { data, error } = await supabase
+    .from('task_time_entries')
+    .update({
+      ended_at: now.toISOString(),
+      duration_seconds: secondsBetween(entry.started_at, now),
+      paused,
+    })
+    .eq('id', entry.id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Close timer error:', error);
+    throw new Error(`Failed to stop timer: ${error.message}`);
+  }
+
+  return data;
+};
+
+// A stopped (or resumed) timer is no longer paused
+const clearPaused = async (taskId: string, memberId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('task_time_entries')
+    .update({ paused: false })
+    .eq('task_id', taskId)
+    .eq('member_id', memberId)
+    .eq('paused', true);
+
+  if (error) {
+    console.error('Clear paused timer error:', error);
+    throw new Error(`Failed to update timer: ${error.message}`);
+  }
+};
+
+/**
+ * Start (or resume) the member's timer on a task. A member can only run one timer at a time.
+ */
+export const startTimer = async (taskId: string, memberId: string): Promise<TimeEntry> => {
+  const task = await getTaskStatus(taskId);
+  if (task.status === 'completed' || task.status === 'cancelled') {
+    throw new Error(`Cannot track time on a ${task.status} task`);
+  }
+
+  // The member's work is done once it has been submitted
+  if (task.status === 'awaiting_approval') {
+    throw new Error('Cannot track time on a task awaiting approval');
+  }
+
+  const running = await getRunningEntry(memberId);
+  if (running) {
+    throw new Error(
+      running.task_id === taskId
+        ? 'Timer is already running on this task'
+        : 'You already have a timer running on another task; pause or stop it first'
+    );
+  }
+
+  await clearPaused(taskId, memberId);
+
+  const { data, error } = await supabase
+    .from('task_time_entries')
+    .insert({
+      task_id: taskId,
+      member_id: memberId,
+      source: 'timer',
+      started_at: new Date().toISOString(),
+      created_at: new Date().toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    // Unique index on running timers; another start won the race
+    if (error.code === '23505') {
+      throw new Error('You already have a timer running; pause or stop it first');
+    }
+    console.error('Start timer error:', error);
+    throw new Error(`Failed to start timer: ${error.message}`);
+  }
+
+  return data;
+};
+
+export const pauseTimer = async (taskId: string, memberId: string): Promise<TimeEntry> => {
+  const running = await getRunningEntry(memberId);
+  if (!running || running.task_id !== taskId) {
+    throw new Error('No running timer on this task');
+  }
+
+  return closeEntry(running, true);
+};
+
+/**
+ * Stop the member's timer on a task, whether it is running or paused
+ */
+export const stopTimer = async (taskId: string, memberId: string): Promise<TimeEntry> => {
+  const running = await getRunningEntry(memberId);
+  if (running && running.task_id === taskId) {
+    await clearPaused(taskId, memberId);
+    return closeEntry(running, false);
+  }
+
+  const { data: paused, error } = await supabase
+    .from('task_time_entries')
+    .select('*')
+    .eq('task_id', taskId)
+    .eq('member_id', memberId)
+    .eq('paused', true)
+    .order('ended_at', { ascending: false })
+    .limit(1);
+
+  if (error) {
+    console.error('Stop timer error:', error);
+    throw new Error(`Failed to stop timer: ${error.message}`);
+  }
+
+  if (!paused || paused.length === 0) {
+    throw new Error('No timer on this task');
+  }
+
+  await clearPaused(taskId, memberId);
+  return { ...paused[0], paused: false };
+};
+
+export const getTimeEntries = async (taskId: string): Promise<TaskTimeSummary> => {
+  const { data, error } = await supabase
+    .from('task_time_entries')
+    .select('*')
+    .eq('task_id', taskId)
+    .order('started_at', { ascending: true });
+
+  if (error) {
+    console.error('Get time entries error:', error);
+    throw new Error(`Failed to fetch time entries: ${error.message}`);
+  }
+
+  const entries: TimeEntry[] = data || [];
+  const now = new Date();
+  const totalSeconds = entries.reduce((sum, entry) => sum + entrySeconds(entry, now), 0);
+
+  return {
+    entries,
+    total_seconds: totalSeconds,
+    total_minutes: Math.round(totalSeconds / 60),
+  };
+};
+
+// Keep actual_duration of a completed task in line with its entries
+const refreshActualDuration = async (taskId: string): Promise<void> => {
+  const { entries, total_minutes } = await getTimeEntries(taskId);
+
+  const { error } = await supabase
+    .from('tasks')
+    .update({ actual_duration: entries.length > 0 ? total_minutes : null })
+    .eq('id', taskId);
+
+  if (error) {
+    console.error('Update actual duration error:', error);
+    throw new Error(`Failed to update actual duration: ${error.message}`);
+  }
+};
+
+/**
+ * Record time worked without a timer
+ */
+export const addManualEntry = async (
+  taskId: string,
+  memberId: string,
+  entryData: ManualTimeEntryData
+): Promise<TimeEntry> => {
+  const task = await getTaskStatus(taskId);
+  const durationSeconds = entryData.minutes * 60;
+  const endedAt = new Date();
+  const startedAt = entryData.started_at
+    ? new Date(entryData.started_at)
+    : new Date(endedAt.getTime() - durationSeconds * 1000);
+
+  const { data, error } = await supabase
+    .from('task_time_entries')
+    .insert({
+      task_id: taskId,
+      member_id: memberId,
+      source: 'manual',
+      started_at: startedAt.toISOString(),
+      ended_at: new Date(startedAt.getTime() + durationSeconds * 1000).toISOString(),
+      duration_seconds: durationSeconds,
+      note: entryData.note ?? null,
+      created_at: new Date().toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Add time entry error:', error);
+    throw new Error(`Failed to add time entry: ${error.message}`);
+  }
+
+  // Time logged after completion still counts
+  if (task.status === 'completed') {
+    await refreshActualDuration(taskId);
+  }
+
+  return data;
+};
+
+// Delete a time entry (own entries only; stop a running timer instead of deleting it)
+export const deleteTimeEntry = async (entryId: string, taskId: string, memberId: string): Promise<void> => {
+  const { data: entry, error: fetchError } = await supabase
+    .from('task_time_entries')
+    .select('*')
+    .eq('id', entryId)
+    .eq('task_id', taskId)
+    .single();
+
+  if (fetchError || !entry) {
+    throw new Error('Time entry not found');
+  }
+
+  if (entry.member_id !== memberId) {
+    throw new Error('Forbidden: Only the member who logged this time can delete it');
+  }
+
+  if (!entry.ended_at) {
+    throw new Error('Stop the running timer before deleting it');
+  }
+
+  const { error } = await supabase
+    .from('task_time_entries')
+    .delete()
+    .eq('id', entryId);
+
+  if (error) {
+    console.error('Delete time entry error:', error);
+    throw new Error(`Failed to delete time entry: ${error.message}`);
+  }
+
+  const task = await getTaskStatus(taskId);
+  if (task.status === 'completed') {
+    await refreshActualDuration(taskId);
+  }
+};
+
+/**
+ * Stop every running timer on a task that is being completed (or submitted for approval)
+ * and return its total tracked minutes, or null when no time was tracked.
+ */
+export const closeTimersForCompletion = async (taskId: string): Promise<number | null> => {
+  const { data: running, error } = await supabase
+    .from('task_time_entries')
+    .select('*')
+    .eq('task_id', taskId)
+    .is('ended_at', null);
+
+  if (error) {
+    console.error('Close timers error:', error);
+    throw new Error(`Failed to stop timers: ${error.message}`);
+  }
+
+  for (const entry of running || []) {
+    await closeEntry(entry, false);
+  }
+
+  const { entries, total_minutes } = await getTimeEntries(taskId);
+  return entries.length > 0 ? total_minutes : null;
+};
@@ -0,0 +1,69 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { supabase } from '../config/supabase';
+import { canReview, isGroupAdmin, requiresApproval } from '../services/approvalService';
+import { tables } from './supabaseMock';
+
+// Mock Supabase
+jest.mock('../config/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+  },
+}));
+
+const task = { group_id: 'group-1', created_by: 'parent-1', category_id: 'category-1' };
+
+describe('Completion approval', () => {
+  beforeEach(() => {
+    (supabase.from as jest.Mock).mockReset();
+  });
+
+  it('should hold completions of a supervised member', async () => {
+    tables({
+      group_memberships: { data: { id: 'membership-1', metadata: { approval: { requires_approval: true } }, roles: { name: 'member' } } },
+      categories: { data: { requires_approval: false } },
+    });
+
+    await expect(requiresApproval(task, 'child-1')).resolves.toBe(true);
+  });
+
+  it('should hold completions in a category that needs approval', async () => {
+    tables({
+      group_memberships: { data: { id: 'membership-1', metadata: {}, roles: { name: 'member' } } },
+      categories: { data: { requires_approval: true } },
+    });
+
+    await expect(requiresApproval(task, 'child-1')).resolves.toBe(true);
+    await expect(requiresApproval({ ...task, category_id: null }, 'child-1')).resolves.toBe(false);
+  });
+
+  it('should hold completions of a supervised member on tasks they created', async () => {
+    tables({
+      group_memberships: { data: { id: 'membership-1', metadata: { approval: { requires_approval: true } }, roles: { name: 'member' } } },
+    });
+
+    await expect(requiresApproval({ ...task, created_by: 'child-1' }, 'child-1')).resolves.toBe(true);
+    await expect(canReview({ ...task, created_by: 'child-1' }, 'child-1')).resolves.toBe(false);
+  });
+
+  it('should not hold completions by a group admin', async () => {
+    tables({
+      group_memberships: { data: { id: 'membership-2', metadata: { approval: { requires_approval: true } }, roles: { name: 'admin' } } },
+      categories: { data: { requires_approval: true } },
+    });
+
+    await expect(requiresApproval(task, 'admin-1')).resolves.toBe(false);
+    await expect(canReview(task, 'admin-1')).resolves.toBe(true);
+  });
+
+  it('should go by the member\'s role in the group itself', async () => {
+    const queries = tables({
+      group_memberships: { data: { id: 'membership-2', metadata: {}, roles: { name: 'admin' } } },
+    });
+
+    await expect(isGroupAdmin('group-1', 'admin-1')).resolves.toBe(true);
+    expect(queries.group_memberships.eq).toHaveBeenCalledWith('group_id', 'group-1');
+
+    tables({ group_memberships: { data: { id: 'membership-3', metadata: {}, roles: { name: 'member' } } } });
+    await expect(isGroupAdmin('group-2', 'admin-1')).resolves.toBe(false);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { rankCandidates, taskWeight } from '../services/assignmentService';
+import type { AssignmentCandidate, GroupMember } from '../services/assignmentService';
+
+// Mock Supabase
+jest.mock('../config/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+  },
+}));
+
+jest.mock('../services/taskService', () => ({}));
+
+const ALEX = '123e4567-e89b-12d3-a456-426614174001';
+const SAM = '123e4567-e89b-12d3-a456-426614174002';
+const KITCHEN = '223e4567-e89b-12d3-a456-426614174000';
+
+const member = (member_id: string, name: string, preferences: Partial<GroupMember['preferences']> = {}): GroupMember => ({
+  member_id,
+  name,
+  preferences: { available: true, unavailable_until: null, excluded_category_ids: [], ...preferences },
+});
+
+const candidate = (member_id: string, name: string, score: number, open_tasks = 1): AssignmentCandidate => ({
+  member_id,
+  name,
+  open_tasks,
+  open_load: score,
+  recent_load: 0,
+  score,
+  excluded_reason: null,
+});
+
+const task = { estimated_minutes: 30, priority: 'Medium', urgent: false, category_id: KITCHEN };
+
+describe('Fair-share assignment', () => {
+  it('should weigh tasks by estimate, priority and urgency', () => {
+    expect(taskWeight({ estimated_minutes: 20, priority: 'Low', urgent: false })).toBe(20);
+    expect(taskWeight({ estimated_minutes: 20, priority: 'High', urgent: true })).toBe(60);
+    expect(taskWeight({ estimated_minutes: null, priority: 'Low', urgent: false })).toBe(30);
+  });
+
+  it('should pick the member with the lowest load and explain why', () => {
+    const decision = rankCandidates(
+      [member(ALEX, 'Alex'), member(SAM, 'Sam')],
+      [candidate(ALEX, 'Alex', 90), candidate(SAM, 'Sam', 45)],
+      task
+    );
+
+    expect(decision.assigned_to).toBe(SAM);
+    expect(decision.reason).toContain('Sam has the lowest weighted load');
+    expect(decision.candidates).toHaveLength(2);
+  });
+
+  it('should skip unavailable and excluded members', () => {
+    const decision = rankCandidates(
+      [
+        member(ALEX, 'Alex'),
+        member(SAM, 'Sam', { unavailable_until: '2099-01-01T00:00:00.000Z' }),
+      ],
+      [candidate(ALEX, 'Alex', 90), candidate(SAM, 'Sam', 0)],
+      task
+    );
+
+    expect(decision.assigned_to).toBe(ALEX);
+    expect(decision.candidates.find(c => c.member_id === SAM)?.excluded_reason).toContain('Unavailable until');
+  });
+
+  it('should respect category exclusions', () => {
+    const decision = rankCandidates(
+      [member(ALEX, 'Alex'), member(SAM, 'Sam', { excluded_category_ids: [KITCHEN] })],
+      [candidate(ALEX, 'Alex', 90), candidate(SAM, 'Sam', 0)],
+      task
+    );
+
+    expect(decision.assigned_to).toBe(ALEX);
+  });
+
+  it('should fail when nobody is available', () => {
+    expect(() => rankCandidates(
+      [member(ALEX, 'Alex', { available: false })],
+      [candidate(ALEX, 'Alex', 0)],
+      task
+    )).toThrow('No available member to assign this task to');
+  });
+});
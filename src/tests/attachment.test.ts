@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, jest } from '@jest/globals';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { supabase } from '../config/supabase';
+import { detectFileType } from '../utils/fileType';
+import { deleteAttachment, validateUploadedFile } from '../services/attachmentService';
+import { LocalStorageDriver, setStorageDriver } from '../services/storage';
+import type { StorageDriver } from '../services/storage';
+import { queue } from './supabaseMock';
+
+// Mock Supabase
+jest.mock('../config/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+    storage: { from: jest.fn() },
+  },
+}));
+
+jest.mock('../config/security', () => ({
+  validationConfig: {
+    allowedFileTypes: ['image/jpeg', 'image/png', 'image/gif', 'image/webp'],
+    maxFileSize: 5 * 1024 * 1024,
+  },
+}));
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00]);
+const PDF = Buffer.from('%PDF-1.7 test');
+
+describe('File type detection', () => {
+  it('should detect images from their content', () => {
+    expect(detectFileType(PNG)?.mimeType).toBe('image/png');
+    expect(detectFileType(Buffer.from([0xff, 0xd8, 0xff, 0xe0]))?.mimeType).toBe('image/jpeg');
+    expect(detectFileType(Buffer.from('RIFF\x00\x00\x00\x00WEBPVP8 '))?.mimeType).toBe('image/webp');
+  });
+
+  it('should not recognise arbitrary content', () => {
+    expect(detectFileType(Buffer.from('<script>alert(1)</script>'))).toBeNull();
+  });
+
+  it('should only accept allowed file types', () => {
+    expect(validateUploadedFile({ originalname: 'photo.png', buffer: PNG, size: PNG.length }).mimeType).toBe('image/png');
+    expect(() => validateUploadedFile({ originalname: 'photo.png', buffer: PDF, size: PDF.length }))
+      .toThrow('File type not allowed');
+    expect(() => validateUploadedFile(undefined)).toThrow('A file is required');
+  });
+});
+
+describe('Local storage driver', () => {
+  let directory: string;
+  let driver: LocalStorageDriver;
+
+  beforeAll(async () => {
+    process.env.STORAGE_SIGNING_SECRET = 'test-secret';
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'taskly-storage-'));
+    driver = new LocalStorageDriver(directory);
+  });
+
+  afterAll(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should issue signed URLs that verify', async () => {
+    await driver.put('group/task/file.png', PNG);
+    const url = new URL(await driver.getSignedUrl('group/task/file.png', 60), 'http://localhost');
+    const params = url.searchParams;
+
+    const filePath = driver.verifySignedUrl(params.get('key')!, Number(params.get('expires')), params.get('signature')!);
+    expect(await fs.readFile(filePath)).toEqual(PNG);
+  });
+
+  it('should reject tampered and expired URLs', async () => {
+    const url = new URL(await driver.getSignedUrl('group/task/file.png', 60), 'http://localhost');
+    const expires = Number(url.searchParams.get('expires'));
+    const signature = url.searchParams.get('signature')!;
+
+    expect(() => driver.verifySignedUrl('group/task/other.png', expires, signature)).toThrow('Invalid download signature');
+    expect(() => driver.verifySignedUrl('group/task/file.png', 1, signature)).toThrow('Download link has expired');
+  });
+
+  it('should refuse keys outside the storage directory', async () => {
+    await expect(driver.put('../escape.png', PNG)).rejects.toThrow('Invalid storage key');
+  });
+});
+
+describe('Attachment deletion', () => {
+  const remove = jest.fn((_keys: string[]) => Promise.resolve());
+  const photo = { id: 'attachment-1', task_id: 'task-1', uploaded_by: 'child-1', file_url: 'group/task-1/photo.png' };
+
+  beforeEach(() => {
+    (supabase.from as jest.Mock).mockReset();
+    remove.mockClear();
+    setStorageDriver({ remove } as unknown as StorageDriver);
+  });
+
+  it('should keep the photo that proves a completion under review or standing', async () => {
+    for (const status of ['awaiting_approval', 'completed']) {
+      const queries = queue({ data: photo }, { data: { status, proof_attachment_id: 'attachment-1' } });
+
+      await expect(deleteAttachment('task-1', 'attachment-1', 'child-1')).rejects
+        .toThrow("This photo is the proof of the task's completion and cannot be deleted");
+      expect(queries).toHaveLength(2);
+    }
+    expect(remove).not.toHaveBeenCalled();
+  });
+
+  it('should delete a proof photo once the task was reopened', async () => {
+    const queries = queue({ data: photo }, { data: { status: 'in_progress', proof_attachment_id: null } }, { data: null });
+
+    await deleteAttachment('task-1', 'attachment-1', 'child-1');
+
+    expect(queries[2].delete).toHaveBeenCalled();
+    expect(remove).toHaveBeenCalledWith(['group/task-1/photo.png']);
+  });
+
+  it('should only let the uploader delete an attachment', async () => {
+    queue({ data: photo });
+
+    await expect(deleteAttachment('task-1', 'attachment-1', 'parent-1')).rejects
+      .toThrow('Forbidden: Only the uploader can delete this attachment');
+  });
+});
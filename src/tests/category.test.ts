@@ -0,0 +1,82 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { supabase } from '../config/supabase';
+import { createCategory, DEFAULT_CATEGORIES, seedDefaultCategories, updateCategory } from '../services/categoryService';
+import { createCategorySchema, updateCategorySchema } from '../validators/categoryValidator';
+import { taskFiltersSchema } from '../validators/taskValidator';
+import { queue } from './supabaseMock';
+
+// Mock Supabase
+jest.mock('../config/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+  },
+}));
+
+describe('Category Validator', () => {
+  it('should validate a category with a hex color', () => {
+    const result = createCategorySchema.parse({ name: '  Garden ', color: '#10B981' });
+    expect(result.name).toBe('Garden');
+    expect(result.color).toBe('#10B981');
+  });
+
+  it('should reject a color that is not a hex value', () => {
+    expect(() => createCategorySchema.parse({ name: 'Garden', color: 'green' })).toThrow();
+  });
+
+  it('should let an update clear the description', () => {
+    const result = updateCategorySchema.parse({ description: null });
+    expect(result.description).toBeNull();
+  });
+
+  it('should filter tasks by category ID only', () => {
+    const result = taskFiltersSchema.parse({ category_id: '223e4567-e89b-12d3-a456-426614174000' });
+    expect(result.category_id).toBe('223e4567-e89b-12d3-a456-426614174000');
+    expect(() => taskFiltersSchema.parse({ category_id: 'Chores' })).toThrow();
+  });
+});
+
+describe('Group categories', () => {
+  beforeEach(() => {
+    (supabase.from as jest.Mock).mockReset();
+  });
+
+  it('should seed the default categories in order without overwriting existing ones', async () => {
+    const queries = queue({ data: null });
+
+    await seedDefaultCategories('group-1', 'admin-1');
+
+    const [rows, options] = queries[0].upsert.mock.calls[0];
+    expect(rows).toHaveLength(DEFAULT_CATEGORIES.length);
+    expect(rows[0]).toMatchObject({ name: 'Chores', group_id: 'group-1', is_default: true, sort_order: 0 });
+    expect(options).toEqual({ onConflict: 'name,group_id', ignoreDuplicates: true });
+  });
+
+  it('should add a new category after the last one', async () => {
+    const queries = queue({ data: [{ sort_order: 5 }] }, { data: { id: 'category-1' } });
+
+    await createCategory('group-1', { name: 'Garden' }, 'admin-1');
+
+    expect(queries[1].insert).toHaveBeenCalledWith(expect.objectContaining({
+      name: 'Garden',
+      group_id: 'group-1',
+      is_default: false,
+      sort_order: 6,
+    }));
+  });
+
+  it('should report a duplicate category name', async () => {
+    queue({ data: [] }, { data: null, error: { code: '23505', message: 'duplicate key' } });
+
+    await expect(createCategory('group-1', { name: 'Chores' }, 'admin-1')).rejects
+      .toThrow('A category with this name already exists');
+  });
+
+  it('should not update a category of another group', async () => {
+    const queries = queue({ data: null, error: { message: 'No rows found' } });
+
+    await expect(updateCategory('group-2', 'category-1', { name: 'Garden' })).rejects
+      .toThrow('Category not found in this group');
+    expect(queries[0].eq).toHaveBeenCalledWith('group_id', 'group-2');
+    expect(supabase.from).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { supabase } from '../config/supabase';
+import { deleteComment, getTaskActivity, logTaskActivity, logTaskChanges } from '../services/commentService';
+import { createCommentSchema } from '../validators/commentValidator';
+import { queriesMade, tables } from './supabaseMock';
+import type { QueryResult } from './supabaseMock';
+
+// Mock Supabase
+jest.mock('../config/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+  },
+}));
+
+// Every query answers with `result`
+const respond = (result: QueryResult) => tables({}, result);
+
+const task = { id: 'task-1', status: 'pending', assigned_to: null };
+
+describe('Comment Validator', () => {
+  it('should reject an empty comment', () => {
+    expect(() => createCommentSchema.parse({ content: '   ' })).toThrow('Comment cannot be empty');
+  });
+});
+
+describe('Task activity', () => {
+  beforeEach(() => {
+    (supabase.from as jest.Mock).mockReset();
+  });
+
+  it('should log a status change with its old and new status', async () => {
+    respond({ data: null });
+
+    await logTaskChanges(task, { status: 'completed', assigned_to: null }, 'user-1');
+
+    const queries = queriesMade();
+    expect(queries).toHaveLength(1);
+    expect(queries[0].insert).toHaveBeenCalledWith(expect.objectContaining({
+      task_id: 'task-1',
+      author_id: 'user-1',
+      type: 'status_change',
+      content: 'Status changed from pending to completed',
+      metadata: { from: 'pending', to: 'completed' },
+    }));
+  });
+
+  it('should tell assigning, reassigning and unassigning apart', async () => {
+    respond({ data: null });
+
+    await logTaskChanges(task, { status: 'pending', assigned_to: 'user-2' }, 'user-1');
+    await logTaskChanges({ ...task, assigned_to: 'user-2' }, { status: 'pending', assigned_to: 'user-3' }, 'user-1');
+    await logTaskChanges({ ...task, assigned_to: 'user-3' }, { status: 'pending', assigned_to: null }, 'user-1');
+
+    const queries = queriesMade();
+    expect(queries.map(q => q.insert.mock.calls[0][0].content)).toEqual([
+      'Task assigned',
+      'Task reassigned',
+      'Task unassigned',
+    ]);
+    expect(queries[1].insert).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'assignment',
+      metadata: { from: 'user-2', to: 'user-3' },
+    }));
+  });
+
+  it('should not log anything when nothing tracked changed', async () => {
+    respond({ data: null });
+
+    await logTaskChanges(task, { status: 'pending', assigned_to: null }, 'user-1');
+
+    expect(supabase.from).not.toHaveBeenCalled();
+  });
+
+  it('should not fail the change when the entry cannot be written', async () => {
+    respond({ data: null, error: { message: 'insert failed' } });
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(logTaskActivity('task-1', null, 'escalation', 'Task escalated')).resolves.toBeUndefined();
+
+    consoleError.mockRestore();
+  });
+
+  it('should page the thread and filter it by type', async () => {
+    respond({ data: [], count: 12 });
+
+    const result = await getTaskActivity('task-1', { type: 'comment', limit: 5, offset: 10 });
+
+    const [activity] = queriesMade();
+    expect(result.total).toBe(12);
+    expect(activity.eq).toHaveBeenCalledWith('type', 'comment');
+    expect(activity.range).toHaveBeenCalledWith(10, 14);
+  });
+
+  it('should not let members delete activity entries', async () => {
+    respond({ data: { id: 'entry-1', task_id: 'task-1', author_id: 'user-1', type: 'status_change' } });
+
+    await expect(deleteComment('task-1', 'entry-1', 'user-1')).rejects
+      .toThrow('Activity entries cannot be changed');
+  });
+
+  it('should only let the author delete a comment', async () => {
+    respond({ data: { id: 'comment-1', task_id: 'task-1', author_id: 'user-1', type: 'comment' } });
+
+    await expect(deleteComment('task-1', 'comment-1', 'user-2')).rejects
+      .toThrow('Forbidden: Only the author can change this comment');
+  });
+});
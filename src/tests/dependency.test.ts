@@ -0,0 +1,74 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { supabase } from '../config/supabase';
+import { addDependency, assertNotBlocked, hasBlockingPath } from '../services/dependencyService';
+import { queue } from './supabaseMock';
+
+// Mock Supabase
+jest.mock('../config/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+  },
+}));
+
+// paint-fence is blocked by buy-paint, which is blocked by get-cash
+const blockedBy: Record<string, string[]> = {
+  'paint-fence': ['buy-paint'],
+  'buy-paint': ['get-cash'],
+  'get-cash': [],
+  'mow-lawn': [],
+};
+
+const getBlockers = async (taskIds: string[]) => taskIds.flatMap(id => blockedBy[id] || []);
+
+describe('Task dependency cycle detection', () => {
+  it('should only follow blocked-by edges', async () => {
+    expect(await hasBlockingPath('paint-fence', 'buy-paint', getBlockers)).toBe(true);
+    expect(await hasBlockingPath('get-cash', 'paint-fence', getBlockers)).toBe(false);
+  });
+
+  it('should detect that a new edge would close a cycle', async () => {
+    // Making get-cash wait on paint-fence: paint-fence already (indirectly) waits on get-cash
+    expect(await hasBlockingPath('paint-fence', 'get-cash', getBlockers)).toBe(true);
+    // Making paint-fence wait on mow-lawn is fine
+    expect(await hasBlockingPath('mow-lawn', 'paint-fence', getBlockers)).toBe(false);
+  });
+});
+
+describe('Task dependencies', () => {
+  beforeEach(() => {
+    (supabase.from as jest.Mock).mockReset();
+  });
+
+  it('should refuse a dependency that closes a cycle without recording it', async () => {
+    const queries = queue(
+      { data: [{ id: 'get-cash', group_id: 'group-1' }, { id: 'paint-fence', group_id: 'group-1' }] },
+      { data: [{ blocked_by_task_id: 'buy-paint' }] },
+      { data: [{ blocked_by_task_id: 'get-cash' }] }
+    );
+
+    await expect(addDependency('get-cash', 'paint-fence', 'member-1')).rejects
+      .toThrow('This dependency would create a cycle');
+    expect(queries).toHaveLength(3);
+  });
+
+  it('should only link tasks of the same group', async () => {
+    queue({ data: [{ id: 'paint-fence', group_id: 'group-1' }, { id: 'buy-paint', group_id: 'group-2' }] });
+
+    await expect(addDependency('paint-fence', 'buy-paint', 'member-1')).rejects
+      .toThrow('Dependencies can only link tasks of the same group');
+  });
+
+  it('should name the open blockers of a task', async () => {
+    queue(
+      {
+        data: [
+          { blocker: { id: 'buy-paint', title: 'Buy paint', status: 'in_progress' } },
+          { blocker: { id: 'get-cash', title: 'Get cash', status: 'completed' } },
+        ],
+      },
+      { data: [] }
+    );
+
+    await expect(assertNotBlocked('paint-fence')).rejects.toThrow('Task is blocked by 1 open task(s): "Buy paint"');
+  });
+});
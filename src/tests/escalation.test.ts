@@ -0,0 +1,113 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { supabase } from '../config/supabase';
+import { runEscalationTick } from '../services/escalationService';
+import * as commentService from '../services/commentService';
+import { getEscalationUpdates, isRuleTriggered } from '../utils/escalation';
+import type { EscalationRule } from '../utils/escalation';
+import { queue } from './supabaseMock';
+
+// Mock Supabase
+jest.mock('../config/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+  },
+}));
+
+jest.mock('../services/commentService', () => ({
+  logTaskChanges: jest.fn(() => Promise.resolve()),
+  logTaskActivity: jest.fn(() => Promise.resolve()),
+}));
+jest.mock('../services/revisionService', () => ({
+  recordRevision: jest.fn(() => Promise.resolve()),
+}));
+jest.mock('../services/assignmentService', () => ({}));
+jest.mock('../services/memberService', () => ({}));
+
+const rule = (overrides: Partial<EscalationRule>): EscalationRule => ({
+  id: 'rule-1',
+  trigger: 'due_soon',
+  hours: 24,
+  action: 'raise_priority',
+  recipients: ['creator', 'admins'],
+  ...overrides,
+});
+
+const task = { due_date: '2024-06-03T18:00:00.000Z', priority: 'Medium', urgent: false };
+
+describe('Escalation rules', () => {
+  it('should trigger before the due date and after the overdue grace period', () => {
+    const dueSoon = rule({ trigger: 'due_soon', hours: 24 });
+    expect(isRuleTriggered(task, dueSoon, new Date('2024-06-02T17:00:00.000Z'))).toBe(false);
+    expect(isRuleTriggered(task, dueSoon, new Date('2024-06-02T19:00:00.000Z'))).toBe(true);
+    // Past the due date the due_soon rule no longer applies
+    expect(isRuleTriggered(task, dueSoon, new Date('2024-06-03T19:00:00.000Z'))).toBe(false);
+
+    const overdue = rule({ trigger: 'overdue', hours: 48, action: 'notify' });
+    expect(isRuleTriggered(task, overdue, new Date('2024-06-05T17:00:00.000Z'))).toBe(false);
+    expect(isRuleTriggered(task, overdue, new Date('2024-06-05T18:00:00.000Z'))).toBe(true);
+    expect(isRuleTriggered({ ...task, due_date: null }, overdue, new Date('2024-06-05T18:00:00.000Z'))).toBe(false);
+  });
+
+  it('should raise priority one step and mark urgent only when needed', () => {
+    expect(getEscalationUpdates(task, rule({ action: 'raise_priority' }))).toEqual({ priority: 'High' });
+    expect(getEscalationUpdates({ ...task, priority: 'High' }, rule({ action: 'raise_priority' }))).toBeNull();
+    expect(getEscalationUpdates(task, rule({ action: 'set_urgent' }))).toEqual({ urgent: true });
+    expect(getEscalationUpdates({ ...task, urgent: true }, rule({ action: 'set_urgent' }))).toBeNull();
+    expect(getEscalationUpdates(task, rule({ action: 'notify' }))).toBeNull();
+  });
+});
+
+describe('Escalation tick', () => {
+  const now = new Date('2024-06-02T19:00:00.000Z');
+  const group = { id: 'group-1', settings: { escalation: { enabled: true, rules: [rule({})] } } };
+  const openTask = { ...task, id: 'task-1', group_id: 'group-1', title: 'Book the plumber', status: 'pending', version: 5 };
+
+  beforeEach(() => {
+    (supabase.from as jest.Mock).mockReset();
+    jest.clearAllMocks();
+  });
+
+  it('should raise the priority of a task due soon and log it', async () => {
+    const queries = queue(
+      { data: [group] },
+      { data: [openTask] },
+      { data: { id: 'claim-1' } },
+      { data: { ...openTask, priority: 'High', version: 6 } },
+      { data: null }
+    );
+
+    await expect(runEscalationTick(now)).resolves.toEqual({ groups: 1, escalated: 1, failed: 0 });
+
+    expect(queries[3].update).toHaveBeenCalledWith(expect.objectContaining({ priority: 'High' }));
+    expect(queries[3].eq).toHaveBeenCalledWith('version', 5);
+    expect(commentService.logTaskActivity).toHaveBeenCalledWith(
+      'task-1',
+      null,
+      'escalation',
+      'Escalated (due within 24 hours): priority raised from Medium to High',
+      expect.objectContaining({ rule_id: 'rule-1', from: 'Medium', to: 'High' })
+    );
+  });
+
+  it('should not escalate a task again for the same due date', async () => {
+    const queries = queue(
+      { data: [group] },
+      { data: [openTask] },
+      { data: null, error: { code: '23505', message: 'duplicate key value' } }
+    );
+
+    await expect(runEscalationTick(now)).resolves.toEqual({ groups: 1, escalated: 0, failed: 0 });
+    expect(queries).toHaveLength(3);
+  });
+
+  it('should release the claim when the task was edited meanwhile', async () => {
+    const queries = queue({ data: [group] }, { data: [openTask] }, { data: { id: 'claim-1' } }, { data: null });
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(runEscalationTick(now)).resolves.toEqual({ groups: 1, escalated: 0, failed: 1 });
+    expect(queries[4].delete).toHaveBeenCalled();
+    expect(queries[4].eq).toHaveBeenCalledWith('id', 'claim-1');
+
+    consoleError.mockRestore();
+  });
+});
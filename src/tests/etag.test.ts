@@ -0,0 +1,79 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { supabase } from '../config/supabase';
+import { TaskConflictError, updateTask } from '../services/taskService';
+import * as revisionService from '../services/revisionService';
+import { toETag, parseIfMatch, matchesVersion } from '../utils/etag';
+import { queue } from './supabaseMock';
+
+// Mock Supabase
+jest.mock('../config/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+  },
+}));
+
+jest.mock('../services/attachmentService', () => ({}));
+jest.mock('../services/commentService', () => ({
+  logTaskChanges: jest.fn(() => Promise.resolve()),
+}));
+jest.mock('../services/revisionService', () => ({
+  recordRevision: jest.fn(() => Promise.resolve()),
+}));
+jest.mock('../services/pointsService', () => ({
+  syncTaskPoints: jest.fn(() => Promise.resolve()),
+}));
+
+const task = { id: 'task-1', title: 'Water the plants', status: 'pending', series_id: null, version: 3 };
+
+describe('Task ETags', () => {
+  it('should accept any version without a precondition', () => {
+    expect(parseIfMatch(undefined)).toBeNull();
+    expect(parseIfMatch('*')).toBeNull();
+    expect(matchesVersion(null, 7)).toBe(true);
+  });
+
+  it('should read back the ETag of a task', () => {
+    expect(parseIfMatch(toETag(3))).toEqual([3]);
+    expect(parseIfMatch('W/"3", "4"')).toEqual([3, 4]);
+  });
+
+  it('should not match a stale or foreign tag', () => {
+    expect(matchesVersion(parseIfMatch('"2"'), 3)).toBe(false);
+    expect(matchesVersion(parseIfMatch('W/"1a-abc"'), 3)).toBe(false);
+  });
+});
+
+describe('Conditional task updates', () => {
+  beforeEach(() => {
+    (supabase.from as jest.Mock).mockReset();
+    jest.clearAllMocks();
+  });
+
+  it('should refuse a stale version without writing', async () => {
+    const queries = queue({ data: task });
+
+    const update = updateTask('task-1', { title: 'Water the garden' }, 'member-1', 'occurrence', false, [2]);
+
+    await expect(update).rejects.toBeInstanceOf(TaskConflictError);
+    await expect(update).rejects.toMatchObject({ current: task });
+    expect(queries).toHaveLength(1);
+  });
+
+  it('should write only over the version that was checked', async () => {
+    const queries = queue({ data: task }, { data: { ...task, title: 'Water the garden', version: 4 } });
+
+    await updateTask('task-1', { title: 'Water the garden' }, 'member-1', 'occurrence', false, [3]);
+
+    expect(queries[1].eq).toHaveBeenCalledWith('version', 3);
+    expect(revisionService.recordRevision).toHaveBeenCalled();
+  });
+
+  it('should report the task as it now stands when it changed in between', async () => {
+    const current = { ...task, title: 'Water the cactus', version: 4 };
+    queue({ data: task }, { data: null }, { data: current });
+
+    await expect(updateTask('task-1', { title: 'Water the garden' }, 'member-1', 'occurrence', false, [3])).rejects
+      .toMatchObject({ current });
+    expect(revisionService.recordRevision).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from '@jest/globals';
+import { buildCalendar, foldLine } from '../utils/ical';
+import type { CalendarTask } from '../utils/ical';
+
+const task: CalendarTask = {
+  id: 'task-1',
+  title: 'Bins out; recycling, too',
+  description: null,
+  status: 'pending',
+  priority: 'High',
+  due_date: '2024-06-03T18:00:00.000Z',
+  completed_at: null,
+  estimated_minutes: 15,
+  recurring_pattern: 'FREQ=WEEKLY;BYDAY=MO',
+  recurring_until: '2024-12-31T23:59:59.000Z',
+  tags: ['outside'],
+  updated_at: '2024-06-01T09:00:00.000Z',
+  version: 3,
+};
+
+describe('ICS calendar feeds', () => {
+  it('should write events in UTC with their recurrence', () => {
+    const ics = buildCalendar([task], { name: 'My tasks', timeZone: 'Europe/London', component: 'event' });
+    const lines = ics.split('\r\n');
+
+    expect(lines).toContain('BEGIN:VEVENT');
+    expect(lines).toContain('UID:task-1@taskly');
+    expect(lines).toContain('SUMMARY:Bins out\\; recycling\\, too');
+    // The 15 minute estimate ends at the due time; the member's time zone is only a display hint
+    expect(lines).toContain('DTSTART:20240603T174500Z');
+    expect(lines).toContain('X-WR-TIMEZONE:Europe/London');
+    expect(lines.some(line => line.includes('TZID'))).toBe(false);
+    expect(lines).toContain('DURATION:PT15M');
+    expect(lines).toContain('RRULE:FREQ=WEEKLY;BYDAY=MO;UNTIL=20241231T235959Z');
+    expect(lines).toContain('SEQUENCE:3');
+  });
+
+  it('should write to-dos with status and due time', () => {
+    const ics = buildCalendar(
+      [{ ...task, status: 'completed', completed_at: '2024-06-03T17:00:00.000Z' }],
+      { name: 'Chores', timeZone: 'UTC', component: 'todo' }
+    );
+    const lines = ics.split('\r\n');
+
+    expect(lines).toContain('BEGIN:VTODO');
+    expect(lines).toContain('DUE:20240603T180000Z');
+    expect(lines).toContain('STATUS:COMPLETED');
+    expect(lines).toContain('COMPLETED:20240603T170000Z');
+    // A finished occurrence does not repeat; the next one has its own entry
+    expect(lines.some(line => line.startsWith('RRULE:'))).toBe(false);
+  });
+
+  it('should fold long lines at 75 octets', () => {
+    const folded = foldLine(`DESCRIPTION:${'x'.repeat(100)}`).split('\r\n');
+
+    expect(folded).toHaveLength(2);
+    expect(folded[0]).toHaveLength(75);
+    expect(folded[1].startsWith(' ')).toBe(true);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseCsv } from '../utils/csv';
+import { normalizeImportRow, readImportRows } from '../utils/taskImport';
+import { bulkTaskUpdateSchema, MAX_BULK_TASKS } from '../validators/taskValidator';
+
+const groupId = '11111111-1111-4111-8111-111111111111';
+const memberId = '22222222-2222-4222-8222-222222222222';
+const categoryId = '33333333-3333-4333-8333-333333333333';
+
+const lookups = {
+  memberIdsByEmail: new Map([['sam@example.com', memberId]]),
+  categoryIdsByName: new Map([['kitchen', categoryId]]),
+};
+
+describe('Task import', () => {
+  it('should parse quoted CSV fields', () => {
+    const rows = parseCsv('Title,Description,Tags\r\n"Dishes, pots","Say ""done""\nwhen finished","a,b"\r\n\r\n');
+
+    expect(rows).toEqual([
+      { Title: 'Dishes, pots', Description: 'Say "done"\nwhen finished', Tags: 'a,b' },
+    ]);
+  });
+
+  it('should reject an unterminated quote', () => {
+    expect(() => parseCsv('Title\n"Dishes')).toThrow('Invalid CSV: unterminated quoted field');
+  });
+
+  it('should map spreadsheet columns onto task fields', () => {
+    const { input, errors } = normalizeImportRow({
+      Title: 'Dishes',
+      Priority: 'high',
+      Assignee: 'Sam@Example.com',
+      Category: 'Kitchen',
+      Due: '2024-05-31',
+      Urgent: 'yes',
+      Estimate: '20',
+      Tags: 'daily; evening',
+      Notes: 'ignored',
+      Description: '',
+    }, groupId, lookups);
+
+    expect(errors).toEqual([]);
+    expect(input).toEqual({
+      title: 'Dishes',
+      priority: 'High',
+      assigned_to: memberId,
+      category_id: categoryId,
+      due_date: '2024-05-31T00:00:00.000Z',
+      urgent: true,
+      estimated_minutes: 20,
+      tags: ['daily', 'evening'],
+      group_id: groupId,
+    });
+  });
+
+  it('should report assignees and categories that do not resolve', () => {
+    const { errors } = normalizeImportRow(
+      { title: 'Dishes', assignee_email: 'nobody@example.com', category: 'Garden' },
+      groupId,
+      lookups
+    );
+
+    expect(errors).toEqual([
+      'assigned_to: No group member with email nobody@example.com',
+      'category: No category named "Garden" in this group',
+    ]);
+  });
+
+  it('should accept JSON as a list or under tasks', () => {
+    expect(readImportRows('{"tasks":[{"title":"Dishes"}]}', 'json', 10)).toEqual([{ title: 'Dishes' }]);
+    expect(() => readImportRows('[1, 2]', 'json', 10)).toThrow('Import data must be a list of task rows');
+    expect(() => readImportRows([{}, {}], 'json', 1)).toThrow('At most 1 rows can be imported at once');
+  });
+});
+
+describe('Bulk task updates', () => {
+  it('should take at most the bulk limit of tasks per request', () => {
+    const taskIds = Array.from({ length: MAX_BULK_TASKS + 1 }, () => groupId);
+
+    expect(() => bulkTaskUpdateSchema.parse({ taskIds, updates: { status: 'completed' } }))
+      .toThrow(`At most ${MAX_BULK_TASKS} tasks per request`);
+    expect(bulkTaskUpdateSchema.parse({ taskIds: taskIds.slice(1) }).taskIds).toHaveLength(MAX_BULK_TASKS);
+  });
+});
@@ -0,0 +1,187 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { parseExternalExport } from '../services/importers';
+import { importExternalTasks } from '../services/importService';
+import * as taskService from '../services/taskService';
+import * as categoryService from '../services/categoryService';
+
+jest.mock('../services/taskService', () => ({
+  createTask: jest.fn(),
+  createSubtask: jest.fn(),
+  deleteTask: jest.fn(),
+}));
+
+jest.mock('../services/memberService', () => ({
+  getMembersByGroupId: jest.fn(async () => []),
+}));
+
+jest.mock('../services/categoryService', () => ({
+  getCategoriesByGroup: jest.fn(async () => []),
+  createCategory: jest.fn(),
+}));
+
+describe('External task importers', () => {
+  it('should read a Todoist backup with projects, labels and sub-tasks', () => {
+    const backup = {
+      projects: [{ id: 'p1', name: 'Home' }],
+      items: [
+        { id: '1', content: 'Clean garage', project_id: 'p1', priority: 4, labels: ['Weekend'], due: { date: '2024-06-01' } },
+        { id: '2', content: 'Sort tools', parent_id: '1', priority: 1 },
+        { id: '3', content: 'Sweep floor', parent_id: '2', priority: 1 },
+        { id: '4', content: 'Old task', checked: true },
+        { id: '5', content: 'Water plants', due: { date: '2024-06-01', is_recurring: true, string: 'every day' } },
+      ],
+    };
+
+    const result = parseExternalExport('todoist', JSON.stringify(backup));
+
+    expect(result.tasks).toHaveLength(2);
+    expect(result.tasks[0].row).toMatchObject({
+      title: 'Clean garage',
+      priority: 'High',
+      due_date: '2024-06-01',
+      tags: ['weekend'],
+      category: 'Home',
+    });
+    expect(result.tasks[0].subtasks.map(subtask => subtask.title)).toEqual(['Sort tools', 'Sweep floor']);
+    expect(result.warnings).toEqual(['"Water plants": recurrence "every day" was not imported']);
+  });
+
+  it('should read a Todoist CSV export with sections and inline labels', () => {
+    const csv = [
+      'TYPE,CONTENT,DESCRIPTION,PRIORITY,INDENT,AUTHOR,RESPONSIBLE,DATE,DATE_LANG,TIMEZONE',
+      'section,Kitchen,,,,,,,,',
+      'task,Buy milk @errands,,1,1,,,tomorrow,en,UTC',
+      'task,Check fridge,,4,2,,,,en,UTC',
+    ].join('\n');
+
+    const result = parseExternalExport('todoist', csv);
+
+    expect(result.tasks).toHaveLength(1);
+    expect(result.tasks[0].row).toMatchObject({ title: 'Buy milk', priority: 'High', tags: ['errands'], category: 'Kitchen' });
+    expect(result.tasks[0].subtasks).toEqual([expect.objectContaining({ title: 'Check fridge', priority: 'Medium' })]);
+    expect(result.warnings).toEqual(['"Buy milk": could not read due date "tomorrow"']);
+  });
+
+  it('should read a Trello board with lists, labels and checklists', () => {
+    const board = {
+      name: 'Chores',
+      lists: [{ id: 'l1', name: 'To Do' }, { id: 'l2', name: 'Old', closed: true }],
+      cards: [
+        { id: 'c1', name: 'Mow lawn', idList: 'l1', labels: [{ name: '', color: 'green' }], due: '2024-06-01T10:00:00.000Z' },
+        { id: 'c2', name: 'Archived', idList: 'l1', closed: true },
+        { id: 'c3', name: 'In closed list', idList: 'l2' },
+      ],
+      checklists: [
+        { id: 'k1', idCard: 'c1', checkItems: [{ name: 'Fill tank', state: 'incomplete' }, { name: 'Done', state: 'complete' }] },
+      ],
+    };
+
+    const result = parseExternalExport('trello', board);
+
+    expect(result.tasks).toHaveLength(1);
+    expect(result.tasks[0].row).toMatchObject({
+      title: 'Mow lawn',
+      due_date: '2024-06-01T10:00:00.000Z',
+      tags: ['to do', 'green'],
+      category: 'Chores',
+    });
+    expect(result.tasks[0].subtasks.map(subtask => subtask.title)).toEqual(['Fill tank']);
+  });
+
+  it('should read Microsoft To Do lists', () => {
+    const data = {
+      lists: [{
+        displayName: 'Groceries',
+        tasks: [
+          {
+            title: 'Weekly shop',
+            importance: 'high',
+            body: { contentType: 'html', content: '<p>Use the<br>list</p>' },
+            dueDateTime: { dateTime: '2024-06-01T00:00:00.0000000', timeZone: 'UTC' },
+            categories: ['Errands'],
+            checklistItems: [{ displayName: 'Bread', isChecked: false }, { displayName: 'Eggs', isChecked: true }],
+          },
+          { title: 'Done already', status: 'completed' },
+        ],
+      }],
+    };
+
+    const result = parseExternalExport('microsoft_todo', data);
+
+    expect(result.tasks).toHaveLength(1);
+    expect(result.tasks[0].row).toMatchObject({
+      title: 'Weekly shop',
+      description: 'Use the\nlist',
+      priority: 'High',
+      due_date: '2024-06-01',
+      tags: ['errands'],
+      category: 'Groceries',
+    });
+    expect(result.tasks[0].subtasks).toEqual([{ title: 'Bread', priority: 'High' }]);
+  });
+
+  it('should reject files that are not the expected export', () => {
+    expect(() => parseExternalExport('trello', '{"cards": 1}')).toThrow('Invalid Trello export');
+    expect(() => parseExternalExport('microsoft_todo', 'not json')).toThrow('not valid JSON');
+  });
+
+  it('should remove a task whose sub-tasks failed to import', async () => {
+    const backup = {
+      items: [
+        { id: '1', content: 'Clean garage', priority: 1 },
+        { id: '2', content: 'Sort tools', parent_id: '1', priority: 1 },
+      ],
+    };
+    (taskService.createTask as jest.Mock).mockImplementation(async () => ({ id: 'task-1' }));
+    (taskService.createSubtask as jest.Mock).mockImplementation(async () => {
+      throw new Error('Failed to create task: connection lost');
+    });
+    (taskService.deleteTask as jest.Mock).mockImplementation(async () => ['task-1']);
+
+    const report = await importExternalTasks(
+      '11111111-1111-4111-8111-111111111111',
+      'todoist',
+      JSON.stringify(backup),
+      false,
+      'member-1'
+    );
+
+    expect(report.failed).toBe(1);
+    expect(report.rows[0]).toMatchObject({ status: 'failed', errors: ['Failed to create task: connection lost'] });
+    expect(taskService.deleteTask).toHaveBeenCalledWith('task-1', 'member-1');
+  });
+
+  it('should only create the categories of tasks that passed validation', async () => {
+    const backup = {
+      projects: [{ id: 'p1', name: 'Garden' }, { id: 'p2', name: 'Garage' }],
+      items: [
+        { id: '1', content: 'Mow the lawn', project_id: 'p1', priority: 1 },
+        { id: '2', content: 'x'.repeat(101), project_id: 'p2', priority: 1 },
+      ],
+    };
+    const categoryId = '33333333-3333-4333-8333-333333333333';
+    (categoryService.createCategory as jest.Mock).mockImplementation(async () => ({ id: categoryId }));
+    (taskService.createTask as jest.Mock).mockImplementation(async () => ({ id: 'task-1' }));
+
+    const report = await importExternalTasks(
+      '11111111-1111-4111-8111-111111111111',
+      'todoist',
+      JSON.stringify(backup),
+      false,
+      'member-1'
+    );
+
+    expect(report.new_categories).toEqual(['Garden']);
+    expect(categoryService.createCategory).toHaveBeenCalledTimes(1);
+    expect(categoryService.createCategory).toHaveBeenCalledWith(
+      '11111111-1111-4111-8111-111111111111',
+      { name: 'Garden' },
+      'member-1'
+    );
+    expect(taskService.createTask).toHaveBeenLastCalledWith(
+      expect.objectContaining({ title: 'Mow the lawn', category_id: categoryId }),
+      'member-1'
+    );
+    expect(report.rows.map(row => row.status)).toEqual(['created', 'failed']);
+  });
+});
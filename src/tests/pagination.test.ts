@@ -0,0 +1,82 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { buildPage, decodeCursor, encodeCursor } from '../utils/pagination';
+import { taskFiltersSchema } from '../validators/taskValidator';
+import { paginateTaskQuery } from '../services/taskQuery';
+
+const mockQuery = () => {
+  const query: any = {};
+  for (const method of ['order', 'or', 'limit', 'range']) {
+    query[method] = jest.fn(() => query);
+  }
+  return query;
+};
+
+describe('Cursor pagination', () => {
+  const rows = [
+    { id: '123e4567-e89b-12d3-a456-426614174003', created_at: '2025-03-03T10:00:00.000Z' },
+    { id: '123e4567-e89b-12d3-a456-426614174002', created_at: '2025-03-02T10:00:00.000Z' },
+    { id: '123e4567-e89b-12d3-a456-426614174001', created_at: '2025-03-01T10:00:00.000Z' },
+  ];
+  const toCursor = (row: typeof rows[number]) => ({ created_at: row.created_at, id: row.id });
+
+  it('should round-trip a cursor', () => {
+    const position = { created_at: rows[0].created_at, id: rows[0].id };
+    expect(decodeCursor(encodeCursor(position))).toEqual(position);
+  });
+
+  it('should reject a malformed cursor', () => {
+    expect(() => decodeCursor('not-a-cursor')).toThrow('Invalid cursor');
+  });
+
+  it('should drop the extra row and point at the last returned row', () => {
+    const page = buildPage(rows, 2, toCursor);
+
+    expect(page.data).toHaveLength(2);
+    expect(decodeCursor(page.page.next_cursor!)).toEqual(toCursor(rows[1]));
+    expect(page.page.total).toBeNull();
+  });
+
+  it('should end pagination when there is no extra row', () => {
+    const page = buildPage(rows, 3, toCursor, 3);
+
+    expect(page.page.next_cursor).toBeNull();
+    expect(page.page.total).toBe(3);
+  });
+
+  it('should decode a task cursor in the filters', () => {
+    const position = { sort: 'created_at', order: 'desc', value: rows[1].created_at, id: rows[1].id };
+    const filters = taskFiltersSchema.parse({ cursor: encodeCursor(position), include_total: 'true' });
+
+    expect(filters.cursor).toEqual(position);
+    expect(filters.include_total).toBe(true);
+  });
+
+  it('should reject a cursor for a different sort', () => {
+    const filters = taskFiltersSchema.parse({
+      sort: 'due_date',
+      cursor: encodeCursor({ sort: 'created_at', order: 'desc', value: rows[1].created_at, id: rows[1].id }),
+    });
+
+    expect(() => paginateTaskQuery(mockQuery(), filters)).toThrow('Cursor does not match the requested sort');
+  });
+
+  it('should page priority with a keyset on its rank', () => {
+    const query = mockQuery();
+    const filters = taskFiltersSchema.parse({
+      sort: 'priority',
+      cursor: encodeCursor({ sort: 'priority', order: 'desc', value: 2, id: rows[1].id }),
+    });
+
+    paginateTaskQuery(query, filters);
+
+    expect(query.order).toHaveBeenCalledWith('priority_rank', { ascending: false, nullsFirst: false });
+    expect(query.or).toHaveBeenCalledWith(
+      `priority_rank.lt.2,and(priority_rank.eq.2,id.lt.${rows[1].id}),priority_rank.is.null`
+    );
+  });
+
+  it('should reject a cursor with the wrong shape', () => {
+    const result = taskFiltersSchema.safeParse({ cursor: encodeCursor({ offset: 20 }) });
+    expect(result.success).toBe(false);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { supabase } from '../config/supabase';
+import { syncTaskPoints } from '../services/pointsService';
+import type { Task } from '../services/taskService';
+import { computeStreaks, taskPoints } from '../utils/points';
+import { queue } from './supabaseMock';
+
+// Mock Supabase
+jest.mock('../config/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+  },
+}));
+
+describe('Points and streaks', () => {
+  it('should base points on priority and size unless the category overrides them', () => {
+    expect(taskPoints({ priority: 'Low', estimated_minutes: null })).toBe(5);
+    expect(taskPoints({ priority: 'High', estimated_minutes: 45 })).toBe(24);
+    // The size bonus is capped
+    expect(taskPoints({ priority: 'Medium', estimated_minutes: 600 })).toBe(40);
+    expect(taskPoints({ priority: 'High', estimated_minutes: 45 }, 50)).toBe(50);
+    expect(taskPoints({ priority: 'High', estimated_minutes: 45 }, 0)).toBe(0);
+  });
+
+  it('should count consecutive days and keep the current streak alive until a day is missed', () => {
+    const dates = ['2024-06-01', '2024-06-02', '2024-06-02', '2024-06-03', '2024-06-07', '2024-06-08'];
+
+    expect(computeStreaks(dates, '2024-06-08')).toEqual({ current: 2, longest: 3 });
+    expect(computeStreaks(dates, '2024-06-09')).toEqual({ current: 2, longest: 3 });
+    expect(computeStreaks(dates, '2024-06-10')).toEqual({ current: 0, longest: 3 });
+    expect(computeStreaks([], '2024-06-10')).toEqual({ current: 0, longest: 0 });
+  });
+});
+
+describe('Task points', () => {
+  const task = {
+    id: 'task-1',
+    title: 'Empty the dishwasher',
+    group_id: 'group-1',
+    category_id: null,
+    priority: 'Low',
+    estimated_minutes: null,
+    status: 'completed',
+    assigned_to: null,
+    submitted_by: null,
+  } as unknown as Task;
+
+  beforeEach(() => {
+    (supabase.from as jest.Mock).mockReset();
+  });
+
+  it('should credit the member who submitted an approved unassigned task, not the reviewer', async () => {
+    const queries = queue({ data: [] }, { data: { id: 'entry-1' } });
+
+    await syncTaskPoints({ status: 'awaiting_approval' }, { ...task, submitted_by: 'child-1' }, 'parent-1');
+
+    expect(queries[1].insert).toHaveBeenCalledWith(expect.objectContaining({
+      member_id: 'child-1',
+      points: 5,
+      reason: 'task_completed',
+      created_by: 'parent-1',
+      award_seq: 0,
+    }));
+  });
+
+  it('should credit whoever completed an unassigned task without approval', async () => {
+    const queries = queue({ data: [] }, { data: { id: 'entry-1' } });
+
+    await syncTaskPoints({ status: 'in_progress' }, task, 'member-1');
+
+    expect(queries[1].insert).toHaveBeenCalledWith(expect.objectContaining({ member_id: 'member-1' }));
+  });
+
+  it('should number a new award after the earlier ones', async () => {
+    const queries = queue({
+      data: [
+        { id: 'award-1', reason: 'task_completed', reverses_entry_id: null },
+        { id: 'reversal-1', reason: 'task_reopened', reverses_entry_id: 'award-1' },
+      ],
+    }, { data: { id: 'award-2' } });
+
+    await syncTaskPoints({ status: 'in_progress' }, task, 'member-1');
+
+    expect(queries[1].insert).toHaveBeenCalledWith(expect.objectContaining({ award_seq: 1 }));
+  });
+
+  it('should not award a completion that already has its points', async () => {
+    const queries = queue({ data: [{ id: 'award-1', reason: 'task_completed', reverses_entry_id: null }] });
+
+    await syncTaskPoints({ status: 'in_progress' }, task, 'member-1');
+
+    expect(queries).toHaveLength(1);
+  });
+
+  it('should leave the task change alone when a concurrent award got there first', async () => {
+    queue({ data: [] }, { data: null, error: { code: '23505', message: 'duplicate key' } });
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(syncTaskPoints({ status: 'in_progress' }, task, 'member-1')).resolves.toBeUndefined();
+    expect(consoleError).toHaveBeenCalledWith('Sync task points error:', new Error('Points were already recorded for this change'));
+
+    consoleError.mockRestore();
+  });
+});
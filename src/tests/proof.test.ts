@@ -0,0 +1,44 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { supabase } from '../config/supabase';
+import { requiresProof } from '../services/proofService';
+
+// Mock Supabase
+jest.mock('../config/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+  },
+}));
+
+jest.mock('../services/attachmentService', () => ({}));
+
+const categoryQuery = (category: any) => {
+  const builder: any = {};
+  builder.select = jest.fn(() => builder);
+  builder.eq = jest.fn(() => builder);
+  builder.maybeSingle = () => Promise.resolve({ data: category, error: null });
+  return builder;
+};
+
+describe('Completion proof', () => {
+  beforeEach(() => {
+    (supabase.from as jest.Mock).mockReset();
+  });
+
+  it('should require proof when the task asks for it', async () => {
+    await expect(requiresProof({ requires_proof: true, category_id: null })).resolves.toBe(true);
+    expect(supabase.from).not.toHaveBeenCalled();
+  });
+
+  it('should require proof when the category asks for it', async () => {
+    (supabase.from as jest.Mock).mockImplementation(() => categoryQuery({ requires_proof: true }));
+
+    await expect(requiresProof({ requires_proof: false, category_id: 'category-1' })).resolves.toBe(true);
+  });
+
+  it('should not require proof otherwise', async () => {
+    (supabase.from as jest.Mock).mockImplementation(() => categoryQuery({ requires_proof: false }));
+
+    await expect(requiresProof({ requires_proof: false, category_id: 'category-1' })).resolves.toBe(false);
+    await expect(requiresProof({ requires_proof: false, category_id: null })).resolves.toBe(false);
+  });
+});
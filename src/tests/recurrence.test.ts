@@ -0,0 +1,171 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { supabase } from '../config/supabase';
+import {
+  parseRecurrenceRule,
+  normalizeRecurrenceRule,
+  isValidRecurrenceRule,
+  getNextOccurrence,
+} from '../utils/recurrence';
+import { skipOccurrence, spawnNextOccurrence } from '../services/recurrenceService';
+import { createTask } from '../services/taskService';
+import type { Task } from '../services/taskService';
+import type { CreateTaskData } from '../validators/taskValidator';
+import { queriesMade, queue, tables } from './supabaseMock';
+
+// Mock Supabase
+jest.mock('../config/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+  },
+}));
+
+jest.mock('../services/attachmentService', () => ({}));
+
+const next = (pattern: string, from: string, until?: string, timeZone?: string) =>
+  getNextOccurrence(parseRecurrenceRule(pattern), new Date(from), until ? new Date(until) : null, timeZone)
+    ?.toISOString() ?? null;
+
+describe('Recurrence rules', () => {
+  describe('parseRecurrenceRule', () => {
+    it('should accept legacy keywords', () => {
+      expect(normalizeRecurrenceRule('weekly')).toBe('FREQ=WEEKLY');
+      expect(normalizeRecurrenceRule('Daily')).toBe('FREQ=DAILY');
+    });
+
+    it('should normalize RRULE strings', () => {
+      expect(normalizeRecurrenceRule('RRULE:freq=weekly;byday=TH,MO;interval=2'))
+        .toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH');
+    });
+
+    it('should reject unsupported rules', () => {
+      expect(isValidRecurrenceRule('FREQ=YEARLY')).toBe(false);
+      expect(isValidRecurrenceRule('FREQ=DAILY;BYDAY=MO')).toBe(false);
+      expect(isValidRecurrenceRule('INTERVAL=2')).toBe(false);
+      expect(isValidRecurrenceRule('FREQ=DAILY;INTERVAL=0')).toBe(false);
+      expect(() => parseRecurrenceRule('FREQ=DAILY;COUNT=3')).toThrow('Unsupported recurrence rule part: COUNT');
+    });
+  });
+
+  describe('getNextOccurrence', () => {
+    it('should step every N days', () => {
+      expect(next('FREQ=DAILY;INTERVAL=3', '2025-01-30T09:00:00.000Z')).toBe('2025-02-02T09:00:00.000Z');
+    });
+
+    it('should pick the next listed weekday', () => {
+      // 2025-01-06 is a Monday
+      expect(next('FREQ=WEEKLY;BYDAY=MO,TH', '2025-01-06T18:00:00.000Z')).toBe('2025-01-09T18:00:00.000Z');
+      expect(next('FREQ=WEEKLY;BYDAY=MO,TH', '2025-01-09T18:00:00.000Z')).toBe('2025-01-13T18:00:00.000Z');
+    });
+
+    it('should skip weeks for weekly intervals', () => {
+      expect(next('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH', '2025-01-09T18:00:00.000Z')).toBe('2025-01-20T18:00:00.000Z');
+    });
+
+    it('should skip months without the requested day', () => {
+      expect(next('FREQ=MONTHLY;BYMONTHDAY=31', '2025-01-31T08:00:00.000Z')).toBe('2025-03-31T08:00:00.000Z');
+    });
+
+    it('should support the last day of the month', () => {
+      expect(next('FREQ=MONTHLY;BYMONTHDAY=-1', '2025-01-31T08:00:00.000Z')).toBe('2025-02-28T08:00:00.000Z');
+    });
+
+    it('should count weekdays and month days in the time zone', () => {
+      // Sunday evening in Los Angeles is already Monday in UTC
+      expect(next('FREQ=WEEKLY;BYDAY=MO', '2025-01-06T05:00:00.000Z', undefined, 'America/Los_Angeles'))
+        .toBe('2025-01-07T05:00:00.000Z');
+      expect(next('FREQ=MONTHLY;BYMONTHDAY=1', '2025-01-31T23:30:00.000Z', undefined, 'Europe/Berlin'))
+        .toBe('2025-02-28T23:30:00.000Z');
+    });
+
+    it('should keep the local time of day across daylight saving changes', () => {
+      // Berlin moves to summer time on 2025-03-30
+      expect(next('FREQ=DAILY', '2025-03-29T08:00:00.000Z', undefined, 'Europe/Berlin')).toBe('2025-03-30T07:00:00.000Z');
+    });
+
+    it('should stop after the end of the series', () => {
+      expect(next('FREQ=DAILY', '2025-01-01T08:00:00.000Z', '2025-01-01T23:00:00.000Z')).toBeNull();
+      expect(next('FREQ=DAILY;UNTIL=20250101', '2025-01-01T08:00:00.000Z')).toBeNull();
+    });
+  });
+});
+
+describe('Recurring series', () => {
+  beforeEach(() => {
+    (supabase.from as jest.Mock).mockReset();
+  });
+
+  it('should give the next occurrence the completion settings of its series', async () => {
+    const series = {
+      id: 'series-1',
+      group_id: 'group-1',
+      created_by: 'parent-1',
+      title: 'Feed the cat',
+      requires_proof: true,
+      auto_complete_on_subtasks: true,
+      recurring_pattern: 'FREQ=DAILY',
+      recurring_until: null,
+    };
+    const queries = queue({ data: series }, { data: { timezone: 'UTC' } }, { data: [] }, { data: { id: 'task-2' } });
+
+    await spawnNextOccurrence({ series_id: 'series-1', occurrence_date: '2025-01-01T08:00:00.000Z' } as Task);
+
+    expect(queries[3].insert).toHaveBeenCalledWith(expect.objectContaining({
+      requires_proof: true,
+      auto_complete_on_subtasks: true,
+      occurrence_date: '2025-01-02T08:00:00.000Z',
+    }));
+  });
+
+  it('should not leave a series behind when its first occurrence cannot be created', async () => {
+    const queries = queue({ data: { id: 'series-1' } }, { data: null, error: { message: 'insert failed' } });
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const taskData: CreateTaskData = {
+      title: 'Feed the cat',
+      description: '',
+      group_id: 'group-1',
+      priority: 'Medium',
+      urgent: false,
+      recurring_pattern: 'FREQ=DAILY',
+    };
+
+    await expect(createTask(taskData, 'parent-1')).rejects.toThrow('Failed to create task: insert failed');
+
+    expect(queries[2].delete).toHaveBeenCalled();
+    expect(queries[2].eq).toHaveBeenCalledWith('id', 'series-1');
+    consoleError.mockRestore();
+  });
+
+  it('should cancel a skipped occurrence through the usual update and schedule the next one', async () => {
+    const occurrence = {
+      id: 'task-1',
+      title: 'Feed the cat',
+      group_id: 'group-1',
+      created_by: 'parent-1',
+      status: 'pending',
+      series_id: 'series-1',
+      occurrence_date: '2025-01-01T08:00:00.000Z',
+    };
+    const queries = tables({
+      tasks: { data: occurrence },
+      task_series: { data: { id: 'series-1', recurring_pattern: 'FREQ=DAILY', recurring_until: null } },
+    });
+
+    await skipOccurrence('task-1', 'child-1');
+
+    const cancel = queriesMade().find(query => query.update.mock.calls.length > 0);
+    expect(cancel.update).toHaveBeenCalledWith(expect.objectContaining({ status: 'cancelled', completed_at: null }));
+    expect(queries.tasks.insert).toHaveBeenCalledWith(expect.objectContaining({
+      occurrence_date: '2025-01-02T08:00:00.000Z',
+    }));
+  });
+
+  it('should not let a member skip an occurrence awaiting approval', async () => {
+    tables({
+      tasks: { data: { id: 'task-1', title: 'Feed the cat', group_id: 'group-1', created_by: 'parent-1', status: 'awaiting_approval', series_id: 'series-1' } },
+    });
+
+    await expect(skipOccurrence('task-1', 'child-1')).rejects
+      .toThrow('"Feed the cat" is awaiting approval; only a group admin or its creator, if not supervised, can change its status');
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from '@jest/globals';
+import { DEFAULT_REMINDER_PREFERENCES, getDueReminder, isQuietTime } from '../utils/reminders';
+
+const task = { id: 'task-1', title: 'Water the plants', due_date: '2024-06-03T18:00:00.000Z' };
+
+describe('Due-date reminders', () => {
+  it('should send only the closest offset that has been reached', () => {
+    // 30 minutes before the due date both the day and the hour reminder are past
+    const reminder = getDueReminder(task, DEFAULT_REMINDER_PREFERENCES, new Date('2024-06-03T17:30:00.000Z'), 'UTC');
+
+    expect(reminder?.type).toBe('due_soon');
+    expect(reminder?.key).toBe('before:60:2024-06-03T18:00:00.000Z');
+    expect(reminder?.title).toBe('Due in 1 hour: Water the plants');
+
+    expect(getDueReminder(task, DEFAULT_REMINDER_PREFERENCES, new Date('2024-06-01T12:00:00.000Z'), 'UTC')).toBeNull();
+  });
+
+  it('should hold reminders during quiet hours in the member time zone', () => {
+    const quietHours = { start: '22:00', end: '07:00' };
+
+    // 22:30 UTC is 08:30 the next morning in Sydney
+    expect(isQuietTime(new Date('2024-06-03T22:30:00.000Z'), 'UTC', quietHours)).toBe(true);
+    expect(isQuietTime(new Date('2024-06-03T22:30:00.000Z'), 'Australia/Sydney', quietHours)).toBe(false);
+
+    const lateTask = { ...task, due_date: '2024-06-03T23:00:00.000Z' };
+    expect(getDueReminder(lateTask, DEFAULT_REMINDER_PREFERENCES, new Date('2024-06-03T22:30:00.000Z'), 'UTC')).toBeNull();
+  });
+
+  it('should nudge overdue tasks once per local day from the configured hour', () => {
+    const preferences = { ...DEFAULT_REMINDER_PREFERENCES, overdue_nudge_hour: 9 };
+
+    // 07:30 UTC is 08:30 in London (BST), before the nudge hour
+    expect(getDueReminder(task, preferences, new Date('2024-06-05T07:30:00.000Z'), 'Europe/London')).toBeNull();
+
+    const reminder = getDueReminder(task, preferences, new Date('2024-06-05T08:30:00.000Z'), 'Europe/London');
+    expect(reminder?.type).toBe('overdue');
+    expect(reminder?.key).toBe('overdue:2024-06-05:2024-06-03T18:00:00.000Z');
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { supabase } from '../config/supabase';
+import { approveCompletion, rejectCompletion, updateTask } from '../services/taskService';
+import * as approvalService from '../services/approvalService';
+import * as commentService from '../services/commentService';
+import * as timeTrackingService from '../services/timeTrackingService';
+import { queue } from './supabaseMock';
+
+// Mock Supabase
+jest.mock('../config/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+  },
+}));
+
+jest.mock('../services/attachmentService', () => ({}));
+jest.mock('../services/approvalService', () => ({
+  canReview: jest.fn(),
+  requiresApproval: jest.fn(),
+}));
+jest.mock('../services/proofService', () => ({
+  requiresProof: jest.fn(() => Promise.resolve(false)),
+}));
+jest.mock('../services/dependencyService', () => ({
+  assertNotBlocked: jest.fn(() => Promise.resolve()),
+}));
+jest.mock('../services/timeTrackingService', () => ({
+  closeTimersForCompletion: jest.fn(() => Promise.resolve(null)),
+}));
+jest.mock('../services/commentService', () => ({
+  logTaskChanges: jest.fn(() => Promise.resolve()),
+  createComment: jest.fn(() => Promise.resolve({})),
+}));
+jest.mock('../services/revisionService', () => ({
+  recordRevision: jest.fn(() => Promise.resolve()),
+}));
+jest.mock('../services/pointsService', () => ({
+  syncTaskPoints: jest.fn(() => Promise.resolve()),
+}));
+
+const canReview = approvalService.canReview as jest.Mock;
+const requiresApproval = approvalService.requiresApproval as jest.Mock;
+
+const task = {
+  id: 'task-1',
+  title: 'Empty the dishwasher',
+  group_id: 'group-1',
+  created_by: 'parent-1',
+  category_id: 'category-1',
+  status: 'awaiting_approval',
+  assigned_to: 'child-1',
+  parent_task_id: null,
+  series_id: null,
+  requires_proof: false,
+  proof_attachment_id: 'attachment-1',
+  version: 3,
+};
+
+describe('Completion review', () => {
+  beforeEach(() => {
+    (supabase.from as jest.Mock).mockReset();
+    jest.clearAllMocks();
+    // The category needs approval, and the reviewer is the task's (unsupervised) creator
+    requiresApproval.mockReturnValue(Promise.resolve(true));
+    canReview.mockImplementation((_task: any, memberId: any) => Promise.resolve(memberId === 'parent-1'));
+  });
+
+  it('should complete an approved task without submitting it again', async () => {
+    const queries = queue({ data: task }, { data: task }, { data: { ...task, status: 'completed' } });
+
+    await approveCompletion('task-1', 'parent-1', { comment: 'Thanks!' });
+
+    expect(queries[2].update).toHaveBeenCalledWith(expect.objectContaining({
+      status: 'completed',
+      completed_at: expect.any(String),
+    }));
+    expect(requiresApproval).not.toHaveBeenCalled();
+    expect(commentService.createComment).toHaveBeenCalledWith('task-1', { content: 'Thanks!' }, 'parent-1');
+  });
+
+  it('should send a rejected task back without its proof', async () => {
+    const queries = queue({ data: task }, { data: task }, { data: { ...task, status: 'in_progress' } });
+
+    await rejectCompletion('task-1', 'parent-1', { comment: 'The top rack is still full' });
+
+    expect(queries[2].update).toHaveBeenCalledWith(expect.objectContaining({
+      status: 'in_progress',
+      proof_attachment_id: null,
+      submitted_by: null,
+      completed_at: null,
+    }));
+    expect(commentService.createComment)
+      .toHaveBeenCalledWith('task-1', { content: 'The top rack is still full' }, 'parent-1');
+  });
+
+  it('should not let a member who cannot review approve a completion', async () => {
+    queue({ data: task });
+
+    await expect(approveCompletion('task-1', 'sibling-1', {})).rejects
+      .toThrow('Only a group admin or the task creator, if not supervised, can review this completion');
+  });
+
+  it('should not review a task that is not awaiting approval', async () => {
+    queue({ data: { ...task, status: 'in_progress' } });
+
+    await expect(rejectCompletion('task-1', 'parent-1', { comment: 'Not yet' })).rejects
+      .toThrow('Task is not awaiting approval');
+  });
+
+  it('should not let a member who cannot review change the status of a task awaiting approval', async () => {
+    for (const status of ['completed', 'pending'] as const) {
+      const queries = queue({ data: task });
+
+      await expect(updateTask('task-1', { status }, 'sibling-1')).rejects
+        .toThrow(`"${task.title}" is awaiting approval; only a group admin or its creator, if not supervised, can change its status`);
+      expect(queries).toHaveLength(1);
+    }
+  });
+
+  it('should treat a reviewer completing a task awaiting approval as the approval', async () => {
+    const queries = queue({ data: task }, { data: { ...task, status: 'completed' } });
+
+    await updateTask('task-1', { status: 'completed' }, 'parent-1');
+
+    expect(queries[1].update).toHaveBeenCalledWith(expect.objectContaining({ status: 'completed' }));
+    expect(requiresApproval).not.toHaveBeenCalled();
+  });
+
+  it('should submit a completion that needs approval and stop its timers', async () => {
+    const pending = { ...task, status: 'in_progress', proof_attachment_id: null };
+    const queries = queue({ data: pending }, { data: { ...pending, status: 'awaiting_approval' } });
+
+    await updateTask('task-1', { status: 'completed' }, 'child-1');
+
+    expect(requiresApproval).toHaveBeenCalledWith(pending, 'child-1');
+    expect(queries[1].update).toHaveBeenCalledWith(expect.objectContaining({
+      status: 'awaiting_approval',
+      submitted_by: 'child-1',
+      completed_at: null,
+    }));
+    expect(timeTrackingService.closeTimersForCompletion).toHaveBeenCalledWith('task-1');
+  });
+});
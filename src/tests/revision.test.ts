@@ -0,0 +1,66 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { diffTask, getRevertUpdates } from '../services/revisionService';
+import type { TaskRevision } from '../services/revisionService';
+
+// Mock Supabase
+jest.mock('../config/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+  },
+}));
+
+jest.mock('../services/taskService', () => ({}));
+
+const revision = (changes: TaskRevision['changes']): TaskRevision => ({
+  id: 'revision-1',
+  task_id: 'task-1',
+  changed_by: 'member-1',
+  changes,
+  batch_id: null,
+  reverts_revision_id: null,
+  created_at: new Date().toISOString(),
+});
+
+describe('Task revisions', () => {
+  it('should record only tracked fields that changed', () => {
+    const changes = diffTask(
+      { title: 'Dishes', priority: 'Low', tags: ['kitchen'], updated_at: '2024-01-01' },
+      { title: 'Dishes', priority: 'High', tags: ['kitchen', 'daily'], updated_at: '2024-01-02' }
+    );
+
+    expect(changes).toEqual({
+      priority: { from: 'Low', to: 'High' },
+      tags: { from: ['kitchen'], to: ['kitchen', 'daily'] },
+    });
+  });
+
+  it('should treat a missing value as null', () => {
+    expect(diffTask({ assigned_to: undefined }, { assigned_to: null })).toEqual({});
+    expect(diffTask({}, { assigned_to: 'member-2' })).toEqual({
+      assigned_to: { from: null, to: 'member-2' },
+    });
+  });
+
+  it('should restore the previous values on undo', () => {
+    const updates = getRevertUpdates(
+      revision({ status: { from: 'pending', to: 'completed' }, completed_at: { from: null, to: '2024-01-02' } }),
+      { status: 'completed', completed_at: '2024-01-02' }
+    );
+
+    expect(updates).toEqual({ status: 'pending', completed_at: null });
+  });
+
+  it('should refuse to undo a field that changed again since', () => {
+    expect(() => getRevertUpdates(
+      revision({ assigned_to: { from: 'member-1', to: 'member-2' } }),
+      { assigned_to: 'member-3' }
+    )).toThrow('Cannot undo: assigned_to has changed since this revision');
+  });
+
+  it('should not put an approved task back in the approval queue', () => {
+    expect(() => getRevertUpdates(
+      revision({ status: { from: 'awaiting_approval', to: 'completed' } }),
+      { status: 'completed' }
+    )).toThrow('Cannot undo an approval; reopen the task instead');
+  });
+});
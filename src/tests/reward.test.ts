@@ -0,0 +1,62 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { supabase } from '../config/supabase';
+import { approveRedemption, cancelRedemption, requestRedemption } from '../services/rewardService';
+import { query, tables } from './supabaseMock';
+
+// Mock Supabase
+jest.mock('../config/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn(),
+  },
+}));
+
+const reward = { id: 'reward-1', group_id: 'group-1', name: 'Screen time', cost: 50, active: true };
+
+describe('Rewards store', () => {
+  beforeEach(() => {
+    (supabase.from as jest.Mock).mockReset();
+    (supabase.rpc as jest.Mock).mockReset();
+  });
+
+  it('should refuse a request the member cannot afford, counting pending requests', async () => {
+    const queries = tables({
+      rewards: { data: reward },
+      points_ledger: { data: [{ points: 40 }, { points: 30 }] },
+      reward_redemptions: { data: [{ cost: 30 }] },
+    });
+
+    await expect(requestRedemption('group-1', 'reward-1', 'member-1')).rejects
+      .toThrow('Not enough points: Screen time costs 50, 40 available');
+    expect(queries.reward_redemptions.insert).not.toHaveBeenCalled();
+  });
+
+  it('should only let the requesting member cancel a pending redemption', async () => {
+    tables({
+      reward_redemptions: { data: { id: 'redemption-1', group_id: 'group-1', member_id: 'member-1', status: 'pending', cost: 50 } },
+    });
+
+    await expect(cancelRedemption('group-1', 'redemption-1', 'member-2')).rejects
+      .toThrow('Only the member who requested a reward can cancel it');
+  });
+
+  it('should refund the points when the redemption was decided in the meantime', async () => {
+    const pending = { id: 'redemption-1', group_id: 'group-1', reward_id: 'reward-1', member_id: 'member-1', status: 'pending', cost: 50 };
+    const spend = { id: 'entry-1', group_id: 'group-1', member_id: 'member-1', points: -50, note: 'Redeemed: Screen time' };
+    // The first read finds the redemption pending; closing it then finds it already decided
+    const redemptionResults = [{ data: pending }, { data: null }];
+    const ledger = query({ data: { id: 'entry-2' } });
+
+    (supabase.rpc as jest.Mock).mockReturnValue(Promise.resolve({ data: spend, error: null }));
+    (supabase.from as jest.Mock).mockImplementation((table: any) => {
+      if (table === 'reward_redemptions') return query(redemptionResults.shift()!);
+      if (table === 'rewards') return query({ data: reward });
+      return ledger;
+    });
+
+    await expect(approveRedemption('group-1', 'redemption-1', 'admin-1')).rejects
+      .toThrow('Redemption has already been decided');
+    expect(supabase.rpc).toHaveBeenCalledWith('spend_points', expect.objectContaining({ p_points: 50 }));
+    expect(ledger.insert).toHaveBeenCalledWith(expect.objectContaining({ points: 50, reverses_entry_id: 'entry-1' }));
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { supabase } from '../config/supabase';
+import { searchTasks } from '../services/searchService';
+import { searchTasksSchema } from '../validators/taskValidator';
+import { decodeCursor, encodeCursor } from '../utils/pagination';
+import { tables } from './supabaseMock';
+
+// Mock Supabase
+jest.mock('../config/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn(),
+  },
+}));
+
+const groupId = '123e4567-e89b-12d3-a456-426614174000';
+const otherGroupId = '223e4567-e89b-12d3-a456-426614174000';
+
+const match = (taskId: string, rank: number) => ({
+  task_id: taskId,
+  rank,
+  title_highlight: `<mark>Mow</mark> ${taskId}`,
+  description_highlight: '',
+  comment_highlight: null,
+  total_count: 3,
+});
+
+describe('Task search', () => {
+  beforeEach(() => {
+    (supabase.from as jest.Mock).mockReset();
+    (supabase.rpc as jest.Mock).mockReset();
+  });
+
+  it('should require a query of at least two characters', () => {
+    expect(() => searchTasksSchema.parse({ q: ' m ' })).toThrow('Search query must be at least 2 characters');
+    expect(searchTasksSchema.parse({ q: ' mow ' })).toMatchObject({ q: 'mow', limit: 20 });
+  });
+
+  it('should search every group the user belongs to', async () => {
+    tables({ group_memberships: { data: [{ group_id: groupId }, { group_id: otherGroupId }] } });
+    (supabase.rpc as jest.Mock).mockReturnValue(Promise.resolve({ data: [], error: null }));
+
+    await searchTasks('user-1', searchTasksSchema.parse({ q: 'mow', status: 'pending' }));
+
+    expect(supabase.rpc).toHaveBeenCalledWith('search_tasks', {
+      p_group_ids: [groupId, otherGroupId],
+      p_query: 'mow',
+      p_status: 'pending',
+      p_priority: null,
+      p_assigned_to: null,
+      p_limit: 21,
+      p_offset: 0,
+    });
+  });
+
+  it('should narrow the search to one group', async () => {
+    tables({ group_memberships: { data: [{ group_id: groupId }, { group_id: otherGroupId }] } });
+    (supabase.rpc as jest.Mock).mockReturnValue(Promise.resolve({ data: [], error: null }));
+
+    await searchTasks('user-1', searchTasksSchema.parse({ q: 'mow', group_id: otherGroupId }));
+
+    expect(supabase.rpc).toHaveBeenCalledWith('search_tasks', expect.objectContaining({ p_group_ids: [otherGroupId] }));
+  });
+
+  it('should refuse to search a group the user is not part of', async () => {
+    tables({ group_memberships: { data: [{ group_id: groupId }] } });
+
+    await expect(searchTasks('user-1', searchTasksSchema.parse({ q: 'mow', group_id: otherGroupId }))).rejects
+      .toThrow('Access denied: not part of group');
+    expect(supabase.rpc).not.toHaveBeenCalled();
+  });
+
+  it('should not search at all for a user without groups', async () => {
+    tables({ group_memberships: { data: [] } });
+
+    const result = await searchTasks('user-1', searchTasksSchema.parse({ q: 'mow', include_total: 'true' }));
+
+    expect(result).toEqual({ data: [], page: { next_cursor: null, total: 0 } });
+    expect(supabase.rpc).not.toHaveBeenCalled();
+  });
+
+  it('should keep the ranking order and page by offset', async () => {
+    tables({
+      group_memberships: { data: [{ group_id: groupId }] },
+      tasks: { data: [{ id: 'task-3' }, { id: 'task-2' }] },
+    });
+    (supabase.rpc as jest.Mock).mockReturnValue(Promise.resolve({
+      data: [match('task-2', 0.9), match('task-3', 0.5), match('task-4', 0.1)],
+      error: null,
+    }));
+
+    const result = await searchTasks('user-1', searchTasksSchema.parse({
+      q: 'mow',
+      limit: 2,
+      cursor: encodeCursor({ offset: 4 }),
+      include_total: 'true',
+    }));
+
+    expect(supabase.rpc).toHaveBeenCalledWith('search_tasks', expect.objectContaining({ p_limit: 3, p_offset: 4 }));
+    expect(result.data.map(row => row.task.id)).toEqual(['task-2', 'task-3']);
+    expect(result.data[0].highlights.title).toBe('<mark>Mow</mark> task-2');
+    expect(decodeCursor(result.page.next_cursor!)).toEqual({ offset: 6 });
+    expect(result.page.total).toBe(3);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { supabase } from '../config/supabase';
+import {
+  computeProgress,
+  getNextPosition,
+  getParentReadyToComplete,
+  reorderSubtasks,
+  validateParent,
+} from '../services/subtaskService';
+import { queue } from './supabaseMock';
+
+// Mock Supabase
+jest.mock('../config/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+  },
+}));
+
+const parent = {
+  id: 'parent-1',
+  group_id: 'group-1',
+  parent_task_id: null,
+  status: 'pending',
+  auto_complete_on_subtasks: true,
+};
+
+describe('Subtask progress', () => {
+  it('should leave cancelled subtasks out of the progress', () => {
+    expect(computeProgress([
+      { status: 'completed' },
+      { status: 'pending' },
+      { status: 'cancelled' },
+    ])).toEqual({ completed: 1, total: 2 });
+  });
+});
+
+describe('Subtask hierarchy', () => {
+  beforeEach(() => {
+    (supabase.from as jest.Mock).mockReset();
+  });
+
+  it('should put a new subtask after the last one', async () => {
+    queue({ data: [{ position: 2 }] });
+    await expect(getNextPosition('parent-1')).resolves.toBe(3);
+
+    queue({ data: [] });
+    await expect(getNextPosition('parent-1')).resolves.toBe(0);
+  });
+
+  it('should store the new subtask order as positions', async () => {
+    const queries = queue(
+      { data: [{ id: 'a' }, { id: 'b' }, { id: 'c' }] },
+      { data: null },
+      { data: null },
+      { data: null },
+      { data: [{ id: 'c' }, { id: 'a' }, { id: 'b' }] }
+    );
+
+    await reorderSubtasks('parent-1', ['c', 'a', 'b']);
+
+    expect(queries[1].update).toHaveBeenCalledWith(expect.objectContaining({ position: 0 }));
+    expect(queries[1].eq).toHaveBeenCalledWith('id', 'c');
+    expect(queries[3].update).toHaveBeenCalledWith(expect.objectContaining({ position: 2 }));
+    expect(queries[3].eq).toHaveBeenCalledWith('id', 'b');
+  });
+
+  it('should refuse an order that does not list every subtask once', async () => {
+    queue({ data: [{ id: 'a' }, { id: 'b' }] });
+    await expect(reorderSubtasks('parent-1', ['a', 'a'])).rejects
+      .toThrow('subtaskIds must list every subtask of this task exactly once');
+
+    queue({ data: [{ id: 'a' }, { id: 'b' }] });
+    await expect(reorderSubtasks('parent-1', ['a'])).rejects
+      .toThrow('subtaskIds must list every subtask of this task exactly once');
+  });
+
+  it('should refuse a parent from another group', async () => {
+    queue({ data: parent });
+    await expect(validateParent('parent-1', 'group-2')).rejects
+      .toThrow('Parent task must belong to the same group');
+  });
+
+  it('should refuse moving a task under its own subtask', async () => {
+    // task-1 > parent-1: parent-1's parent is task-1
+    queue({ data: { ...parent, parent_task_id: 'task-1' } });
+    await expect(validateParent('parent-1', 'group-1', 'task-1')).rejects
+      .toThrow('A task cannot be moved under one of its own subtasks');
+  });
+
+  it('should refuse nesting deeper than the limit', async () => {
+    // parent-1 is already three levels below the root
+    queue(
+      { data: { ...parent, parent_task_id: 'middle-2' } },
+      { data: { id: 'middle-2', parent_task_id: 'middle-1' } },
+      { data: { id: 'middle-1', parent_task_id: 'root-1' } },
+      { data: { id: 'root-1', parent_task_id: null } }
+    );
+    await expect(validateParent('parent-1', 'group-1')).rejects
+      .toThrow('Subtasks can only be nested 3 levels deep');
+  });
+});
+
+describe('Subtask auto-completion', () => {
+  beforeEach(() => {
+    (supabase.from as jest.Mock).mockReset();
+  });
+
+  it('should complete the parent once every active subtask is done', async () => {
+    queue(
+      { data: parent },
+      { data: [{ status: 'completed' }, { status: 'cancelled' }] }
+    );
+    await expect(getParentReadyToComplete('parent-1')).resolves.toEqual(parent);
+  });
+
+  it('should wait while a subtask is still open', async () => {
+    queue(
+      { data: parent },
+      { data: [{ status: 'completed' }, { status: 'in_progress' }] }
+    );
+    await expect(getParentReadyToComplete('parent-1')).resolves.toBeNull();
+  });
+
+  it('should leave parents that did not opt in alone', async () => {
+    queue({ data: { ...parent, auto_complete_on_subtasks: false } });
+    await expect(getParentReadyToComplete('parent-1')).resolves.toBeNull();
+    expect(supabase.from).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,50 @@
+// Stand-ins for Supabase queries, for suites that mock '../config/supabase' with `from: jest.fn()`
+import { jest } from '@jest/globals';
+import { supabase } from '../config/supabase';
+
+export interface QueryResult {
+  data: any;
+  error?: any;
+  count?: number | null;
+}
+
+const chainMethods = [
+  'select', 'insert', 'update', 'upsert', 'delete',
+  'eq', 'neq', 'is', 'in', 'not', 'or', 'gt', 'gte', 'lt', 'lte',
+  'order', 'range', 'limit',
+];
+
+// Chainable query that resolves to `result` however it is finished
+export const query = (result: QueryResult) => {
+  const builder: any = {};
+  for (const method of chainMethods) {
+    builder[method] = jest.fn(() => builder);
+  }
+  builder.single = () => Promise.resolve({ error: null, ...result });
+  builder.maybeSingle = builder.single;
+  builder.then = (resolve: any, reject: any) => Promise.resolve({ error: null, ...result }).then(resolve, reject);
+  return builder;
+};
+
+const from = () => supabase.from as jest.Mock<(table: string) => any>;
+
+// Each table answers with its own result; returns the latest query made on each table
+export const tables = (results: Record<string, QueryResult>, fallback: QueryResult = { data: null }) => {
+  const queries: Record<string, any> = {};
+  from().mockImplementation(table => (queries[table] = query(results[table] ?? fallback)));
+  return queries;
+};
+
+// Each call to `from` answers with the next result in order; returns every query made
+export const queue = (...results: QueryResult[]) => {
+  const queries: any[] = [];
+  from().mockImplementation(() => {
+    const next = query(results[queries.length] ?? { data: null });
+    queries.push(next);
+    return next;
+  });
+  return queries;
+};
+
+// Every query made since `from` was last reset, in order
+export const queriesMade = (): any[] => from().mock.results.map(result => result.value);
@@ -0,0 +1,73 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { supabase } from '../config/supabase';
+import { getTagUsage, mergeTags } from '../services/tagService';
+import { bulkTaskUpdateSchema, MAX_TAGS_PER_TASK, taskFiltersSchema, updateTaskSchema } from '../validators/taskValidator';
+import { tables } from './supabaseMock';
+
+// Mock Supabase
+jest.mock('../config/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+  },
+}));
+
+const taskId = '123e4567-e89b-12d3-a456-426614174000';
+
+describe('Tag Validator', () => {
+  it('should store tags lowercased and without duplicates', () => {
+    const result = updateTaskSchema.parse({ tags: ['Garden', ' garden ', 'Weekend'] });
+    expect(result.tags).toEqual(['garden', 'weekend']);
+  });
+
+  it('should reject tags containing commas', () => {
+    expect(() => updateTaskSchema.parse({ tags: ['garden,weekend'] })).toThrow('Tags cannot contain commas');
+  });
+
+  it('should split a comma-separated tag filter', () => {
+    const result = taskFiltersSchema.parse({ tags: 'Garden, weekend', tag_match: 'all' });
+    expect(result.tags).toEqual(['garden', 'weekend']);
+    expect(result.tag_match).toBe('all');
+  });
+
+  it('should accept a repeated tag filter', () => {
+    const result = taskFiltersSchema.parse({ tags: ['garden', 'weekend'] });
+    expect(result.tags).toEqual(['garden', 'weekend']);
+  });
+
+  it('should not mix replacing tags with adding or removing them in a bulk update', () => {
+    expect(() => bulkTaskUpdateSchema.parse({
+      taskIds: [taskId],
+      updates: { tags: ['garden'] },
+      addTags: ['weekend'],
+    })).toThrow('Use either updates.tags or addTags/removeTags, not both');
+  });
+});
+
+describe('Task tags', () => {
+  beforeEach(() => {
+    (supabase.from as jest.Mock).mockReset();
+  });
+
+  it('should add and remove tags in a bulk update', () => {
+    expect(mergeTags(['garden', 'weekend'], ['outdoor', 'garden'], ['weekend'])).toEqual(['garden', 'outdoor']);
+    expect(mergeTags(null, ['garden'])).toEqual(['garden']);
+  });
+
+  it('should refuse a bulk update that leaves a task with too many tags', () => {
+    const current = Array.from({ length: MAX_TAGS_PER_TASK }, (_, i) => `tag-${i}`);
+    expect(() => mergeTags(current, ['one-more'])).toThrow(`A task can have at most ${MAX_TAGS_PER_TASK} tags`);
+  });
+
+  it('should list the tags of a group by usage', async () => {
+    tables({
+      tasks: { data: [{ tags: ['garden', 'weekend'] }, { tags: ['garden'] }, { tags: ['groceries'] }] },
+    });
+
+    await expect(getTagUsage('group-1')).resolves.toEqual([
+      { tag: 'garden', count: 2 },
+      { tag: 'groceries', count: 1 },
+      { tag: 'weekend', count: 1 },
+    ]);
+    await expect(getTagUsage('group-1', { q: 'g', limit: 1 })).resolves.toEqual([{ tag: 'garden', count: 2 }]);
+  });
+});
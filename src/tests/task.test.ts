@@ -25,7 +25,7 @@ describe('Task Validator', () => {
       const validData = {
         title: 'Test Task',
         description: 'Test description',
-        category: 'Chores',
+        category_id: '223e4567-e89b-12d3-a456-426614174000',
         priority: 'Medium',
         groupId: '123e4567-e89b-12d3-a456-426614174000',
         urgent: false,
@@ -33,14 +33,14 @@ describe('Task Validator', () => {
 
       const result = validate('createTask', validData);
       expect(result.title).toBe('Test Task');
-      expect(result.category).toBe('Chores');
+      expect(result.category_id).toBe('223e4567-e89b-12d3-a456-426614174000');
       expect(result.priority).toBe('Medium');
     });
 
     it('should reject invalid task data', () => {
       const invalidData = {
         title: '', // Empty title
-        category: 'InvalidCategory',
+        category_id: 'InvalidCategory',
         priority: 'InvalidPriority',
         groupId: 'invalid-uuid',
       };
@@ -51,7 +51,6 @@ describe('Task Validator', () => {
     it('should apply default values', () => {
       const minimalData = {
         title: 'Test Task',
-        category: 'Chores',
         priority: 'Medium',
         groupId: '123e4567-e89b-12d3-a456-426614174000',
       };
@@ -90,7 +89,7 @@ describe('Task Validator', () => {
     it('should validate filter parameters', () => {
       const filters = {
         status: 'pending',
-        category: 'Chores',
+        category_id: '223e4567-e89b-12d3-a456-426614174000',
         limit: 10,
         offset: 0,
       };
@@ -0,0 +1,93 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { supabase } from '../config/supabase';
+import { createTemplate, instantiateTemplate } from '../services/templateService';
+import * as taskService from '../services/taskService';
+import { getDateVariables, renderTemplateString } from '../utils/templateVariables';
+import { queue } from './supabaseMock';
+
+// Mock Supabase
+jest.mock('../config/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+  },
+}));
+
+jest.mock('../services/taskService', () => ({
+  createTask: jest.fn(),
+  createSubtask: jest.fn(),
+}));
+
+const createTask = taskService.createTask as jest.Mock;
+const createSubtask = taskService.createSubtask as jest.Mock;
+
+const groupId = '11111111-1111-4111-8111-111111111111';
+
+const template = {
+  id: 'template-1',
+  group_id: groupId,
+  name: 'Weekly clean',
+  task: { title: 'Clean the {{room}} ({{weekday}})', description: '', priority: 'High' as const, urgent: false, due_in_days: 2 },
+  subtasks: [{ title: 'Wipe the {{room}} counters', description: '' }],
+};
+
+describe('Template variables', () => {
+  const variables = getDateVariables(new Date('2025-03-03T00:00:00.000Z'));
+
+  it('should provide date variables', () => {
+    expect(variables).toEqual({ date: '2025-03-03', weekday: 'Monday', month: 'March', year: '2025' });
+  });
+
+  it('should substitute variables', () => {
+    expect(renderTemplateString('Weekly clean ({{ date }}, {{weekday}})', variables))
+      .toBe('Weekly clean (2025-03-03, Monday)');
+  });
+
+  it('should collect unknown variables', () => {
+    const missing = new Set<string>();
+    const rendered = renderTemplateString('Pack lunch for {{child}}', variables, missing);
+
+    expect(rendered).toBe('Pack lunch for {{child}}');
+    expect([...missing]).toEqual(['child']);
+  });
+});
+
+describe('Task templates', () => {
+  beforeEach(() => {
+    (supabase.from as jest.Mock).mockReset();
+    jest.clearAllMocks();
+  });
+
+  it('should create the rendered task and its checklist', async () => {
+    queue({ data: template });
+    createTask.mockReturnValue(Promise.resolve({ id: 'task-1' }));
+    createSubtask.mockImplementation((_parentId: any, subtask: any) => Promise.resolve({ id: 'subtask-1', ...subtask }));
+
+    const result = await instantiateTemplate(groupId, 'template-1', { date: '2025-03-03', variables: { room: 'kitchen' } }, 'member-1');
+
+    expect(createTask).toHaveBeenCalledWith(expect.objectContaining({
+      title: 'Clean the kitchen (Monday)',
+      group_id: groupId,
+      due_date: '2025-03-05T00:00:00.000Z',
+    }), 'member-1');
+    expect(createSubtask).toHaveBeenCalledWith('task-1', expect.objectContaining({
+      title: 'Wipe the kitchen counters',
+      priority: 'High',
+    }), 'member-1');
+    expect(result.subtasks).toHaveLength(1);
+  });
+
+  it('should create nothing when a variable is missing', async () => {
+    queue({ data: template });
+
+    await expect(instantiateTemplate(groupId, 'template-1', { date: '2025-03-03', variables: {} }, 'member-1')).rejects
+      .toThrow('Missing template variables: room');
+    expect(createTask).not.toHaveBeenCalled();
+  });
+
+  it('should report a duplicate template name', async () => {
+    queue({ data: null, error: { code: '23505', message: 'duplicate key value' } });
+
+    await expect(createTemplate(groupId, { name: 'Weekly clean', task: template.task, subtasks: [] }, 'member-1')).rejects
+      .toThrow('A template with this name already exists');
+  });
+});
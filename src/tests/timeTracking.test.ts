@@ -0,0 +1,167 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { supabase } from '../config/supabase';
+import {
+  addManualEntry,
+  closeTimersForCompletion,
+  getTimeEntries,
+  pauseTimer,
+  startTimer,
+  stopTimer,
+} from '../services/timeTrackingService';
+import { queue } from './supabaseMock';
+
+// Mock Supabase
+jest.mock('../config/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+  },
+}));
+
+const now = new Date('2025-03-01T10:00:00.000Z');
+
+const entry = (overrides: Record<string, any> = {}) => ({
+  id: 'entry-1',
+  task_id: 'task-1',
+  member_id: 'member-1',
+  source: 'timer',
+  started_at: '2025-03-01T09:30:00.000Z',
+  ended_at: null,
+  duration_seconds: null,
+  paused: false,
+  note: null,
+  created_at: '2025-03-01T09:30:00.000Z',
+  ...overrides,
+});
+
+describe('Task timers', () => {
+  beforeEach(() => {
+    (supabase.from as jest.Mock).mockReset();
+    jest.useFakeTimers({ now });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should not start a timer on a finished or submitted task', async () => {
+    queue({ data: { id: 'task-1', status: 'completed' } });
+    await expect(startTimer('task-1', 'member-1')).rejects.toThrow('Cannot track time on a completed task');
+
+    queue({ data: { id: 'task-1', status: 'awaiting_approval' } });
+    await expect(startTimer('task-1', 'member-1')).rejects.toThrow('Cannot track time on a task awaiting approval');
+  });
+
+  it('should only run one timer per member', async () => {
+    queue({ data: { id: 'task-2', status: 'pending' } }, { data: [entry()] });
+    await expect(startTimer('task-2', 'member-1')).rejects
+      .toThrow('You already have a timer running on another task; pause or stop it first');
+
+    queue({ data: { id: 'task-1', status: 'pending' } }, { data: [entry()] });
+    await expect(startTimer('task-1', 'member-1')).rejects.toThrow('Timer is already running on this task');
+  });
+
+  it('should record the elapsed seconds when a timer is paused', async () => {
+    const queries = queue({ data: [entry({ started_at: '2025-03-01T09:34:30.500Z' })] }, { data: entry() });
+
+    await pauseTimer('task-1', 'member-1');
+
+    expect(queries[1].update).toHaveBeenCalledWith({
+      ended_at: now.toISOString(),
+      duration_seconds: 1529,
+      paused: true,
+    });
+  });
+
+  it('should stop a running timer and clear an earlier pause', async () => {
+    const queries = queue({ data: [entry()] }, { data: null }, { data: entry() });
+
+    await stopTimer('task-1', 'member-1');
+
+    expect(queries[1].update).toHaveBeenCalledWith({ paused: false });
+    expect(queries[2].update).toHaveBeenCalledWith(expect.objectContaining({ duration_seconds: 1800, paused: false }));
+  });
+
+  it('should count a running timer up to now in the total', async () => {
+    queue({
+      data: [
+        entry({ id: 'entry-1', ended_at: '2025-03-01T09:00:00.000Z', duration_seconds: 600 }),
+        entry({ id: 'entry-2', source: 'manual', ended_at: '2025-03-01T08:00:00.000Z', duration_seconds: 1200 }),
+        entry({ id: 'entry-3', started_at: '2025-03-01T09:59:00.000Z' }),
+      ],
+    });
+
+    const summary = await getTimeEntries('task-1');
+
+    expect(summary.total_seconds).toBe(1860);
+    expect(summary.total_minutes).toBe(31);
+  });
+
+  it('should stop running timers on completion and return the tracked minutes', async () => {
+    const queries = queue(
+      { data: [entry()] },
+      { data: entry({ ended_at: now.toISOString(), duration_seconds: 1800 }) },
+      {
+        data: [
+          entry({ ended_at: now.toISOString(), duration_seconds: 1800 }),
+          entry({ id: 'entry-2', ended_at: now.toISOString(), duration_seconds: 45 }),
+        ],
+      }
+    );
+
+    await expect(closeTimersForCompletion('task-1')).resolves.toBe(31);
+    expect(queries[1].update).toHaveBeenCalledWith(expect.objectContaining({ duration_seconds: 1800 }));
+  });
+
+  it('should leave the actual duration empty when no time was tracked', async () => {
+    queue({ data: [] }, { data: [] });
+
+    await expect(closeTimersForCompletion('task-1')).resolves.toBeNull();
+  });
+});
+
+describe('Manual time entries', () => {
+  beforeEach(() => {
+    (supabase.from as jest.Mock).mockReset();
+    jest.useFakeTimers({ now });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should end an entry without a start time now', async () => {
+    const queries = queue({ data: { id: 'task-1', status: 'in_progress' } }, { data: entry() });
+
+    await addManualEntry('task-1', 'member-1', { minutes: 45 });
+
+    expect(queries[1].insert).toHaveBeenCalledWith(expect.objectContaining({
+      source: 'manual',
+      started_at: '2025-03-01T09:15:00.000Z',
+      ended_at: now.toISOString(),
+      duration_seconds: 2700,
+    }));
+    expect(queries).toHaveLength(2);
+  });
+
+  it('should update the actual duration of a completed task', async () => {
+    const queries = queue(
+      { data: { id: 'task-1', status: 'completed' } },
+      { data: entry() },
+      {
+        data: [
+          entry({ ended_at: now.toISOString(), duration_seconds: 2700 }),
+          entry({ id: 'entry-2', source: 'manual', ended_at: now.toISOString(), duration_seconds: 600 }),
+        ],
+      },
+      { data: null }
+    );
+
+    await addManualEntry('task-1', 'member-1', { minutes: 10, started_at: '2025-02-28T18:00:00.000Z' });
+
+    expect(queries[1].insert).toHaveBeenCalledWith(expect.objectContaining({
+      started_at: '2025-02-28T18:00:00.000Z',
+      ended_at: '2025-02-28T18:10:00.000Z',
+    }));
+    expect(queries[3].update).toHaveBeenCalledWith({ actual_duration: 55 });
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from '@jest/globals';
+import { computeWorkload, fairnessIndex } from '../utils/workload';
+import type { WorkloadTask } from '../utils/workload';
+
+const task = (overrides: Partial<WorkloadTask>): WorkloadTask => ({
+  assigned_to: 'alex',
+  category_id: null,
+  status: 'completed',
+  estimated_minutes: 30,
+  actual_duration: null,
+  due_date: null,
+  created_at: '2024-06-03T08:00:00.000Z',
+  completed_at: '2024-06-04T08:00:00.000Z',
+  ...overrides,
+});
+
+const members = [{ id: 'alex', name: 'Alex' }, { id: 'sam', name: 'Sam' }];
+const period = { from: new Date('2024-06-03T00:00:00.000Z'), to: new Date('2024-06-16T23:59:59.000Z') };
+
+describe('Workload analytics', () => {
+  it('should score an even split as fair and a one-sided split as unfair', () => {
+    expect(fairnessIndex([60, 60])).toBe(1);
+    expect(fairnessIndex([120, 0])).toBe(0.5);
+    expect(fairnessIndex([0, 0])).toBeNull();
+  });
+
+  it('should weight completed minutes by category and split them by week', () => {
+    const tasks = [
+      // Tracked time wins over the estimate
+      task({ actual_duration: 60 }),
+      // Kids work counts double
+      task({ assigned_to: 'sam', category_id: 'kids', completed_at: '2024-06-11T08:00:00.000Z' }),
+      // Open tasks count as assigned but not completed
+      task({ assigned_to: 'sam', status: 'pending', completed_at: null, due_date: '2024-06-12T08:00:00.000Z' }),
+      // Completed before the period
+      task({ completed_at: '2024-05-20T08:00:00.000Z', created_at: '2024-05-19T08:00:00.000Z' }),
+    ];
+
+    const report = computeWorkload(tasks, members, new Map([['kids', 2]]), period);
+    const alex = report.members.find(member => member.member_id === 'alex')!;
+    const sam = report.members.find(member => member.member_id === 'sam')!;
+
+    expect(alex.completed).toEqual({ tasks: 1, minutes: 60, weighted_minutes: 60 });
+    expect(sam.completed).toEqual({ tasks: 1, minutes: 30, weighted_minutes: 60 });
+    expect(sam.assigned.tasks).toBe(2);
+    expect(alex.share).toBe(50);
+    expect(report.fairness_index).toBe(1);
+
+    expect(report.weekly.map(week => week.week_start)).toEqual(['2024-06-03T00:00:00.000Z', '2024-06-10T00:00:00.000Z']);
+    expect(report.weekly[0].fairness_index).toBe(0.5);
+  });
+});
@@ -0,0 +1,63 @@
+// CSV parsing for task imports (RFC 4180: quoted fields may hold commas, quotes and line breaks)
+
+/**
+ * Parse CSV text into one record per data row, keyed by the trimmed header names.
+ * Blank lines are skipped; missing trailing fields are empty strings.
+ */
+export const parseCsv = (text: string): Record<string, string>[] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error('Invalid CSV: unterminated quoted field');
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const nonBlank = rows.filter(values => values.some(value => value.trim() !== ''));
+  if (nonBlank.length === 0) {
+    throw new Error('CSV is empty');
+  }
+
+  const [header, ...records] = nonBlank;
+  const columns = header.map(name => name.trim());
+
+  return records.map(values =>
+    Object.fromEntries(columns.map((column, index) => [column, values[index] ?? '']))
+  );
+};
@@ -0,0 +1,82 @@
+// Escalation rules
+// A group's rules fire once per task and due date: some hours before the task is due or some
+// hours after it became overdue. Each rule takes one action on the task.
+
+export type EscalationTrigger = 'due_soon' | 'overdue';
+
+export type EscalationAction = 'raise_priority' | 'set_urgent' | 'notify' | 'reassign';
+
+export type EscalationRecipient = 'creator' | 'admins' | 'assignee';
+
+export interface EscalationRule {
+  id: string;
+  trigger: EscalationTrigger;
+  // Hours before the due date (due_soon) or after it (overdue)
+  hours: number;
+  action: EscalationAction;
+  // Who a 'notify' rule notifies
+  recipients: EscalationRecipient[];
+}
+
+export interface EscalationSettings {
+  enabled: boolean;
+  rules: EscalationRule[];
+}
+
+export const DEFAULT_ESCALATION_SETTINGS: EscalationSettings = {
+  enabled: false,
+  rules: [],
+};
+
+export interface EscalatableTask {
+  due_date: string | null;
+  priority: string;
+  urgent: boolean;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const PRIORITY_STEPS = ['Low', 'Medium', 'High'];
+
+export const isRuleTriggered = (task: EscalatableTask, rule: EscalationRule, now: Date): boolean => {
+  if (!task.due_date) return false;
+
+  const hoursUntilDue = (new Date(task.due_date).getTime() - now.getTime()) / HOUR_MS;
+
+  return rule.trigger === 'due_soon'
+    ? hoursUntilDue > 0 && hoursUntilDue <= rule.hours
+    : -hoursUntilDue >= rule.hours;
+};
+
+// Next priority up, or null when the task is already at the top
+export const raisePriority = (priority: string): string | null => {
+  const index = PRIORITY_STEPS.indexOf(priority);
+  return index >= 0 && index < PRIORITY_STEPS.length - 1 ? PRIORITY_STEPS[index + 1] : null;
+};
+
+/**
+ * Task changes of a priority or urgency rule; null when the task needs no change
+ * (already high priority or urgent) or the rule takes no such action.
+ */
+export const getEscalationUpdates = (
+  task: EscalatableTask,
+  rule: EscalationRule
+): { priority?: string; urgent?: boolean } | null => {
+  if (rule.action === 'raise_priority') {
+    const priority = raisePriority(task.priority);
+    return priority ? { priority } : null;
+  }
+
+  if (rule.action === 'set_urgent') {
+    return task.urgent ? null : { urgent: true };
+  }
+
+  return null;
+};
+
+export const describeTrigger = (rule: EscalationRule): string => {
+  const hours = rule.hours === 1 ? '1 hour' : `${rule.hours} hours`;
+
+  if (rule.trigger === 'due_soon') return `due within ${hours}`;
+  return rule.hours === 0 ? 'overdue' : `overdue for ${hours}`;
+};
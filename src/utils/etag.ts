@@ -0,0 +1,22 @@
+// ETags for optimistic concurrency. A task's ETag is its version, which the database
+// bumps on every edit; clients send it back in If-Match to update only the copy they saw.
+
+export const toETag = (version: number): string => `"${version}"`;
+
+/**
+ * The versions an If-Match header accepts, or null when any version will do
+ * (no header, or `*`). Weak validators are accepted as their plain value; tags that
+ * are not task versions are ignored and so never match.
+ */
+export const parseIfMatch = (header: string | undefined): number[] | null => {
+  if (!header || header.trim() === '*') return null;
+
+  return header
+    .split(',')
+    .map(tag => /^(?:W\/)?"(\d+)"$/.exec(tag.trim()))
+    .filter((match): match is RegExpExecArray => match !== null)
+    .map(match => Number(match[1]));
+};
+
+export const matchesVersion = (accepted: number[] | null, version: number): boolean =>
+  accepted === null || accepted.includes(version);
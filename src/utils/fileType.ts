@@ -0,0 +1,28 @@
+// File type detection from content ("magic bytes"), so the declared Content-Type is never trusted
+
+interface FileSignature {
+  mimeType: string;
+  extension: string;
+  matches: (buffer: Buffer) => boolean;
+}
+
+const startsWith = (buffer: Buffer, bytes: number[], offset = 0): boolean =>
+  buffer.length >= offset + bytes.length && bytes.every((byte, index) => buffer[offset + index] === byte);
+
+const ascii = (text: string): number[] => [...text].map(char => char.charCodeAt(0));
+
+const SIGNATURES: FileSignature[] = [
+  { mimeType: 'image/jpeg', extension: 'jpg', matches: buffer => startsWith(buffer, [0xff, 0xd8, 0xff]) },
+  { mimeType: 'image/png', extension: 'png', matches: buffer => startsWith(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]) },
+  { mimeType: 'image/gif', extension: 'gif', matches: buffer => startsWith(buffer, ascii('GIF87a')) || startsWith(buffer, ascii('GIF89a')) },
+  { mimeType: 'image/webp', extension: 'webp', matches: buffer => startsWith(buffer, ascii('RIFF')) && startsWith(buffer, ascii('WEBP'), 8) },
+  { mimeType: 'application/pdf', extension: 'pdf', matches: buffer => startsWith(buffer, ascii('%PDF-')) },
+];
+
+/**
+ * Detect the MIME type of a file from its first bytes; null when unrecognised
+ */
+export const detectFileType = (buffer: Buffer): { mimeType: string; extension: string } | null => {
+  const signature = SIGNATURES.find(candidate => candidate.matches(buffer));
+  return signature ? { mimeType: signature.mimeType, extension: signature.extension } : null;
+};
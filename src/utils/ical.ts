@@ -0,0 +1,168 @@
+// iCalendar (RFC 5545) output for calendar feeds
+// Tasks with a due date become VEVENTs (shown by every calendar app) or VTODOs (task-aware
+// clients). Times are written in UTC, which needs no VTIMEZONE; the subscriber's time zone is
+// only a display hint. Recurring tasks carry their RRULE.
+import { parseRecurrenceRule, serializeRecurrenceRule } from './recurrence';
+
+export type CalendarComponent = 'event' | 'todo';
+
+export interface CalendarTask {
+  id: string;
+  title: string;
+  description: string | null;
+  status: string;
+  priority: string;
+  due_date: string;
+  completed_at: string | null;
+  estimated_minutes: number | null;
+  recurring_pattern: string | null;
+  recurring_until: string | null;
+  tags: string[] | null;
+  updated_at: string;
+  version: number;
+}
+
+export interface CalendarOptions {
+  name: string;
+  timeZone: string;
+  component: CalendarComponent;
+}
+
+// Events of tasks without an estimate last half an hour
+const DEFAULT_EVENT_MINUTES = 30;
+
+// iCalendar priority: 1 highest, 9 lowest
+const PRIORITIES: Record<string, number> = { High: 1, Medium: 5, Low: 9 };
+
+const TODO_STATUSES: Record<string, string> = {
+  pending: 'NEEDS-ACTION',
+  in_progress: 'IN-PROCESS',
+  completed: 'COMPLETED',
+  cancelled: 'CANCELLED',
+};
+
+export const escapeText = (text: string): string =>
+  text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets continue on the next line after a space
+export const foldLine = (line: string): string => {
+  const chunks: string[] = [];
+  let chunk = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (octets + size > limit) {
+      chunks.push(chunk);
+      chunk = '';
+      octets = 0;
+    }
+    chunk += char;
+    octets += size;
+  }
+  chunks.push(chunk);
+
+  return chunks.join('\r\n ');
+};
+
+const formatUtc = (date: Date): string =>
+  date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * RRULE of a recurring task; a series end date stored separately becomes its UNTIL.
+ * Patterns that cannot be read are left out rather than breaking the feed.
+ */
+const recurrenceRule = (task: CalendarTask): string | null => {
+  if (!task.recurring_pattern) return null;
+
+  try {
+    const rule = parseRecurrenceRule(task.recurring_pattern);
+    if (!rule.until && task.recurring_until) {
+      rule.until = new Date(task.recurring_until);
+    }
+    return serializeRecurrenceRule(rule);
+  } catch {
+    return null;
+  }
+};
+
+const taskLines = (task: CalendarTask, options: CalendarOptions): string[] => {
+  const due = new Date(task.due_date);
+  const updated = new Date(task.updated_at);
+  const rrule = task.status === 'completed' ? null : recurrenceRule(task);
+  const tags = (task.tags || []).map(escapeText).join(',');
+
+  const common = [
+    `UID:${task.id}@taskly`,
+    `DTSTAMP:${formatUtc(updated)}`,
+    `LAST-MODIFIED:${formatUtc(updated)}`,
+    `SEQUENCE:${task.version ?? 0}`,
+    // Events have no status of their own, so finished tasks are marked in the title
+    `SUMMARY:${options.component === 'event' && task.status === 'completed' ? '✓ ' : ''}${escapeText(task.title)}`,
+    ...(task.description ? [`DESCRIPTION:${escapeText(task.description)}`] : []),
+    ...(tags ? [`CATEGORIES:${tags}`] : []),
+    `PRIORITY:${PRIORITIES[task.priority] ?? 0}`,
+  ];
+
+  if (options.component === 'todo') {
+    return [
+      'BEGIN:VTODO',
+      ...common,
+      `DUE:${formatUtc(due)}`,
+      `STATUS:${TODO_STATUSES[task.status] ?? 'NEEDS-ACTION'}`,
+      ...(task.completed_at ? [`COMPLETED:${formatUtc(new Date(task.completed_at))}`] : []),
+      ...(rrule ? [`RRULE:${rrule}`] : []),
+      'END:VTODO',
+    ];
+  }
+
+  // Events run for the estimated time and end when the task is due
+  const minutes = task.estimated_minutes || DEFAULT_EVENT_MINUTES;
+  const start = new Date(due.getTime() - minutes * 60 * 1000);
+
+  return [
+    'BEGIN:VEVENT',
+    ...common,
+    `DTSTART:${formatUtc(start)}`,
+    `DURATION:PT${minutes}M`,
+    'TRANSP:TRANSPARENT',
+    ...(rrule ? [`RRULE:${rrule}`] : []),
+    'END:VEVENT',
+  ];
+};
+
+/**
+ * Build a complete VCALENDAR document for the tasks
+ */
+export const buildCalendar = (tasks: CalendarTask[], options: CalendarOptions): string => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Taskly//Task Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    `X-WR-TIMEZONE:${options.timeZone}`,
+    // Ask subscribed clients to refresh hourly so task changes show up
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+    ...tasks.flatMap(task => taskLines(task, options)),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
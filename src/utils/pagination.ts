@@ -0,0 +1,54 @@
+// Cursor pagination helpers
+// Cursors are opaque to clients: base64url-encoded JSON of the position after the last row returned.
+
+export interface PageInfo {
+  next_cursor: string | null;
+  // Only counted when the client asks for it (include_total=true)
+  total: number | null;
+}
+
+export interface Paginated<T> {
+  data: T[];
+  page: PageInfo;
+}
+
+export const encodeCursor = (position: object): string =>
+  Buffer.from(JSON.stringify(position), 'utf8').toString('base64url');
+
+/**
+ * Decode a cursor back into its position. Throws on anything that is not a cursor we issued.
+ */
+export const decodeCursor = (cursor: string): Record<string, unknown> => {
+  try {
+    const position = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (position && typeof position === 'object' && !Array.isArray(position)) {
+      return position;
+    }
+  } catch {
+    // fall through
+  }
+
+  throw new Error('Invalid cursor');
+};
+
+/**
+ * Build a page from a result fetched with one extra row: the extra row only signals
+ * that another page exists and is not returned.
+ */
+export const buildPage = <T>(
+  rows: T[],
+  limit: number,
+  toCursor: (last: T) => object,
+  total: number | null = null
+): Paginated<T> => {
+  const data = rows.slice(0, limit);
+  const hasMore = rows.length > limit;
+
+  return {
+    data,
+    page: {
+      next_cursor: hasMore && data.length > 0 ? encodeCursor(toCursor(data[data.length - 1])) : null,
+      total,
+    },
+  };
+};
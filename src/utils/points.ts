@@ -0,0 +1,54 @@
+// Points and streaks
+// Completing a task earns points by priority plus a bonus for its estimated size, unless its
+// category sets a fixed amount. A streak is a run of consecutive days with a completion.
+
+export interface PointsTask {
+  priority: string;
+  estimated_minutes: number | null;
+}
+
+export const PRIORITY_POINTS: Record<string, number> = {
+  Low: 5,
+  Medium: 10,
+  High: 20,
+};
+
+// One bonus point per this many estimated minutes, up to the cap
+const MINUTES_PER_BONUS_POINT = 10;
+const MAX_SIZE_BONUS = 30;
+
+export const taskPoints = (task: PointsTask, categoryPoints: number | null = null): number => {
+  if (categoryPoints !== null && categoryPoints !== undefined) {
+    return categoryPoints;
+  }
+
+  const base = PRIORITY_POINTS[task.priority] ?? PRIORITY_POINTS.Medium;
+  const bonus = Math.min(MAX_SIZE_BONUS, Math.floor((task.estimated_minutes ?? 0) / MINUTES_PER_BONUS_POINT));
+
+  return base + bonus;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const dayNumber = (date: string): number => Date.parse(`${date}T00:00:00Z`) / DAY_MS;
+
+/**
+ * Current and longest streak from the local dates ("YYYY-MM-DD") a member completed
+ * something on. The current streak survives until the end of the day after the last
+ * completion, so it does not drop to 0 each morning.
+ */
+export const computeStreaks = (dates: string[], today: string): { current: number; longest: number } => {
+  const days = [...new Set(dates.map(dayNumber))].sort((a, b) => a - b);
+
+  let longest = 0;
+  let run = 0;
+  for (const [index, day] of days.entries()) {
+    run = index > 0 && day === days[index - 1] + 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  }
+
+  const last = days[days.length - 1];
+  const current = last !== undefined && dayNumber(today) - last <= 1 ? run : 0;
+
+  return { current, longest };
+};
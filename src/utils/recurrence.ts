@@ -0,0 +1,282 @@
+// Recurrence rule helpers
+// Parses the RRULE subset stored in tasks.recurring_pattern and computes occurrences.
+// Supported: FREQ=DAILY|WEEKLY|MONTHLY, INTERVAL, BYDAY (weekly), BYMONTHDAY (monthly), UNTIL.
+// The legacy keywords 'daily', 'weekly' and 'monthly' are accepted as shorthands.
+// Days, weekdays and months are counted on the wall clock of a time zone, so an occurrence
+// keeps its local time of day across daylight saving changes.
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  byWeekday: Weekday[];
+  byMonthDay: number[];
+  until: Date | null;
+}
+
+// Monday-first, matching the RRULE default WKST=MO
+const WEEKDAYS: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY'];
+const MAX_INTERVAL = 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const parseUntil = (value: string): Date => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(value);
+  if (!match) {
+    throw new Error(`Invalid UNTIL value: ${value}`);
+  }
+
+  const [, year, month, day, hours = '23', minutes = '59', seconds = '59'] = match;
+  const date = new Date(Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds));
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid UNTIL value: ${value}`);
+  }
+
+  return date;
+};
+
+const formatUntil = (date: Date): string =>
+  date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+/**
+ * Parse a recurrence pattern into a structured rule. Throws on anything outside the supported subset.
+ */
+export const parseRecurrenceRule = (pattern: string): RecurrenceRule => {
+  const source = pattern.trim().replace(/^RRULE:/i, '');
+  const shorthand = source.toUpperCase();
+
+  if (FREQUENCIES.includes(shorthand as RecurrenceFrequency)) {
+    return { frequency: shorthand as RecurrenceFrequency, interval: 1, byWeekday: [], byMonthDay: [], until: null };
+  }
+
+  const rule: Partial<RecurrenceRule> = { interval: 1, byWeekday: [], byMonthDay: [], until: null };
+
+  for (const part of source.split(';').filter(Boolean)) {
+    const [rawKey, value] = part.split('=');
+    const key = rawKey?.toUpperCase();
+
+    if (!value) {
+      throw new Error(`Invalid recurrence rule part: ${part}`);
+    }
+
+    switch (key) {
+      case 'FREQ':
+        if (!FREQUENCIES.includes(value.toUpperCase() as RecurrenceFrequency)) {
+          throw new Error(`Unsupported recurrence frequency: ${value}`);
+        }
+        rule.frequency = value.toUpperCase() as RecurrenceFrequency;
+        break;
+      case 'INTERVAL': {
+        const interval = Number(value);
+        if (!Number.isInteger(interval) || interval < 1 || interval > MAX_INTERVAL) {
+          throw new Error(`INTERVAL must be a whole number between 1 and ${MAX_INTERVAL}`);
+        }
+        rule.interval = interval;
+        break;
+      }
+      case 'BYDAY':
+        rule.byWeekday = value.toUpperCase().split(',').map(day => {
+          if (!WEEKDAYS.includes(day as Weekday)) {
+            throw new Error(`Invalid BYDAY value: ${day}`);
+          }
+          return day as Weekday;
+        });
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = value.split(',').map(day => {
+          const monthDay = Number(day);
+          if (!Number.isInteger(monthDay) || monthDay === 0 || monthDay < -31 || monthDay > 31) {
+            throw new Error(`Invalid BYMONTHDAY value: ${day}`);
+          }
+          return monthDay;
+        });
+        break;
+      case 'UNTIL':
+        rule.until = parseUntil(value);
+        break;
+      default:
+        throw new Error(`Unsupported recurrence rule part: ${rawKey}`);
+    }
+  }
+
+  if (!rule.frequency) {
+    throw new Error('Recurrence rule must include FREQ');
+  }
+
+  if (rule.byWeekday!.length > 0 && rule.frequency !== 'WEEKLY') {
+    throw new Error('BYDAY is only supported with FREQ=WEEKLY');
+  }
+
+  if (rule.byMonthDay!.length > 0 && rule.frequency !== 'MONTHLY') {
+    throw new Error('BYMONTHDAY is only supported with FREQ=MONTHLY');
+  }
+
+  return rule as RecurrenceRule;
+};
+
+/**
+ * Serialize a rule back to its canonical RRULE form
+ */
+export const serializeRecurrenceRule = (rule: RecurrenceRule): string => {
+  const parts = [`FREQ=${rule.frequency}`];
+
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byWeekday.length > 0) {
+    const days = [...new Set(rule.byWeekday)].sort((a, b) => WEEKDAYS.indexOf(a) - WEEKDAYS.indexOf(b));
+    parts.push(`BYDAY=${days.join(',')}`);
+  }
+  if (rule.byMonthDay.length > 0) parts.push(`BYMONTHDAY=${[...new Set(rule.byMonthDay)].join(',')}`);
+  if (rule.until) parts.push(`UNTIL=${formatUntil(rule.until)}`);
+
+  return parts.join(';');
+};
+
+export const normalizeRecurrenceRule = (pattern: string): string =>
+  serializeRecurrenceRule(parseRecurrenceRule(pattern));
+
+export const isValidRecurrenceRule = (pattern: string): boolean => {
+  try {
+    parseRecurrenceRule(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// The wall-clock time in `timeZone`, written as if it were UTC so the UTC getters read it
+const toWallClock = (date: Date, timeZone: string): Date => {
+  if (timeZone === 'UTC') return date;
+
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    }).formatToParts(date).map(part => [part.type, part.value])
+  );
+
+  return new Date(Date.UTC(
+    +parts.year,
+    +parts.month - 1,
+    +parts.day,
+    +parts.hour,
+    +parts.minute,
+    +parts.second,
+    date.getUTCMilliseconds()
+  ));
+};
+
+// The instant at which `timeZone` shows the wall-clock time, the inverse of toWallClock
+const fromWallClock = (wallClock: Date, timeZone: string): Date => {
+  if (timeZone === 'UTC') return wallClock;
+
+  const offset = toWallClock(wallClock, timeZone).getTime() - wallClock.getTime();
+  const guess = new Date(wallClock.getTime() - offset);
+  const guessOffset = toWallClock(guess, timeZone).getTime() - guess.getTime();
+
+  // The offset differs on the other side of a daylight saving change
+  return guessOffset === offset ? guess : new Date(wallClock.getTime() - guessOffset);
+};
+
+const addDays = (date: Date, days: number): Date => new Date(date.getTime() + days * DAY_MS);
+
+// Monday = 0 ... Sunday = 6
+const weekdayIndex = (date: Date): number => (date.getUTCDay() + 6) % 7;
+
+const daysInMonth = (year: number, month: number): number => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+const nextWeekly = (rule: RecurrenceRule, from: Date): Date => {
+  if (rule.byWeekday.length === 0) {
+    return addDays(from, 7 * rule.interval);
+  }
+
+  const fromIndex = weekdayIndex(from);
+  const indexes = rule.byWeekday.map(day => WEEKDAYS.indexOf(day)).sort((a, b) => a - b);
+
+  // Later in the same week
+  const laterThisWeek = indexes.find(index => index > fromIndex);
+  if (laterThisWeek !== undefined) {
+    return addDays(from, laterThisWeek - fromIndex);
+  }
+
+  // First matching day of the next active week
+  const weekStart = addDays(from, -fromIndex);
+  return addDays(weekStart, 7 * rule.interval + indexes[0]);
+};
+
+const nextMonthly = (rule: RecurrenceRule, from: Date): Date | null => {
+  const monthDays = rule.byMonthDay.length > 0 ? rule.byMonthDay : [from.getUTCDate()];
+
+  // Months without a matching day (e.g. the 31st in a 30-day month) are skipped, per RFC 5545
+  for (let step = 0; step <= 48; step++) {
+    const monthOffset = step * rule.interval;
+    const year = from.getUTCFullYear() + Math.floor((from.getUTCMonth() + monthOffset) / 12);
+    const month = (from.getUTCMonth() + monthOffset) % 12;
+    const lastDay = daysInMonth(year, month);
+
+    const candidates = monthDays
+      .map(day => (day > 0 ? day : lastDay + day + 1))
+      .filter(day => day >= 1 && day <= lastDay)
+      .sort((a, b) => a - b)
+      .map(day => new Date(Date.UTC(
+        year,
+        month,
+        day,
+        from.getUTCHours(),
+        from.getUTCMinutes(),
+        from.getUTCSeconds(),
+        from.getUTCMilliseconds()
+      )))
+      .filter(candidate => candidate > from);
+
+    if (candidates.length > 0) {
+      return candidates[0];
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Get the first occurrence strictly after `from`, or null once the series has ended.
+ * `until` (tasks.recurring_until) and the rule's own UNTIL both bound the series.
+ * Weekdays and days of the month are those of `timeZone`.
+ */
+export const getNextOccurrence = (
+  rule: RecurrenceRule,
+  from: Date,
+  until: Date | null = null,
+  timeZone = 'UTC'
+): Date | null => {
+  const local = toWallClock(from, timeZone);
+  let nextLocal: Date | null;
+
+  switch (rule.frequency) {
+    case 'DAILY':
+      nextLocal = addDays(local, rule.interval);
+      break;
+    case 'WEEKLY':
+      nextLocal = nextWeekly(rule, local);
+      break;
+    case 'MONTHLY':
+      nextLocal = nextMonthly(rule, local);
+      break;
+    default:
+      nextLocal = null;
+  }
+
+  if (!nextLocal) return null;
+
+  const next = fromWallClock(nextLocal, timeZone);
+  if (rule.until && next > rule.until) return null;
+  if (until && next > until) return null;
+
+  return next;
+};
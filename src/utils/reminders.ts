@@ -0,0 +1,130 @@
+// Reminder timing
+// Decides which reminder (if any) a task's assignee is due right now: one before the due date
+// at each configured offset, then one overdue nudge per local day. Nothing is sent during the
+// member's quiet hours; reminders held back that way go out once the quiet hours end.
+
+export type ReminderChannelName = 'in_app' | 'email' | 'push';
+
+export interface ReminderPreferences {
+  enabled: boolean;
+  // Minutes before the due date, e.g. [1440, 60] for a day and an hour before
+  offsets_minutes: number[];
+  overdue_nudge: boolean;
+  // Local hour from which the daily overdue nudge is sent
+  overdue_nudge_hour: number;
+  // Local "HH:MM" window; may wrap past midnight
+  quiet_hours: { start: string; end: string } | null;
+  channels: ReminderChannelName[];
+}
+
+export const DEFAULT_REMINDER_PREFERENCES: ReminderPreferences = {
+  enabled: true,
+  offsets_minutes: [1440, 60],
+  overdue_nudge: true,
+  overdue_nudge_hour: 9,
+  quiet_hours: { start: '22:00', end: '07:00' },
+  channels: ['in_app'],
+};
+
+export interface ReminderTask {
+  id: string;
+  title: string;
+  due_date: string;
+}
+
+export interface DueReminder {
+  type: 'due_soon' | 'overdue';
+  // Identifies the reminder so it is sent once; includes the due date so rescheduling re-arms it
+  key: string;
+  title: string;
+  body: string;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+// Local date and time of day in a time zone
+export const getLocalTime = (date: Date, timeZone: string): { date: string; minutes: number } => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+    }).formatToParts(date).map(part => [part.type, part.value])
+  );
+
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+};
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export const isQuietTime = (now: Date, timeZone: string, quietHours: ReminderPreferences['quiet_hours']): boolean => {
+  if (!quietHours) return false;
+
+  const { minutes } = getLocalTime(now, timeZone);
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+
+  return start <= end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+};
+
+const describeOffset = (minutes: number): string => {
+  if (minutes % 1440 === 0) return minutes === 1440 ? '1 day' : `${minutes / 1440} days`;
+  if (minutes % 60 === 0) return minutes === 60 ? '1 hour' : `${minutes / 60} hours`;
+  return `${minutes} minutes`;
+};
+
+/**
+ * The reminder the assignee should get for a task now, or null. Before the due date only the
+ * closest offset that has been reached counts, so a task created an hour before it is due
+ * gets one reminder rather than every larger offset at once.
+ */
+export const getDueReminder = (
+  task: ReminderTask,
+  preferences: ReminderPreferences,
+  now: Date,
+  timeZone: string
+): DueReminder | null => {
+  if (!preferences.enabled || isQuietTime(now, timeZone, preferences.quiet_hours)) {
+    return null;
+  }
+
+  const due = new Date(task.due_date);
+  const minutesLeft = (due.getTime() - now.getTime()) / MINUTE_MS;
+
+  if (minutesLeft > 0) {
+    const reached = preferences.offsets_minutes.filter(offset => offset >= minutesLeft);
+    if (reached.length === 0) return null;
+
+    const offset = Math.min(...reached);
+    return {
+      type: 'due_soon',
+      key: `before:${offset}:${due.toISOString()}`,
+      title: `Due in ${describeOffset(offset)}: ${task.title}`,
+      body: `"${task.title}" is due ${due.toISOString()}.`,
+    };
+  }
+
+  if (!preferences.overdue_nudge) return null;
+
+  const local = getLocalTime(now, timeZone);
+  if (local.minutes < preferences.overdue_nudge_hour * 60) return null;
+
+  return {
+    type: 'overdue',
+    key: `overdue:${local.date}:${due.toISOString()}`,
+    title: `Overdue: ${task.title}`,
+    body: `"${task.title}" was due ${due.toISOString()} and is still open.`,
+  };
+};
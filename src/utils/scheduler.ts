@@ -0,0 +1,36 @@
+// Background jobs
+// Runs a job on an interval (and once right away). A slow run is never overlapped by the next
+// one, and the timer does not keep the process alive on its own.
+
+/**
+ * Start the job; returns a function that stops it. The job may return a summary to log.
+ */
+export const startIntervalJob = (
+  name: string,
+  job: () => Promise<string | null>,
+  intervalMs: number
+): (() => void) => {
+  let running = false;
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+
+    try {
+      const summary = await job();
+      if (summary) {
+        console.log(`${name}: ${summary}`);
+      }
+    } catch (error) {
+      console.error(`${name} job error:`, error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, intervalMs);
+  timer.unref();
+  void tick();
+
+  return () => clearInterval(timer);
+};
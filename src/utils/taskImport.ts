@@ -0,0 +1,167 @@
+// Task import rows
+// Spreadsheet-friendly columns ("Assignee", "Due", "Category" by name, "yes"/"no") mapped onto
+// the createTaskSchema input, so imported rows are validated exactly like API-created tasks.
+import { parseCsv } from './csv';
+
+export type ImportFormat = 'csv' | 'json';
+
+export type ImportRow = Record<string, unknown>;
+
+export interface ImportLookups {
+  // Keyed by lowercased email / category name
+  memberIdsByEmail: Map<string, string>;
+  categoryIdsByName: Map<string, string>;
+}
+
+const COLUMN_ALIASES: Record<string, string> = {
+  assignee: 'assigned_to',
+  assignee_email: 'assigned_to',
+  category: 'category_name',
+  due: 'due_date',
+  estimate: 'estimated_minutes',
+  recurrence: 'recurring_pattern',
+};
+
+const IMPORT_FIELDS = new Set([
+  'title',
+  'description',
+  'priority',
+  'category_id',
+  'category_name',
+  'assigned_to',
+  'due_date',
+  'urgent',
+  'estimated_minutes',
+  'tags',
+  'recurring_pattern',
+  'recurring_until',
+  'parent_task_id',
+  'auto_complete_on_subtasks',
+]);
+
+const normalizeColumn = (column: string): string => {
+  const key = column.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  return COLUMN_ALIASES[key] ?? key;
+};
+
+const toBoolean = (value: unknown): unknown => {
+  if (typeof value !== 'string') return value;
+  const text = value.trim().toLowerCase();
+  if (['true', 'yes', 'y', '1'].includes(text)) return true;
+  if (['false', 'no', 'n', '0'].includes(text)) return false;
+  return value;
+};
+
+const toNumber = (value: unknown): unknown =>
+  typeof value === 'string' && /^\s*\d+\s*$/.test(value) ? Number(value) : value;
+
+// A bare date (2024-05-31) means midnight UTC that day
+const toDateTime = (value: unknown): unknown =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value.trim())
+    ? `${value.trim()}T00:00:00.000Z`
+    : value;
+
+const toPriority = (value: unknown): unknown =>
+  typeof value === 'string' && value.trim()
+    ? value.trim().charAt(0).toUpperCase() + value.trim().slice(1).toLowerCase()
+    : value;
+
+const toTags = (value: unknown): unknown =>
+  typeof value === 'string'
+    ? value.split(/[,;]/).map(tag => tag.trim()).filter(Boolean)
+    : value;
+
+/**
+ * Parse uploaded import content into rows. JSON may be an array of rows or { tasks: [...] }.
+ */
+export const readImportRows = (content: string | ImportRow[], format: ImportFormat, maxRows: number): ImportRow[] => {
+  let rows: unknown = content;
+
+  if (typeof content === 'string') {
+    if (format === 'csv') {
+      rows = parseCsv(content);
+    } else {
+      try {
+        rows = JSON.parse(content);
+      } catch {
+        throw new Error('Invalid JSON');
+      }
+    }
+  }
+
+  if (rows && !Array.isArray(rows) && Array.isArray((rows as { tasks?: unknown }).tasks)) {
+    rows = (rows as { tasks: unknown[] }).tasks;
+  }
+
+  if (!Array.isArray(rows) || rows.some(row => typeof row !== 'object' || row === null || Array.isArray(row))) {
+    throw new Error('Import data must be a list of task rows');
+  }
+
+  if (rows.length === 0) {
+    throw new Error('Import data has no rows');
+  }
+
+  if (rows.length > maxRows) {
+    throw new Error(`At most ${maxRows} rows can be imported at once`);
+  }
+
+  return rows as ImportRow[];
+};
+
+/**
+ * Map one import row onto createTaskSchema input for the group. Assignee emails and category
+ * names are resolved with the lookups; anything that cannot be resolved is reported in `errors`.
+ * Unknown columns are ignored and blank cells are treated as missing.
+ */
+export const normalizeImportRow = (
+  row: ImportRow,
+  groupId: string,
+  lookups: ImportLookups
+): { input: Record<string, unknown>; errors: string[] } => {
+  const fields: Record<string, unknown> = {};
+  for (const [column, value] of Object.entries(row)) {
+    const field = normalizeColumn(column);
+    if (!IMPORT_FIELDS.has(field) || value === null || value === undefined) continue;
+    if (typeof value === 'string' && value.trim() === '') continue;
+    fields[field] = value;
+  }
+
+  const errors: string[] = [];
+  const { category_name, ...input } = fields;
+
+  if (input.priority !== undefined) input.priority = toPriority(input.priority);
+  if (input.urgent !== undefined) input.urgent = toBoolean(input.urgent);
+  if (input.auto_complete_on_subtasks !== undefined) {
+    input.auto_complete_on_subtasks = toBoolean(input.auto_complete_on_subtasks);
+  }
+  if (input.estimated_minutes !== undefined) input.estimated_minutes = toNumber(input.estimated_minutes);
+  if (input.tags !== undefined) input.tags = toTags(input.tags);
+  if (input.due_date !== undefined) input.due_date = toDateTime(input.due_date);
+  if (input.recurring_until !== undefined) input.recurring_until = toDateTime(input.recurring_until);
+
+  if (typeof input.assigned_to === 'string' && input.assigned_to.includes('@')) {
+    const email = input.assigned_to.trim().toLowerCase();
+    const memberId = lookups.memberIdsByEmail.get(email);
+    if (memberId) {
+      input.assigned_to = memberId;
+    } else {
+      errors.push(`assigned_to: No group member with email ${email}`);
+    }
+  }
+
+  if (input.category_id === undefined && typeof category_name === 'string') {
+    const categoryId = lookups.categoryIdsByName.get(category_name.trim().toLowerCase());
+    if (categoryId) {
+      input.category_id = categoryId;
+    } else {
+      errors.push(`category: No category named "${category_name.trim()}" in this group`);
+    }
+  } else if (
+    typeof input.category_id === 'string' &&
+    ![...lookups.categoryIdsByName.values()].includes(input.category_id)
+  ) {
+    errors.push('category_id: Category not found in this group');
+  }
+
+  return { input: { ...input, group_id: groupId }, errors };
+};
@@ -0,0 +1,34 @@
+// Template variable helpers
+// Task templates may use {{name}} placeholders in their text; the date variables are built in.
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+/**
+ * Built-in variables for an instantiation date: {{date}}, {{weekday}}, {{month}}, {{year}}
+ */
+export const getDateVariables = (date: Date): Record<string, string> => ({
+  date: date.toISOString().slice(0, 10),
+  weekday: WEEKDAYS[date.getUTCDay()],
+  month: MONTHS[date.getUTCMonth()],
+  year: String(date.getUTCFullYear()),
+});
+
+/**
+ * Replace {{name}} placeholders. Unknown names are collected in `missing` and left as-is.
+ */
+export const renderTemplateString = (
+  text: string,
+  variables: Record<string, string>,
+  missing: Set<string> = new Set()
+): string =>
+  text.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) => {
+    if (Object.prototype.hasOwnProperty.call(variables, name)) {
+      return variables[name];
+    }
+    missing.add(name);
+    return placeholder;
+  });
@@ -0,0 +1,181 @@
+// Workload analytics
+// Who carries how much of a group's work over a period. Work is counted in minutes (actual
+// time when tracked, otherwise the estimate) scaled by the category's weight, so an hour of
+// childcare can count for more than an hour of errands.
+
+export interface WorkloadTask {
+  assigned_to: string | null;
+  category_id: string | null;
+  status: string;
+  estimated_minutes: number | null;
+  actual_duration: number | null;
+  due_date: string | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+export interface WorkloadMember {
+  id: string;
+  name: string | null;
+}
+
+export interface WorkloadTotals {
+  tasks: number;
+  minutes: number;
+  weighted_minutes: number;
+}
+
+export interface MemberWorkload {
+  member_id: string;
+  name: string | null;
+  // Tasks assigned to the member that fall in the period (by due date, else creation date)
+  assigned: WorkloadTotals;
+  // Tasks the member completed in the period
+  completed: WorkloadTotals;
+  // Percentage of the group's weighted completed minutes
+  share: number;
+}
+
+export interface WorkloadWeek {
+  // Monday of the week (UTC)
+  week_start: string;
+  members: { member_id: string; tasks: number; weighted_minutes: number }[];
+  fairness_index: number | null;
+}
+
+export interface WorkloadReport {
+  from: string;
+  to: string;
+  members: MemberWorkload[];
+  fairness_index: number | null;
+  weekly: WorkloadWeek[];
+}
+
+// Size assumed for tasks without an estimate or tracked time
+export const DEFAULT_TASK_MINUTES = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round = (value: number, digits = 1): number => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Jain's fairness index of the members' loads: 1 when everyone carries the same, down to
+ * 1/n when one member does everything. Null when nobody did anything.
+ */
+export const fairnessIndex = (loads: number[]): number | null => {
+  const total = loads.reduce((sum, load) => sum + load, 0);
+  const squares = loads.reduce((sum, load) => sum + load * load, 0);
+
+  if (loads.length === 0 || squares === 0) return null;
+  return round((total * total) / (loads.length * squares), 3);
+};
+
+// Monday 00:00 UTC of the week containing the date
+export const weekStart = (date: Date): Date => {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  return start;
+};
+
+const emptyTotals = (): WorkloadTotals => ({ tasks: 0, minutes: 0, weighted_minutes: 0 });
+
+const inPeriod = (value: string | null, from: Date, to: Date): boolean => {
+  if (!value) return false;
+  const date = new Date(value);
+  return date >= from && date <= to;
+};
+
+/**
+ * Per-member totals, the fairness index of completed work and its weekly series. Members who
+ * left the group but still have work in the period are included, so the figures add up.
+ */
+export const computeWorkload = (
+  tasks: WorkloadTask[],
+  members: WorkloadMember[],
+  categoryWeights: Map<string, number>,
+  period: { from: Date; to: Date }
+): WorkloadReport => {
+  const { from, to } = period;
+  const byMember = new Map<string, MemberWorkload>();
+
+  const entry = (memberId: string, name: string | null = null): MemberWorkload => {
+    let workload = byMember.get(memberId);
+    if (!workload) {
+      workload = { member_id: memberId, name, assigned: emptyTotals(), completed: emptyTotals(), share: 0 };
+      byMember.set(memberId, workload);
+    }
+    return workload;
+  };
+
+  members.forEach(member => entry(member.id, member.name));
+
+  // Weekly completed work per member, keyed by week start
+  const weeks = new Map<string, Map<string, { tasks: number; weighted_minutes: number }>>();
+  for (let week = weekStart(from); week <= to; week = new Date(week.getTime() + 7 * DAY_MS)) {
+    weeks.set(week.toISOString(), new Map());
+  }
+
+  const add = (totals: WorkloadTotals, minutes: number, weight: number) => {
+    totals.tasks += 1;
+    totals.minutes += minutes;
+    totals.weighted_minutes += minutes * weight;
+  };
+
+  for (const task of tasks) {
+    if (!task.assigned_to || task.status === 'cancelled') continue;
+
+    const weight = (task.category_id && categoryWeights.get(task.category_id)) || 1;
+    const workload = entry(task.assigned_to);
+
+    if (inPeriod(task.due_date ?? task.created_at, from, to)) {
+      add(workload.assigned, task.estimated_minutes ?? DEFAULT_TASK_MINUTES, weight);
+    }
+
+    if (task.status === 'completed' && inPeriod(task.completed_at, from, to)) {
+      const minutes = task.actual_duration ?? task.estimated_minutes ?? DEFAULT_TASK_MINUTES;
+      add(workload.completed, minutes, weight);
+
+      const week = weeks.get(weekStart(new Date(task.completed_at!)).toISOString());
+      if (week) {
+        const current = week.get(task.assigned_to) ?? { tasks: 0, weighted_minutes: 0 };
+        week.set(task.assigned_to, {
+          tasks: current.tasks + 1,
+          weighted_minutes: current.weighted_minutes + minutes * weight,
+        });
+      }
+    }
+  }
+
+  const workloads = [...byMember.values()];
+  const totalWeighted = workloads.reduce((sum, workload) => sum + workload.completed.weighted_minutes, 0);
+
+  for (const workload of workloads) {
+    workload.share = totalWeighted > 0 ? round((workload.completed.weighted_minutes / totalWeighted) * 100) : 0;
+    workload.assigned.weighted_minutes = round(workload.assigned.weighted_minutes);
+    workload.completed.weighted_minutes = round(workload.completed.weighted_minutes);
+  }
+
+  const memberIds = workloads.map(workload => workload.member_id);
+
+  return {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    members: workloads.sort((a, b) => b.completed.weighted_minutes - a.completed.weighted_minutes),
+    fairness_index: fairnessIndex(workloads.map(workload => workload.completed.weighted_minutes)),
+    weekly: [...weeks.entries()].map(([start, week]) => {
+      const weekMembers = memberIds.map(memberId => {
+        const totals = week.get(memberId) ?? { tasks: 0, weighted_minutes: 0 };
+        return { member_id: memberId, tasks: totals.tasks, weighted_minutes: round(totals.weighted_minutes) };
+      });
+
+      return {
+        week_start: start,
+        members: weekMembers,
+        fairness_index: fairnessIndex(weekMembers.map(member => member.weighted_minutes)),
+      };
+    }),
+  };
+};
@@ -0,0 +1,25 @@
+import { z } from 'zod';
+
+// Periods longer than a year are not analysed in one request
+export const MAX_WORKLOAD_DAYS = 366;
+
+// Workload analytics period; defaults to the last `weeks` weeks up to now
+export const workloadQuerySchema = z
+  .object({
+    from: z.string().datetime('Invalid date format').optional(),
+    to: z.string().datetime('Invalid date format').optional(),
+    weeks: z.coerce.number().int().min(1).max(52).default(8),
+  })
+  .transform(query => {
+    const to = query.to ? new Date(query.to) : new Date();
+    const from = query.from ? new Date(query.from) : new Date(to.getTime() - query.weeks * 7 * 24 * 60 * 60 * 1000);
+    return { from, to };
+  })
+  .refine(period => period.from < period.to, { message: '"from" must be before "to"', path: ['from'] })
+  .refine(
+    period => period.to.getTime() - period.from.getTime() <= MAX_WORKLOAD_DAYS * 24 * 60 * 60 * 1000,
+    { message: `The period can be at most ${MAX_WORKLOAD_DAYS} days`, path: ['from'] }
+  );
+
+// Export types
+export type WorkloadQuery = z.infer<typeof workloadQuerySchema>;
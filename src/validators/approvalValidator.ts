@@ -0,0 +1,35 @@
+import { z } from 'zod';
+
+const commentSchema = z
+  .string()
+  .trim()
+  .min(1, 'Comment cannot be empty')
+  .max(2000, 'Comment must be less than 2000 characters');
+
+// Approving a completion; the comment is optional
+export const approveCompletionSchema = z.object({
+  comment: commentSchema.optional(),
+});
+
+// Sending a completion back needs a comment saying what is missing
+export const rejectCompletionSchema = z.object({
+  comment: commentSchema,
+});
+
+// Whether a member's completions in a group need approval
+export const memberApprovalSchema = z.object({
+  requires_approval: z.boolean(),
+});
+
+// Tasks waiting for the current member's approval
+export const pendingApprovalsSchema = z.object({
+  group_id: z.string().uuid('Invalid group ID').optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// Export types
+export type ApproveCompletionData = z.infer<typeof approveCompletionSchema>;
+export type RejectCompletionData = z.infer<typeof rejectCompletionSchema>;
+export type MemberApprovalData = z.infer<typeof memberApprovalSchema>;
+export type PendingApprovalsData = z.infer<typeof pendingApprovalsSchema>;
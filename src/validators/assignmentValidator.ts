@@ -0,0 +1,38 @@
+import { z } from 'zod';
+
+// A member's auto-assignment settings within a group
+export const assignmentPreferencesSchema = z.object({
+  // Take the member out of auto-assignment until switched back on
+  available: z.boolean().optional(),
+
+  // Away until this date (holiday, busy week)
+  unavailable_until: z
+    .string()
+    .datetime('Invalid date format')
+    .nullable()
+    .optional(),
+
+  // Categories this member is never auto-assigned
+  excluded_category_ids: z
+    .array(z.string().uuid('Invalid category ID'))
+    .max(50)
+    .optional(),
+});
+
+// Spread a set of tasks across the group's members
+export const distributeTasksSchema = z.object({
+  taskIds: z
+    .array(z.string().uuid())
+    .min(1, 'At least one task ID is required')
+    .max(100, 'At most 100 tasks can be distributed at once'),
+
+  // Members to leave out of this distribution
+  exclude: z.array(z.string().uuid()).optional(),
+
+  // Also move tasks that already have an assignee
+  reassign: z.boolean().default(false),
+});
+
+// Export types
+export type AssignmentPreferencesData = z.infer<typeof assignmentPreferencesSchema>;
+export type DistributeTasksData = z.infer<typeof distributeTasksSchema>;
@@ -0,0 +1,18 @@
+import { z } from 'zod';
+
+// Create a calendar feed: the caller's own tasks, or all tasks of one of their groups
+export const createCalendarFeedSchema = z.object({
+  group_id: z
+    .string()
+    .uuid('Invalid group ID')
+    .optional(),
+});
+
+// Feed query: VEVENTs for any calendar app (default) or VTODOs for task-aware clients
+export const calendarFeedQuerySchema = z.object({
+  type: z.enum(['event', 'todo']).default('event'),
+});
+
+// Export types
+export type CreateCalendarFeedData = z.infer<typeof createCalendarFeedSchema>;
+export type CalendarFeedQueryData = z.infer<typeof calendarFeedQuerySchema>;
@@ -0,0 +1,91 @@
+import { z } from 'zod';
+
+const hexColor = z
+  .string()
+  .regex(/^#[0-9A-Fa-f]{6}$/, 'Color must be a hex value like #3B82F6');
+
+// How much a minute of work in the category counts in workload analytics
+const weight = z
+  .number()
+  .gt(0, 'Weight must be greater than 0')
+  .max(10, 'Weight must be at most 10');
+
+// Fixed points for completing a task of the category; null uses the priority/estimate formula
+const points = z
+  .number()
+  .int()
+  .min(0, 'Points cannot be negative')
+  .max(1000, 'Points must be at most 1000');
+
+// Create category schema
+export const createCategorySchema = z.object({
+  name: z
+    .string()
+    .min(1, 'Category name is required')
+    .max(50, 'Category name must be less than 50 characters')
+    .trim(),
+  
+  description: z
+    .string()
+    .max(200, 'Description must be less than 200 characters')
+    .optional(),
+  
+  color: hexColor.optional(),
+  
+  icon: z
+    .string()
+    .max(50, 'Icon must be less than 50 characters')
+    .optional(),
+  
+  sort_order: z.number().int().min(0).optional(),
+
+  weight: weight.optional(),
+
+  points: points.nullable().optional(),
+
+  // Completions of the category's tasks wait for approval
+  requires_approval: z.boolean().optional(),
+
+  // Completing the category's tasks needs a photo as proof
+  requires_proof: z.boolean().optional(),
+});
+
+// Update category schema
+export const updateCategorySchema = z.object({
+  name: z
+    .string()
+    .min(1, 'Category name is required')
+    .max(50, 'Category name must be less than 50 characters')
+    .trim()
+    .optional(),
+  
+  description: z
+    .string()
+    .max(200, 'Description must be less than 200 characters')
+    .nullable()
+    .optional(),
+  
+  color: hexColor.optional(),
+  
+  icon: z
+    .string()
+    .max(50, 'Icon must be less than 50 characters')
+    .nullable()
+    .optional(),
+  
+  sort_order: z.number().int().min(0).optional(),
+
+  weight: weight.optional(),
+
+  points: points.nullable().optional(),
+
+  // Completions of the category's tasks wait for approval
+  requires_approval: z.boolean().optional(),
+
+  // Completing the category's tasks needs a photo as proof
+  requires_proof: z.boolean().optional(),
+});
+
+// Export types
+export type CreateCategoryData = z.infer<typeof createCategorySchema>;
+export type UpdateCategoryData = z.infer<typeof updateCategorySchema>;
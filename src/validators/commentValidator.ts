@@ -0,0 +1,29 @@
+import { z } from 'zod';
+
+// Activity entry types; only 'comment' entries are written by members
+export const TaskCommentType = z.enum(['comment', 'status_change', 'assignment', 'escalation']);
+
+// Create comment schema
+export const createCommentSchema = z.object({
+  content: z
+    .string()
+    .trim()
+    .min(1, 'Comment cannot be empty')
+    .max(2000, 'Comment must be less than 2000 characters'),
+});
+
+// Update comment schema
+export const updateCommentSchema = createCommentSchema;
+
+// Activity thread query schema
+export const activityFiltersSchema = z.object({
+  type: TaskCommentType.optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// Export types
+export type TaskCommentTypeData = z.infer<typeof TaskCommentType>;
+export type CreateCommentData = z.infer<typeof createCommentSchema>;
+export type UpdateCommentData = z.infer<typeof updateCommentSchema>;
+export type ActivityFiltersData = z.infer<typeof activityFiltersSchema>;
@@ -0,0 +1,37 @@
+import { z } from 'zod';
+
+// An escalation rule; rules without an ID get one when saved
+export const escalationRuleSchema = z
+  .object({
+    id: z.string().uuid('Invalid rule ID').optional(),
+
+    // Hours before the due date (due_soon) or after it passed (overdue)
+    trigger: z.enum(['due_soon', 'overdue']),
+    hours: z.number().min(0).max(720, 'Hours must be at most 720 (30 days)'),
+
+    action: z.enum(['raise_priority', 'set_urgent', 'notify', 'reassign']),
+
+    // Who a notify rule notifies
+    recipients: z
+      .array(z.enum(['creator', 'admins', 'assignee']))
+      .min(1, 'At least one recipient is required')
+      .transform(recipients => [...new Set(recipients)])
+      .default(['creator', 'admins']),
+  })
+  .refine(rule => rule.trigger === 'overdue' || rule.hours > 0, {
+    message: 'A due_soon rule needs hours greater than 0',
+    path: ['hours'],
+  });
+
+// A group's escalation settings; missing fields keep their current value
+export const escalationSettingsSchema = z.object({
+  enabled: z.boolean().optional(),
+  rules: z
+    .array(escalationRuleSchema)
+    .max(20, 'At most 20 escalation rules per group')
+    .optional(),
+});
+
+// Export types
+export type EscalationRuleData = z.infer<typeof escalationRuleSchema>;
+export type EscalationSettingsData = z.infer<typeof escalationSettingsSchema>;
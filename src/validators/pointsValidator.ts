@@ -0,0 +1,33 @@
+import { z } from 'zod';
+
+// Admin correction of a member's points
+export const pointsAdjustmentSchema = z.object({
+  member_id: z.string().uuid('Invalid member ID'),
+  points: z
+    .number()
+    .int('Points must be a whole number')
+    .min(-1000)
+    .max(1000)
+    .refine(points => points !== 0, 'Points cannot be 0'),
+  note: z
+    .string()
+    .trim()
+    .min(1, 'A note is required')
+    .max(200, 'Note must be less than 200 characters'),
+});
+
+export const leaderboardQuerySchema = z.object({
+  // week: since Monday (UTC) of the current week
+  window: z.enum(['week', 'all']).default('week'),
+});
+
+export const pointsLedgerQuerySchema = z.object({
+  member_id: z.string().uuid('Invalid member ID').optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// Export types
+export type PointsAdjustmentData = z.infer<typeof pointsAdjustmentSchema>;
+export type LeaderboardQuery = z.infer<typeof leaderboardQuerySchema>;
+export type PointsLedgerQuery = z.infer<typeof pointsLedgerQuerySchema>;
@@ -0,0 +1,50 @@
+import { z } from 'zod';
+
+// Reminders can be set up to a week before the due date
+export const MAX_REMINDER_OFFSET_MINUTES = 7 * 24 * 60;
+
+const timeOfDaySchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be HH:MM (24-hour)');
+
+// A member's reminder settings; all fields optional, missing ones keep their current value
+export const reminderPreferencesSchema = z.object({
+  enabled: z.boolean().optional(),
+
+  // Minutes before the due date, e.g. [1440, 60]
+  offsets_minutes: z
+    .array(z.number().int().min(1).max(MAX_REMINDER_OFFSET_MINUTES, 'Reminders can be at most a week before the due date'))
+    .max(5, 'At most 5 reminders per task')
+    .transform(offsets => [...new Set(offsets)].sort((a, b) => b - a))
+    .optional(),
+
+  // Daily nudge for tasks past their due date, from this local hour
+  overdue_nudge: z.boolean().optional(),
+  overdue_nudge_hour: z.number().int().min(0).max(23).optional(),
+
+  // No reminders between these local times; null turns quiet hours off
+  quiet_hours: z
+    .object({ start: timeOfDaySchema, end: timeOfDaySchema })
+    .refine(hours => hours.start !== hours.end, 'Quiet hours must not start and end at the same time')
+    .nullable()
+    .optional(),
+
+  channels: z
+    .array(z.enum(['in_app', 'email', 'push']))
+    .min(1, 'At least one channel is required')
+    .transform(channels => [...new Set(channels)])
+    .optional(),
+});
+
+export const notificationFiltersSchema = z.object({
+  unread: z
+    .enum(['true', 'false'])
+    .transform(value => value === 'true')
+    .optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// Export types
+export type ReminderPreferencesData = z.infer<typeof reminderPreferencesSchema>;
+export type NotificationFilters = z.infer<typeof notificationFiltersSchema>;
@@ -0,0 +1,69 @@
+import { z } from 'zod';
+
+// Create reward schema
+export const createRewardSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Reward name is required')
+    .max(100, 'Reward name must be less than 100 characters'),
+
+  description: z
+    .string()
+    .max(500, 'Description must be less than 500 characters')
+    .optional(),
+
+  icon: z
+    .string()
+    .max(50, 'Icon must be less than 50 characters')
+    .optional(),
+
+  cost: z
+    .number()
+    .int('Cost must be a whole number of points')
+    .min(1, 'Cost must be at least 1 point')
+    .max(100000, 'Cost must be at most 100000 points'),
+});
+
+// Update reward schema
+export const updateRewardSchema = createRewardSchema
+  .extend({
+    description: z.string().max(500, 'Description must be less than 500 characters').nullable(),
+    icon: z.string().max(50, 'Icon must be less than 50 characters').nullable(),
+    active: z.boolean(),
+  })
+  .partial();
+
+// Reward catalog query (?include_inactive=true lists archived rewards too)
+export const rewardFiltersSchema = z.object({
+  include_inactive: z
+    .enum(['true', 'false'])
+    .transform(value => value === 'true')
+    .default('false'),
+});
+
+// A member's note on a redemption request, or an admin's on the decision
+export const redemptionNoteSchema = z.object({
+  note: z
+    .string()
+    .trim()
+    .max(200, 'Note must be less than 200 characters')
+    .optional(),
+});
+
+export const RedemptionStatus = z.enum(['pending', 'approved', 'rejected', 'cancelled']);
+
+export const redemptionFiltersSchema = z.object({
+  status: RedemptionStatus.optional(),
+  member_id: z.string().uuid('Invalid member ID').optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// Export types
+export type CreateRewardData = z.infer<typeof createRewardSchema>;
+export type UpdateRewardData = z.infer<typeof updateRewardSchema>;
+export type RewardFiltersData = z.infer<typeof rewardFiltersSchema>;
+export type RedemptionNoteData = z.infer<typeof redemptionNoteSchema>;
+export type RedemptionStatusData = z.infer<typeof RedemptionStatus>;
+export type RedemptionFiltersData = z.infer<typeof redemptionFiltersSchema>;
@@ -1,13 +1,98 @@
 import { z } from 'zod';
+import { normalizeRecurrenceRule } from '../utils/recurrence';
+import { decodeCursor } from '../utils/pagination';
 
 // Task status enum
-export const TaskStatus = z.enum(['pending', 'in_progress', 'completed', 'cancelled']);
+export const TaskStatus = z.enum(['pending', 'in_progress', 'awaiting_approval', 'completed', 'cancelled']);
+
+// Statuses a client can set; tasks only reach awaiting_approval by being completed
+const SettableTaskStatus = TaskStatus.exclude(['awaiting_approval']);
 
 // Task priority enum  
 export const TaskPriority = z.enum(['Low', 'Medium', 'High']);
 
-// Task category enum
-export const TaskCategory = z.enum(['Chores', 'Kids', 'Work', 'Projects', 'Personal', 'Shopping']);
+// Task category: one of the group's categories (see categoryService)
+const categoryIdSchema = z.string().uuid('Invalid category ID');
+
+// Recurrence rule (RRULE subset, e.g. FREQ=WEEKLY;BYDAY=MO,TH), stored in canonical form
+const recurringPatternSchema = z
+  .string()
+  .trim()
+  .transform((value, ctx) => {
+    try {
+      return normalizeRecurrenceRule(value);
+    } catch (error: any) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: error.message || 'Invalid recurrence rule' });
+      return z.NEVER;
+    }
+  });
+
+// Tags are free-form labels, stored lowercased; commas are reserved as the filter separator
+export const MAX_TAGS_PER_TASK = 20;
+
+const tagSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .min(1, 'Tags cannot be empty')
+  .max(30, 'Tags must be less than 30 characters')
+  .regex(/^[^,]+$/, 'Tags cannot contain commas');
+
+const tagsSchema = z
+  .array(tagSchema)
+  .max(MAX_TAGS_PER_TASK, `A task can have at most ${MAX_TAGS_PER_TASK} tags`)
+  .transform(tags => [...new Set(tags)]);
+
+// Tag filters accept a comma-separated list (?tags=a,b) or repeated parameters (?tags=a&tags=b)
+const tagListParamSchema = z.preprocess(
+  value => (typeof value === 'string' ? value.split(',') : value),
+  z.array(tagSchema).min(1)
+);
+
+// Boolean query parameters arrive as the strings 'true' / 'false'
+const booleanParamSchema = z.preprocess(
+  value => (value === 'true' ? true : value === 'false' ? false : value),
+  z.boolean()
+);
+
+// Opaque pagination cursor, decoded and checked against the position shape it must carry
+const cursorSchema = <T extends z.ZodTypeAny>(positionSchema: T) =>
+  z.string().transform((value, ctx): z.infer<T> => {
+    const position = (() => {
+      try {
+        return positionSchema.safeParse(decodeCursor(value));
+      } catch {
+        return null;
+      }
+    })();
+
+    if (!position?.success) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Invalid cursor' });
+      return z.NEVER;
+    }
+    return position.data;
+  });
+
+// Sortable task fields; priority sorts by rank (Low < Medium < High), not alphabetically
+export const TaskSortField = z.enum(['created_at', 'updated_at', 'due_date', 'priority', 'title']);
+export const SortOrder = z.enum(['asc', 'desc']);
+
+// Task lists are paged on (sort value, id), which stays stable under concurrent inserts.
+// The cursor records the sort it was issued for so it cannot be replayed against another.
+export const taskCursorPositionSchema = z.object({
+  sort: TaskSortField,
+  order: SortOrder,
+  value: z.union([z.string().max(200), z.number(), z.null()]),
+  id: z.string().uuid(),
+});
+
+// Search results are ranked, so their cursor is a position in the ranking
+const searchCursorPositionSchema = z.object({
+  offset: z.number().int().min(0),
+});
+
+// Whether a change to a recurring task applies to one occurrence or the whole series
+export const RecurrenceScope = z.enum(['occurrence', 'series']);
 
 // Create task schema
 export const createTaskSchema = z.object({
@@ -23,13 +108,13 @@ export const createTaskSchema = z.object({
     .optional()
     .default(''),
   
-  category: TaskCategory,
+  category_id: categoryIdSchema.optional(),
   
   priority: TaskPriority,
   
+  // 'auto' lets the fair-share engine pick the member (see assignmentService)
   assigned_to: z
-    .string()
-    .uuid('Invalid user ID')
+    .union([z.string().uuid('Invalid user ID'), z.literal('auto')])
     .optional(),
   
   group_id: z
@@ -49,6 +134,25 @@ export const createTaskSchema = z.object({
     .min(1, 'Estimated time must be at least 1 minute')
     .max(1440, 'Estimated time cannot exceed 24 hours')
     .optional(),
+  
+  tags: tagsSchema.optional(),
+  
+  recurring_pattern: recurringPatternSchema.optional(),
+  
+  recurring_until: z
+    .string()
+    .datetime('Invalid recurrence end date format')
+    .optional(),
+  
+  parent_task_id: z
+    .string()
+    .uuid('Invalid parent task ID')
+    .optional(),
+  
+  auto_complete_on_subtasks: z.boolean().optional(),
+
+  // Completing the task needs a photo as proof
+  requires_proof: z.boolean().optional(),
 });
 
 // Update task schema
@@ -65,7 +169,7 @@ export const updateTaskSchema = z.object({
     .max(500, 'Description must be less than 500 characters')
     .optional(),
   
-  category: TaskCategory.optional(),
+  category_id: categoryIdSchema.nullable().optional(),
   
   priority: TaskPriority.optional(),
   
@@ -75,7 +179,7 @@ export const updateTaskSchema = z.object({
     .nullable()
     .optional(),
   
-  status: TaskStatus.optional(),
+  status: SettableTaskStatus.optional(),
   
   due_date: z
     .string()
@@ -98,37 +202,189 @@ export const updateTaskSchema = z.object({
     .datetime('Invalid completion date format')
     .nullable()
     .optional(),
+  
+  tags: tagsSchema.optional(),
+  
+  recurring_pattern: recurringPatternSchema.nullable().optional(),
+  
+  recurring_until: z
+    .string()
+    .datetime('Invalid recurrence end date format')
+    .nullable()
+    .optional(),
+  
+  parent_task_id: z
+    .string()
+    .uuid('Invalid parent task ID')
+    .nullable()
+    .optional(),
+  
+  auto_complete_on_subtasks: z.boolean().optional(),
+
+  // Completing the task needs a photo as proof
+  requires_proof: z.boolean().optional(),
 });
 
 // Query filters schema
 export const taskFiltersSchema = z.object({
   status: TaskStatus.optional(),
-  category: TaskCategory.optional(),
+  category_id: categoryIdSchema.optional(),
   priority: TaskPriority.optional(),
   assigned_to: z.string().uuid().optional(),
-  urgent: z.boolean().optional(),
-  completed: z.boolean().optional(),
+  unassigned: booleanParamSchema.optional(),
+  created_by: z.string().uuid().optional(),
+  urgent: booleanParamSchema.optional(),
+  completed: booleanParamSchema.optional(),
+  overdue: booleanParamSchema.optional(),
+  due_before: z.string().datetime('Invalid due_before date format').optional(),
+  due_after: z.string().datetime('Invalid due_after date format').optional(),
+  tags: tagListParamSchema.optional(),
+  tag_match: z.enum(['any', 'all']).optional(),
+  blocked: booleanParamSchema.optional(),
+  // Defaults to created_at; the order defaults to the natural one for the field
+  sort: TaskSortField.optional(),
+  order: SortOrder.optional(),
   limit: z.coerce.number().int().min(1).max(100).default(50),
+  cursor: cursorSchema(taskCursorPositionSchema).optional(),
+  include_total: booleanParamSchema.optional(),
+  // Legacy offset paging; ignored when a cursor is given
   offset: z.coerce.number().int().min(0).default(0),
 });
 
+// Full-text search (?q=), scoped to the caller's groups or to one of them
+export const searchTasksSchema = z.object({
+  q: z
+    .string()
+    .trim()
+    .min(2, 'Search query must be at least 2 characters')
+    .max(200, 'Search query must be less than 200 characters'),
+  group_id: z.string().uuid('Invalid group ID').optional(),
+  status: TaskStatus.optional(),
+  priority: TaskPriority.optional(),
+  assigned_to: z.string().uuid().optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+  cursor: cursorSchema(searchCursorPositionSchema).optional(),
+  include_total: booleanParamSchema.optional(),
+});
+
 // Task assignment schema
 export const assignTaskSchema = z.object({
   assigned_to: z.string().uuid('Invalid user ID'),
 });
 
+// Bulk create, update and delete take at most this many tasks per request
+export const MAX_BULK_TASKS = 100;
+
 // Bulk task operations schema
 export const bulkTaskUpdateSchema = z.object({
-  taskIds: z.array(z.string().uuid()).min(1, 'At least one task ID is required'),
-  updates: updateTaskSchema.omit({ completed_at: true }),
+  taskIds: z
+    .array(z.string().uuid())
+    .min(1, 'At least one task ID is required')
+    .max(MAX_BULK_TASKS, `At most ${MAX_BULK_TASKS} tasks per request`),
+  updates: updateTaskSchema.omit({
+    completed_at: true,
+    recurring_pattern: true,
+    recurring_until: true,
+    parent_task_id: true,
+  }).default({}),
+  addTags: z.array(tagSchema).optional(),
+  removeTags: z.array(tagSchema).optional(),
+}).refine(data => data.updates.tags === undefined || (!data.addTags && !data.removeTags), {
+  message: 'Use either updates.tags or addTags/removeTags, not both',
+});
+
+export const bulkCreateTasksSchema = z.object({
+  tasks: z
+    .array(createTaskSchema)
+    .min(1, 'At least one task is required')
+    .max(MAX_BULK_TASKS, `At most ${MAX_BULK_TASKS} tasks per request`),
+});
+
+// Tag suggestions for a group (?q= prefix)
+export const tagSuggestionsSchema = z.object({
+  q: z.string().trim().toLowerCase().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+// Subtask schemas; subtasks inherit the group of their parent
+export const createSubtaskSchema = createTaskSchema.omit({ group_id: true, parent_task_id: true });
+
+export const reorderSubtasksSchema = z.object({
+  subtaskIds: z.array(z.string().uuid()).min(1, 'At least one subtask ID is required'),
+});
+
+// What happens to subtasks when their parent is deleted (?subtasks=cascade|promote)
+export const SubtaskDeletePolicy = z.enum(['cascade', 'promote']);
+
+export const deleteTaskOptionsSchema = z.object({
+  subtasks: SubtaskDeletePolicy.default('cascade'),
+});
+
+export const bulkDeleteTasksSchema = z.object({
+  taskIds: z
+    .array(z.string().uuid())
+    .min(1, 'At least one task ID is required')
+    .max(MAX_BULK_TASKS, `At most ${MAX_BULK_TASKS} tasks per request`),
+  subtasks: SubtaskDeletePolicy.default('cascade'),
+});
+
+// Import tasks into a group from CSV text or JSON rows (or an uploaded .csv/.json file)
+export const MAX_IMPORT_ROWS = 500;
+
+export const importTasksSchema = z.object({
+  group_id: z.string().uuid('Invalid group ID'),
+  format: z.enum(['csv', 'json']).optional(),
+  data: z.union([z.string(), z.array(z.record(z.unknown()))]).optional(),
+  dry_run: booleanParamSchema.default(false),
+});
+
+// Import another app's export file (see services/importers); dry_run previews the result
+export const ImportSource = z.enum(['todoist', 'trello', 'microsoft_todo']);
+
+export const externalImportSchema = z.object({
+  group_id: z.string().uuid('Invalid group ID'),
+  data: z.union([z.string(), z.record(z.unknown()), z.array(z.unknown())]).optional(),
+  dry_run: booleanParamSchema.default(false),
+});
+
+// Scope of an update to a recurring task (?scope=occurrence|series)
+export const recurrenceScopeSchema = RecurrenceScope.default('occurrence');
+
+// Start or complete a task even though blockers are still open (?ignore_blockers=true)
+export const ignoreBlockersSchema = booleanParamSchema.default(false);
+
+// Add a blocked-by dependency
+export const addDependencySchema = z.object({
+  blocked_by_task_id: z.string().uuid('Invalid task ID'),
+});
+
+// Page through the revision history of a task
+export const revisionHistorySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
 });
 
 // Export types
 export type CreateTaskData = z.infer<typeof createTaskSchema>;
 export type UpdateTaskData = z.infer<typeof updateTaskSchema>;
 export type TaskFiltersData = z.infer<typeof taskFiltersSchema>;
+export type TaskCursorPosition = z.infer<typeof taskCursorPositionSchema>;
+export type TaskSortFieldData = z.infer<typeof TaskSortField>;
+export type SortOrderData = z.infer<typeof SortOrder>;
 export type AssignTaskData = z.infer<typeof assignTaskSchema>;
 export type BulkTaskUpdateData = z.infer<typeof bulkTaskUpdateSchema>;
+export type RecurrenceScopeData = z.infer<typeof RecurrenceScope>;
+export type CreateSubtaskData = z.infer<typeof createSubtaskSchema>;
+export type ReorderSubtasksData = z.infer<typeof reorderSubtasksSchema>;
+export type SubtaskDeletePolicyData = z.infer<typeof SubtaskDeletePolicy>;
+export type BulkCreateTasksData = z.infer<typeof bulkCreateTasksSchema>;
+export type BulkDeleteTasksData = z.infer<typeof bulkDeleteTasksSchema>;
+export type ImportTasksData = z.infer<typeof importTasksSchema>;
+export type ExternalImportData = z.infer<typeof externalImportSchema>;
+export type AddDependencyData = z.infer<typeof addDependencySchema>;
+export type RevisionHistoryData = z.infer<typeof revisionHistorySchema>;
+export type SearchTasksData = z.infer<typeof searchTasksSchema>;
+export type TagSuggestionsData = z.infer<typeof tagSuggestionsSchema>;
 
 // Validation function
 export const validate = (schema: 'createTask' | 'updateTask' | 'taskFilters' | 'assignTask' | 'bulkUpdate', data: any) => {
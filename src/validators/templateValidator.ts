@@ -0,0 +1,78 @@
+import { z } from 'zod';
+import { createTaskSchema, createSubtaskSchema, TaskPriority } from './taskValidator';
+
+// Text fields may contain {{variables}}, filled in when the template is instantiated
+const templateTaskSchema = createTaskSchema
+  .pick({
+    title: true,
+    description: true,
+    category_id: true,
+    priority: true,
+    urgent: true,
+    estimated_minutes: true,
+    tags: true,
+    assigned_to: true,
+  })
+  .extend({
+    // Due this many days after the instantiation date
+    due_in_days: z.number().int().min(0).max(365).optional(),
+  });
+
+// Subtasks take the priority of their parent unless they set one
+const templateSubtaskSchema = createSubtaskSchema
+  .pick({
+    title: true,
+    description: true,
+    estimated_minutes: true,
+    assigned_to: true,
+  })
+  .extend({
+    priority: TaskPriority.optional(),
+  });
+
+// Create template schema
+export const createTemplateSchema = z.object({
+  name: z
+    .string()
+    .min(1, 'Template name is required')
+    .max(100, 'Template name must be less than 100 characters')
+    .trim(),
+  
+  task: templateTaskSchema,
+  
+  subtasks: z
+    .array(templateSubtaskSchema)
+    .max(50, 'A template can have at most 50 subtasks')
+    .default([]),
+});
+
+// Update template schema
+export const updateTemplateSchema = createTemplateSchema.partial();
+
+// Instantiate template schema
+export const instantiateTemplateSchema = z.object({
+  // Date used for {{date}} and due_in_days; defaults to today
+  date: z.string().date('Invalid date, expected YYYY-MM-DD').optional(),
+  
+  due_date: z
+    .string()
+    .datetime('Invalid due date format')
+    .optional(),
+  
+  // Overrides the template's default assignee
+  assigned_to: z
+    .union([z.string().uuid('Invalid user ID'), z.literal('auto')])
+    .optional(),
+  
+  variables: z
+    .record(
+      z.string().regex(/^\w+$/, 'Variable names may only contain letters, digits and underscores'),
+      z.string().max(100, 'Variable values must be less than 100 characters')
+    )
+    .default({}),
+});
+
+// Export types
+export type CreateTemplateData = z.infer<typeof createTemplateSchema>;
+export type UpdateTemplateData = z.infer<typeof updateTemplateSchema>;
+export type InstantiateTemplateData = z.infer<typeof instantiateTemplateSchema>;
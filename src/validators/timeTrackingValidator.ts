@@ -0,0 +1,24 @@
+import { z } from 'zod';
+
+// Manual time entry schema, for work that was not timed
+export const manualTimeEntrySchema = z.object({
+  minutes: z
+    .number()
+    .int()
+    .min(1, 'Time entry must be at least 1 minute')
+    .max(1440, 'Time entry cannot exceed 24 hours'),
+  
+  started_at: z
+    .string()
+    .datetime('Invalid start date format')
+    .optional(),
+  
+  note: z
+    .string()
+    .trim()
+    .max(200, 'Note must be less than 200 characters')
+    .optional(),
+});
+
+// Export types
+export type ManualTimeEntryData = z.infer<typeof manualTimeEntrySchema>;